@@ -0,0 +1,194 @@
+/**
+ * Download service worker
+ * Answers /__nostrfetch_download__/<id> with a stream fed by the page over a
+ * MessageChannel, so large files are written to disk as they are fetched.
+ * Used when the File System Access API is not available (see src/lib/fileSink.ts).
+ *
+ * Also answers /__nostrfetch_stream__/<id> for media playback: each Range request
+ * is forwarded to the page, which fetches just the chunks it covers (see src/lib/mediaStream.ts).
+ */
+
+const DOWNLOAD_PATH = '__nostrfetch_download__/';
+const STREAM_PATH = '__nostrfetch_stream__/';
+// Longest range answered at once; players ask again for the rest
+const MAX_RANGE_BYTES = 8 * 1024 * 1024;
+const pendingDownloads = new Map();
+const mediaStreams = new Map();
+
+self.addEventListener('install', () => {
+    self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('message', (event) => {
+    const data = event.data;
+    if (data?.type === 'register-stream') {
+        const port = event.ports[0];
+        mediaStreams.set(data.id, { port, mimeType: data.mimeType, size: data.size });
+        port.postMessage({ type: 'registered' });
+        return;
+    }
+    if (data?.type === 'unregister-stream') {
+        mediaStreams.delete(data.id);
+        return;
+    }
+    if (data?.type !== 'register-download') return;
+
+    const port = event.ports[0];
+    pendingDownloads.set(data.id, {
+        port,
+        fileName: data.fileName,
+        mimeType: data.mimeType,
+        size: data.size,
+    });
+    port.postMessage({ type: 'registered' });
+});
+
+function contentDisposition(fileName) {
+    const fallback = fileName.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+/**
+ * Parse a single "bytes=" range; returns null when it can't be satisfied
+ */
+function parseRange(header, size) {
+    const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+    if (!match || (match[1] === '' && match[2] === '')) return null;
+
+    let start;
+    let end;
+    if (match[1] === '') {
+        // Suffix range: the last N bytes
+        start = Math.max(size - Number(match[2]), 0);
+        end = size - 1;
+    } else {
+        start = Number(match[1]);
+        end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+    }
+    if (start > end || start >= size) return null;
+    return { start, end };
+}
+
+function respondWithMediaStream(event, id) {
+    const mediaStream = mediaStreams.get(id);
+    if (!mediaStream) {
+        event.respondWith(new Response('Stream not found', { status: 404 }));
+        return;
+    }
+
+    const { size } = mediaStream;
+    let start = 0;
+    let end = size - 1;
+    const rangeHeader = event.request.headers.get('Range');
+    if (rangeHeader) {
+        const range = parseRange(rangeHeader, size);
+        if (!range) {
+            event.respondWith(new Response(null, {
+                status: 416,
+                headers: { 'Content-Range': `bytes */${size}` },
+            }));
+            return;
+        }
+        start = range.start;
+        end = Math.min(range.end, start + MAX_RANGE_BYTES - 1);
+    }
+
+    const channel = new MessageChannel();
+    const port = channel.port1;
+    const stream = new ReadableStream({
+        start(controller) {
+            port.onmessage = ({ data }) => {
+                if (data?.type === 'chunk') {
+                    controller.enqueue(data.chunk);
+                } else if (data?.type === 'end') {
+                    controller.close();
+                    port.close();
+                } else if (data?.type === 'error') {
+                    controller.error(new Error(data.message));
+                    port.close();
+                }
+            };
+            mediaStream.port.postMessage({ type: 'range', start, end }, [channel.port2]);
+        },
+        pull() {
+            port.postMessage({ type: 'pull' });
+        },
+        cancel() {
+            // The player seeked elsewhere or went away
+            port.postMessage({ type: 'cancel' });
+            port.close();
+        },
+    });
+
+    const headers = new Headers({
+        'Content-Type': mediaStream.mimeType || 'application/octet-stream',
+        'Content-Length': String(end - start + 1),
+        'Accept-Ranges': 'bytes',
+        'X-Content-Type-Options': 'nosniff',
+    });
+    if (rangeHeader) {
+        headers.set('Content-Range', `bytes ${start}-${end}/${size}`);
+    }
+
+    event.respondWith(new Response(stream, { status: rangeHeader ? 206 : 200, headers }));
+}
+
+self.addEventListener('fetch', (event) => {
+    const url = new URL(event.request.url);
+    if (url.origin !== self.location.origin) return;
+
+    const streamMarker = url.pathname.indexOf(STREAM_PATH);
+    if (streamMarker !== -1) {
+        respondWithMediaStream(event, url.pathname.slice(streamMarker + STREAM_PATH.length));
+        return;
+    }
+
+    const marker = url.pathname.indexOf(DOWNLOAD_PATH);
+    if (marker === -1) return;
+
+    const id = url.pathname.slice(marker + DOWNLOAD_PATH.length);
+    const download = pendingDownloads.get(id);
+    if (!download) {
+        event.respondWith(new Response('Download not found', { status: 404 }));
+        return;
+    }
+    pendingDownloads.delete(id);
+
+    const { port } = download;
+    const stream = new ReadableStream({
+        start(controller) {
+            port.onmessage = ({ data }) => {
+                if (data?.type === 'chunk') {
+                    controller.enqueue(data.chunk);
+                } else if (data?.type === 'close') {
+                    controller.close();
+                    port.close();
+                } else if (data?.type === 'abort') {
+                    controller.error(new Error('Download aborted'));
+                    port.close();
+                }
+            };
+        },
+        pull() {
+            port.postMessage({ type: 'pull' });
+        },
+        cancel() {
+            port.postMessage({ type: 'cancel' });
+        },
+    });
+
+    const headers = new Headers({
+        'Content-Type': download.mimeType || 'application/octet-stream',
+        'Content-Disposition': contentDisposition(download.fileName),
+        'X-Content-Type-Options': 'nosniff',
+    });
+    if (typeof download.size === 'number') {
+        headers.set('Content-Length', String(download.size));
+    }
+
+    event.respondWith(new Response(stream, { headers }));
+});
@@ -1,44 +1,69 @@
 import { useMemo } from 'react';
-import { Routes, Route, Navigate, useNavigate, useParams, Outlet } from 'react-router-dom';
+import { Routes, Route, Navigate, useLocation, useNavigate, useParams, useSearchParams, Outlet } from 'react-router-dom';
 import { PublicKeyEntry } from './components/PublicKeyEntry';
 import { FileList } from './components/FileList';
 import { FileDetail } from './components/FileDetail';
-import { isValidHexPubkey, isValidNpub, npubToPublicKey, publicKeyToNpub } from './lib/keys';
+import { Settings } from './components/Settings';
+import { SharedFile } from './components/SharedFile';
+import { Upload } from './components/Upload';
+import { decodeNprofile, isValidHexPubkey, isValidNpub, isValidNprofile, npubToPublicKey, publicKeyToNpub } from './lib/keys';
+import { addRelayHints, normalizeRelayHints, RELAY_HINT_PARAM } from './lib/relaySettings';
 import './App.css';
 
-function normalizePubkeyParam(input: string | undefined): { pubkey: string | null; npub: string | null; error: string | null } {
+function normalizePubkeyParam(input: string | undefined): { pubkey: string | null; npub: string | null; relays: string[]; error: string | null } {
   if (!input) {
-    return { pubkey: null, npub: null, error: 'Missing public key.' };
+    return { pubkey: null, npub: null, relays: [], error: 'Missing public key.' };
   }
 
   if (isValidHexPubkey(input)) {
     const pubkey = input.toLowerCase();
-    return { pubkey, npub: publicKeyToNpub(pubkey), error: null };
+    return { pubkey, npub: publicKeyToNpub(pubkey), relays: [], error: null };
   }
 
   if (isValidNpub(input)) {
     try {
       const pubkey = npubToPublicKey(input);
-      return { pubkey, npub: input, error: null };
+      return { pubkey, npub: input, relays: [], error: null };
     } catch (err) {
-      return { pubkey: null, npub: null, error: err instanceof Error ? err.message : 'Invalid npub format.' };
+      return { pubkey: null, npub: null, relays: [], error: err instanceof Error ? err.message : 'Invalid npub format.' };
     }
   }
 
-  return { pubkey: null, npub: null, error: 'Invalid public key. Use an npub or hex public key.' };
+  if (isValidNprofile(input)) {
+    const { pubkey, relays } = decodeNprofile(input);
+    return { pubkey, npub: publicKeyToNpub(pubkey), relays, error: null };
+  }
+
+  return { pubkey: null, npub: null, relays: [], error: 'Invalid public key. Use an npub, nprofile or hex public key.' };
+}
+
+// Relay hints from an nprofile or NIP-05 ride along in the query string, which every list/detail link keeps
+function useRelayHints(): string[] {
+  const [searchParams] = useSearchParams();
+  const hintKey = searchParams.getAll(RELAY_HINT_PARAM).join(' ');
+  return useMemo(() => normalizeRelayHints(hintKey ? hintKey.split(' ') : []), [hintKey]);
 }
 
 function EntryRoute() {
   const navigate = useNavigate();
 
   return (
-    <PublicKeyEntry onSubmit={(pubkey) => navigate(`/files/${publicKeyToNpub(pubkey)}`)} />
+    <PublicKeyEntry
+      onSubmit={(pubkey, relays) => {
+        navigate({ pathname: `/files/${publicKeyToNpub(pubkey)}`, search: addRelayHints('', relays) });
+      }}
+      onOpenFile={(file) => {
+        navigate({ pathname: `/files/${publicKeyToNpub(file.pubkey)}/${file.fileHash}`, search: addRelayHints('', file.relays) });
+      }}
+    />
   );
 }
 
 function FileListRoute() {
   const { pubkey: pubkeyParam, fileHash } = useParams();
-  const { pubkey, npub, error } = useMemo(() => normalizePubkeyParam(pubkeyParam), [pubkeyParam]);
+  const { search } = useLocation();
+  const { pubkey, npub, relays, error } = useMemo(() => normalizePubkeyParam(pubkeyParam), [pubkeyParam]);
+  const relayHints = useRelayHints();
 
   if (error || !pubkey) {
     return (
@@ -51,13 +76,19 @@ function FileListRoute() {
     );
   }
 
-  if (!fileHash && npub && pubkeyParam && isValidHexPubkey(pubkeyParam)) {
-    return <Navigate to={`/files/${npub}`} replace />;
+  // Canonical URLs use the npub, with an nprofile's relays moved into the query string
+  if (!fileHash && npub && pubkeyParam && pubkeyParam !== npub) {
+    return <Navigate to={{ pathname: `/files/${npub}`, search: addRelayHints(search, relays) }} replace />;
   }
 
   return (
     <>
-      <FileList pubkey={pubkey} npub={npub ?? publicKeyToNpub(pubkey)} inactive={Boolean(fileHash)} />
+      <FileList
+        pubkey={pubkey}
+        npub={npub ?? publicKeyToNpub(pubkey)}
+        relayHints={relayHints}
+        inactive={Boolean(fileHash)}
+      />
       <Outlet />
     </>
   );
@@ -65,7 +96,9 @@ function FileListRoute() {
 
 function FileDetailRoute() {
   const { pubkey: pubkeyParam, fileHash } = useParams();
-  const { pubkey, npub, error } = useMemo(() => normalizePubkeyParam(pubkeyParam), [pubkeyParam]);
+  const { search } = useLocation();
+  const { pubkey, npub, relays, error } = useMemo(() => normalizePubkeyParam(pubkeyParam), [pubkeyParam]);
+  const relayHints = useRelayHints();
 
   if (error || !pubkey) {
     return (
@@ -89,11 +122,17 @@ function FileDetailRoute() {
     );
   }
 
-  if (npub && pubkeyParam && isValidHexPubkey(pubkeyParam)) {
-    return <Navigate to={`/files/${npub}/${fileHash}`} replace />;
+  if (npub && pubkeyParam && pubkeyParam !== npub) {
+    return <Navigate to={{ pathname: `/files/${npub}/${fileHash}`, search: addRelayHints(search, relays) }} replace />;
   }
 
-  return <FileDetail pubkey={pubkey} npub={npub ?? publicKeyToNpub(pubkey)} fileHash={fileHash} />;
+  return <FileDetail pubkey={pubkey} npub={npub ?? publicKeyToNpub(pubkey)} fileHash={fileHash} relayHints={relayHints} />;
+}
+
+function SharedFileRoute() {
+  const { naddr } = useParams();
+  // Keyed so a different link starts from a clean lookup
+  return <SharedFile key={naddr} naddr={naddr ?? ''} />;
 }
 
 function App() {
@@ -101,9 +140,12 @@ function App() {
     <div className="app">
       <Routes>
         <Route path="/" element={<EntryRoute />} />
+        <Route path="/settings" element={<Settings />} />
+        <Route path="/upload" element={<Upload />} />
         <Route path="/files/:pubkey" element={<FileListRoute />}>
           <Route path=":fileHash" element={<FileDetailRoute />} />
         </Route>
+        <Route path="/a/:naddr" element={<SharedFileRoute />} />
         <Route path="*" element={<Navigate to="/" replace />} />
       </Routes>
     </div>
@@ -0,0 +1,150 @@
+import { useEffect, useMemo, useState } from 'react';
+import { gunzip, listTarEntries, listZipEntries, type ArchiveEntry } from '../lib/archiveReader';
+import { createFileSink, isSaveCancelled } from '../lib/fileSink';
+import { getMimeTypeFromName } from '../lib/mimeTypes';
+import { formatBytes } from '../lib/format';
+import { useBlobBytes } from './useBlobBytes';
+import type { PreviewProps } from './FilePreview';
+
+type ListingState =
+    | { status: 'loading' }
+    | { status: 'ready'; entries: ArchiveEntry[] }
+    | { status: 'error'; message: string };
+
+interface ArchivePreviewProps extends PreviewProps {
+    format: 'zip' | 'tar';
+}
+
+function isGzip(data: Uint8Array): boolean {
+    return data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+/**
+ * File listing for ZIP and tar (optionally gzipped) archives, with single-entry extraction
+ */
+export function ArchivePreview({ blob, format }: ArchivePreviewProps) {
+    const { data, error } = useBlobBytes(blob);
+    const [listing, setListing] = useState<ListingState>({ status: 'loading' });
+    const [extracting, setExtracting] = useState<string | null>(null);
+    const [extractError, setExtractError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!data) return;
+        let isMounted = true;
+        let unpacked: Uint8Array | null = null;
+
+        const load = async () => {
+            if (format === 'zip') return listZipEntries(data);
+            unpacked = isGzip(data) ? await gunzip(data) : data;
+            return listTarEntries(unpacked);
+        };
+
+        load()
+            .then((entries) => {
+                if (isMounted) setListing({ status: 'ready', entries });
+            })
+            .catch((err: unknown) => {
+                if (isMounted) setListing({ status: 'error', message: err instanceof Error ? err.message : 'Could not read archive.' });
+            });
+
+        return () => {
+            isMounted = false;
+            if (unpacked !== data) unpacked?.fill(0);
+        };
+    }, [data, format]);
+
+    const files = useMemo(
+        () => (listing.status === 'ready' ? listing.entries.filter(entry => !entry.isDirectory) : []),
+        [listing]
+    );
+
+    const extractEntry = async (entry: ArchiveEntry) => {
+        setExtractError(null);
+        const baseName = entry.name.split('/').pop() || entry.name;
+
+        // Open the save target first: the file picker needs the click's user activation
+        let sink;
+        try {
+            sink = await createFileSink(baseName, getMimeTypeFromName(baseName) ?? 'application/octet-stream', entry.size);
+        } catch (err) {
+            if (!isSaveCancelled(err)) {
+                setExtractError(err instanceof Error ? err.message : 'Could not open a save location.');
+            }
+            return;
+        }
+
+        setExtracting(entry.name);
+        try {
+            const contents = await entry.extract();
+            await sink.write(contents);
+            await sink.close();
+            contents.fill(0);
+        } catch (err) {
+            await sink.abort().catch(() => undefined);
+            setExtractError(err instanceof Error ? err.message : `Failed to extract ${entry.name}`);
+        } finally {
+            setExtracting(null);
+        }
+    };
+
+    const message = error ?? (listing.status === 'error' ? listing.message : null);
+    if (message) {
+        return (
+            <div className="preview-message error">
+                <span>{message}</span>
+            </div>
+        );
+    }
+
+    if (listing.status === 'loading') {
+        return (
+            <div className="preview-message">
+                <span>Reading archive...</span>
+            </div>
+        );
+    }
+
+    return (
+        <>
+            <p className="preview-note">
+                {files.length} {files.length === 1 ? 'file' : 'files'} in archive
+            </p>
+            {extractError && (
+                <div className="preview-message error">
+                    <span>{extractError}</span>
+                </div>
+            )}
+            <div className="preview-media archive-preview">
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Name</th>
+                            <th>Size</th>
+                            <th>Modified</th>
+                            <th></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {files.map((entry, index) => (
+                            <tr key={`${index}:${entry.name}`}>
+                                <td className="archive-entry-name" title={entry.name}>{entry.name}</td>
+                                <td>{formatBytes(entry.size)}</td>
+                                <td>{entry.modifiedAt ? entry.modifiedAt.toLocaleString() : ''}</td>
+                                <td>
+                                    <button
+                                        type="button"
+                                        className="link-button"
+                                        onClick={() => extractEntry(entry)}
+                                        disabled={extracting !== null}
+                                    >
+                                        {extracting === entry.name ? 'Extracting...' : 'Extract'}
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </>
+    );
+}
@@ -0,0 +1,211 @@
+import { useMemo, useState } from 'react';
+import type { Manifest } from '../lib/types';
+import type { ChunkStatus } from '../lib/nostr';
+import { getDataRelays, loadRelayConfigs, normalizeRelayUrl } from '../lib/relaySettings';
+import { retryMissingChunks } from '../lib/fileUtils';
+import type { ChunkCell } from './useChunkStatuses';
+import './ChunkStatusGrid.css';
+
+interface ChunkStatusGridProps {
+    pubkey: string;
+    manifest: Manifest;
+    cells: ReadonlyMap<number, ChunkCell>;
+    /** Called after a retry recovered chunks (they are now in the local cache) */
+    onRecovered?: () => void;
+}
+
+const STATUS_LABELS: Record<ChunkStatus, string> = {
+    pending: 'Pending',
+    received: 'Received',
+    'failed-hash': 'Failed hash',
+    missing: 'Missing',
+};
+
+function describeCell(index: number, cell: ChunkCell | undefined): string {
+    if (!cell) return `Chunk ${index}: pending`;
+    switch (cell.status) {
+        case 'received':
+            return cell.relays.length > 0
+                ? `Chunk ${index}: received from ${cell.relays.join(', ')}`
+                : `Chunk ${index}: loaded from local cache`;
+        case 'failed-hash':
+            return `Chunk ${index}: hash mismatch from ${cell.relays.join(', ') || 'unknown relay'}`;
+        default:
+            return `Chunk ${index}: not found on any relay`;
+    }
+}
+
+function normalizeRelays(urls: string[]): string[] {
+    const unique = new Set<string>();
+    for (const url of urls) {
+        try {
+            unique.add(normalizeRelayUrl(url));
+        } catch {
+            // Skip malformed relay URLs from manifests
+        }
+    }
+    return Array.from(unique);
+}
+
+/**
+ * Status of every chunk of a file, with a retry for the ones no relay delivered
+ */
+export function ChunkStatusGrid({ pubkey, manifest, cells, onRecovered }: ChunkStatusGridProps) {
+    // Data relays (checked by default), then every other relay the user has configured
+    const [relayOptions, setRelayOptions] = useState(() => normalizeRelays([
+        ...getDataRelays(manifest.relays),
+        ...loadRelayConfigs().map(config => config.url),
+    ]));
+    const [selectedRelays, setSelectedRelays] = useState(() => new Set(normalizeRelays(getDataRelays(manifest.relays))));
+    const [relayInput, setRelayInput] = useState('');
+    const [relayInputError, setRelayInputError] = useState<string | null>(null);
+    const [retrying, setRetrying] = useState(false);
+    const [retryResult, setRetryResult] = useState<string | null>(null);
+
+    const { counts, retryable, deliveredBy } = useMemo(() => {
+        const counts: Record<ChunkStatus, number> = { pending: 0, received: 0, 'failed-hash': 0, missing: 0 };
+        const retryable: number[] = [];
+        const deliveredBy = new Map<string, number>();
+        for (let index = 0; index < manifest.total_chunks; index++) {
+            const cell = cells.get(index);
+            const status = cell?.status ?? 'pending';
+            counts[status]++;
+            if (status === 'missing' || status === 'failed-hash') retryable.push(index);
+            if (status === 'received') {
+                cell?.relays.forEach(url => deliveredBy.set(url, (deliveredBy.get(url) ?? 0) + 1));
+            }
+        }
+        return {
+            counts,
+            retryable,
+            deliveredBy: Array.from(deliveredBy.entries()).sort((a, b) => b[1] - a[1]),
+        };
+    }, [cells, manifest.total_chunks]);
+
+    const toggleRelay = (url: string) => {
+        setSelectedRelays((prev) => {
+            const next = new Set(prev);
+            if (next.has(url)) next.delete(url);
+            else next.add(url);
+            return next;
+        });
+    };
+
+    const addRelay = (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            const url = normalizeRelayUrl(relayInput);
+            setRelayOptions(prev => (prev.includes(url) ? prev : [...prev, url]));
+            setSelectedRelays(prev => new Set(prev).add(url));
+            setRelayInput('');
+            setRelayInputError(null);
+        } catch (err) {
+            setRelayInputError(err instanceof Error ? err.message : 'Invalid relay URL');
+        }
+    };
+
+    const handleRetry = async () => {
+        const relays = relayOptions.filter(url => selectedRelays.has(url));
+        if (relays.length === 0 || retryable.length === 0) return;
+        setRetrying(true);
+        setRetryResult(null);
+        try {
+            const recovered = await retryMissingChunks(pubkey, manifest, retryable, relays);
+            setRetryResult(`Recovered ${recovered.length} of ${retryable.length} chunks.`);
+            if (recovered.length > 0) onRecovered?.();
+        } catch (err) {
+            setRetryResult(err instanceof Error ? err.message : 'Retry failed.');
+        } finally {
+            setRetrying(false);
+        }
+    };
+
+    return (
+        <section className="chunk-card">
+            <div className="card-header">
+                <h2>Chunks</h2>
+                <span className="preview-limit">
+                    {counts.received}/{manifest.total_chunks} received
+                </span>
+            </div>
+
+            <div className="chunk-legend">
+                {(Object.keys(STATUS_LABELS) as ChunkStatus[]).map(status => (
+                    <span key={status} className="chunk-legend-item">
+                        <span className={`chunk-cell ${status}`} />
+                        {STATUS_LABELS[status]} ({counts[status]})
+                    </span>
+                ))}
+            </div>
+
+            <div className="chunk-grid">
+                {Array.from({ length: manifest.total_chunks }, (_, index) => {
+                    const cell = cells.get(index);
+                    return (
+                        <span
+                            key={index}
+                            className={`chunk-cell ${cell?.status ?? 'pending'}`}
+                            title={describeCell(index, cell)}
+                        />
+                    );
+                })}
+            </div>
+
+            {deliveredBy.length > 0 && (
+                <ul className="chunk-sources">
+                    {deliveredBy.map(([url, count]) => (
+                        <li key={url}>
+                            <code>{url}</code>
+                            <span>{count} {count === 1 ? 'chunk' : 'chunks'}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            {retryable.length > 0 && (
+                <div className="chunk-retry">
+                    <p className="chunk-retry-title">
+                        Retry {retryable.length} missing {retryable.length === 1 ? 'chunk' : 'chunks'} on these relays:
+                    </p>
+                    <div className="chunk-retry-relays">
+                        {relayOptions.map(url => (
+                            <label key={url}>
+                                <input
+                                    type="checkbox"
+                                    checked={selectedRelays.has(url)}
+                                    onChange={() => toggleRelay(url)}
+                                    disabled={retrying}
+                                />
+                                <code>{url}</code>
+                            </label>
+                        ))}
+                    </div>
+                    <form className="chunk-retry-add" onSubmit={addRelay}>
+                        <input
+                            type="text"
+                            value={relayInput}
+                            onChange={(e) => setRelayInput(e.target.value)}
+                            placeholder="wss://another.relay"
+                            spellCheck={false}
+                            disabled={retrying}
+                        />
+                        <button type="submit" className="secondary-button" disabled={retrying || !relayInput.trim()}>
+                            Add relay
+                        </button>
+                    </form>
+                    {relayInputError && <span className="chunk-retry-error">{relayInputError}</span>}
+                    <button
+                        type="button"
+                        className="primary-button"
+                        onClick={handleRetry}
+                        disabled={retrying || selectedRelays.size === 0}
+                    >
+                        {retrying ? 'Retrying...' : 'Retry missing'}
+                    </button>
+                </div>
+            )}
+
+            {retryResult && <p className="chunk-retry-result">{retryResult}</p>}
+        </section>
+    );
+}
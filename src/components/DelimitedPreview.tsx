@@ -0,0 +1,85 @@
+import { useMemo, useState } from 'react';
+import { parseDelimited } from '../lib/delimited';
+import { useBlobBytes } from './useBlobBytes';
+import type { PreviewProps } from './FilePreview';
+
+const MAX_DELIMITED_BYTES = 5 * 1024 * 1024;
+const MAX_ROWS = 1000;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+interface DelimitedPreviewProps extends PreviewProps {
+    delimiter: string;
+}
+
+/**
+ * CSV / TSV as a table; click a column header to sort by it
+ */
+export function DelimitedPreview({ blob, delimiter }: DelimitedPreviewProps) {
+    const { data, error } = useBlobBytes(blob, MAX_DELIMITED_BYTES);
+    const [sort, setSort] = useState<{ column: number; ascending: boolean } | null>(null);
+
+    const table = useMemo(
+        () => (data ? parseDelimited(new TextDecoder().decode(data), delimiter, MAX_ROWS) : null),
+        [data, delimiter]
+    );
+
+    const rows = useMemo(() => {
+        if (!table || !sort) return table?.rows ?? [];
+        const { column, ascending } = sort;
+        return [...table.rows].sort((a, b) => {
+            const result = collator.compare(a[column] ?? '', b[column] ?? '');
+            return ascending ? result : -result;
+        });
+    }, [sort, table]);
+
+    if (error) {
+        return (
+            <div className="preview-message error">
+                <span>{error}</span>
+            </div>
+        );
+    }
+    if (!table) return null;
+
+    const handleSort = (column: number) => {
+        setSort(current => (
+            current?.column === column ? { column, ascending: !current.ascending } : { column, ascending: true }
+        ));
+    };
+
+    const truncated = table.truncated || (!!blob && blob.size > MAX_DELIMITED_BYTES);
+
+    return (
+        <>
+            {truncated && <p className="preview-note">Showing the first {table.rows.length} rows.</p>}
+            <div className="preview-media delimited-preview">
+                <table>
+                    <thead>
+                        <tr>
+                            {table.header.map((name, column) => (
+                                <th key={column} aria-sort={sort?.column === column ? (sort.ascending ? 'ascending' : 'descending') : 'none'}>
+                                    <button type="button" className="delimited-sort" onClick={() => handleSort(column)}>
+                                        {name || `Column ${column + 1}`}
+                                        <span className="delimited-sort-indicator">
+                                            {sort?.column === column ? (sort.ascending ? '▲' : '▼') : ''}
+                                        </span>
+                                    </button>
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {rows.map((row, rowIndex) => (
+                            <tr key={rowIndex}>
+                                {table.header.map((_, column) => (
+                                    <td key={column}>{row[column] ?? ''}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+        </>
+    );
+}
@@ -0,0 +1,373 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { FileEntry, Manifest } from '../lib/types';
+import { createPool, fetchManifest, getAuthorIndexRelays } from '../lib/nostr';
+import { getDataRelays, getIndexRelays } from '../lib/relaySettings';
+import { decodeBase64Chunk, streamFileToSink, type ChunkDecoder } from '../lib/fileUtils';
+import { createFileSink, isSaveCancelled, type FileSink } from '../lib/fileSink';
+import { createZipWriter, uniqueZipName } from '../lib/zipWriter';
+import { createDecryptJob, type DecryptJob } from '../lib/decryptPool';
+import { createExtensionDecryptJob, detectNip07Extension } from '../lib/nip07';
+import { clearSecretKey, isValidNsec, nsecToSecretKey } from '../lib/keys';
+import { formatBytes } from '../lib/format';
+import './DownloadModal.css';
+
+interface DownloadModalProps {
+    pubkey: string;
+    files: FileEntry[];
+    onClose: () => void;
+}
+
+type FileProgress =
+    | { status: 'pending' }
+    | { status: 'downloading'; progress: number }
+    | { status: 'done' }
+    | { status: 'skipped'; message: string };
+
+type ModalState =
+    | { status: 'idle' }
+    | { status: 'running' }
+    | { status: 'complete'; saved: number; skipped: number }
+    | { status: 'error'; message: string };
+
+function archiveName(): string {
+    const date = new Date().toISOString().slice(0, 10);
+    return `nostrsave-${date}.zip`;
+}
+
+/**
+ * Download several files into one ZIP streamed to disk
+ * Files are fetched one after another over a shared relay pool; one nsec
+ * covers every encrypted file in the selection.
+ */
+export function DownloadModal({ pubkey, files, onClose }: DownloadModalProps) {
+    const [state, setState] = useState<ModalState>({ status: 'idle' });
+    const [progressByHash, setProgressByHash] = useState<Record<string, FileProgress>>({});
+    const [nsecInput, setNsecInput] = useState('');
+    const [nsecError, setNsecError] = useState<string | null>(null);
+    const [extensionAvailable, setExtensionAvailable] = useState(false);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const hasEncrypted = files.some(file => file.encryption === 'nip44');
+    const totalBytes = files.reduce((sum, file) => sum + file.file_size, 0);
+
+    useEffect(() => {
+        return () => controllerRef.current?.abort();
+    }, []);
+
+    useEffect(() => {
+        let isMounted = true;
+        detectNip07Extension().then((available) => {
+            if (isMounted) setExtensionAvailable(available);
+        });
+        return () => {
+            isMounted = false;
+        };
+    }, []);
+
+    const setFileProgress = (fileHash: string, progress: FileProgress) => {
+        setProgressByHash(prev => ({ ...prev, [fileHash]: progress }));
+    };
+
+    /**
+     * @param useExtension Connect to the NIP-07 extension for decryption once the save target is open
+     */
+    const runDownload = useCallback(async (decryptJob: DecryptJob | null, useExtension = false) => {
+        // Open the save target first: the file picker needs the click's user activation
+        let sink: FileSink;
+        try {
+            sink = await createFileSink(archiveName(), 'application/zip');
+        } catch (err) {
+            await decryptJob?.close();
+            if (isSaveCancelled(err)) {
+                setState({ status: 'idle' });
+            } else {
+                setState({ status: 'error', message: err instanceof Error ? err.message : 'Could not open a save location.' });
+            }
+            return;
+        }
+
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setState({ status: 'running' });
+        setProgressByHash(Object.fromEntries(files.map(file => [file.file_hash, { status: 'pending' }])));
+
+        const zip = createZipWriter(sink);
+        const pool = createPool();
+        const usedNames = new Set<string>();
+        const openRelays = new Set<string>();
+        let saved = 0;
+        let skipped = 0;
+
+        try {
+            if (useExtension) {
+                decryptJob = await createExtensionDecryptJob(pubkey);
+            }
+            const indexRelays = await getAuthorIndexRelays(pool, getIndexRelays(), pubkey);
+            indexRelays.forEach(url => openRelays.add(url));
+
+            for (const file of files) {
+                if (controller.signal.aborted) throw new Error('Aborted');
+                setFileProgress(file.file_hash, { status: 'downloading', progress: 0 });
+
+                let manifest: Manifest | null;
+                try {
+                    manifest = await fetchManifest(pool, indexRelays, pubkey, file.file_hash);
+                } catch (err) {
+                    // A malformed manifest only costs this file, not the whole archive
+                    if (controller.signal.aborted) throw err;
+                    skipped++;
+                    setFileProgress(file.file_hash, {
+                        status: 'skipped',
+                        message: err instanceof Error ? err.message : 'Manifest could not be read',
+                    });
+                    continue;
+                }
+                if (!manifest) {
+                    skipped++;
+                    setFileProgress(file.file_hash, { status: 'skipped', message: 'Manifest not found' });
+                    continue;
+                }
+                getDataRelays(manifest.relays).forEach(url => openRelays.add(url));
+
+                let decodeChunk: ChunkDecoder = decodeBase64Chunk;
+                if (manifest.encryption === 'nip44') {
+                    if (!decryptJob) throw new Error(`${manifest.file_name} is encrypted`);
+                    const job = decryptJob;
+                    decodeChunk = async (chunk) => {
+                        try {
+                            return await job.decrypt(chunk.content);
+                        } catch (err) {
+                            throw new Error(`Failed to decrypt chunk ${chunk.index}: ${err instanceof Error ? err.message : 'unknown error'}`);
+                        }
+                    };
+                }
+
+                const entry = zip.addEntry(
+                    uniqueZipName(manifest.file_name, usedNames),
+                    manifest.file_size,
+                    manifest.created_at
+                );
+                try {
+                    await streamFileToSink(
+                        pubkey,
+                        manifest,
+                        entry,
+                        decodeChunk,
+                        (progress) => {
+                            if (!controller.signal.aborted) {
+                                setFileProgress(file.file_hash, { status: 'downloading', progress });
+                            }
+                        },
+                        controller.signal,
+                        pool
+                    );
+                    saved++;
+                    setFileProgress(file.file_hash, { status: 'done' });
+                } catch (err) {
+                    // Files that fail before their first byte are left out; anything later has already reached the archive
+                    if (controller.signal.aborted || zip.aborted) throw err;
+                    skipped++;
+                    setFileProgress(file.file_hash, {
+                        status: 'skipped',
+                        message: err instanceof Error ? err.message : 'Download failed',
+                    });
+                }
+            }
+
+            if (saved === 0) {
+                throw new Error('None of the selected files could be downloaded');
+            }
+            await zip.close();
+            setState({ status: 'complete', saved, skipped });
+        } catch (err) {
+            await zip.abort().catch(() => undefined);
+            if (!controller.signal.aborted) {
+                setState({ status: 'error', message: err instanceof Error ? err.message : 'Download failed.' });
+            }
+        } finally {
+            await decryptJob?.close();
+            pool.close(Array.from(openRelays));
+            if (controllerRef.current === controller) {
+                controllerRef.current = null;
+            }
+        }
+    }, [files, pubkey]);
+
+    const handleStart = useCallback((event: React.FormEvent) => {
+        event.preventDefault();
+        if (!hasEncrypted) {
+            runDownload(null);
+            return;
+        }
+
+        const trimmed = nsecInput.trim();
+        setNsecInput('');
+        setNsecError(null);
+
+        if (!isValidNsec(trimmed)) {
+            setNsecError('Invalid nsec format');
+            return;
+        }
+
+        let secretKey: Uint8Array;
+        try {
+            secretKey = nsecToSecretKey(trimmed);
+        } catch {
+            setNsecError('Failed to decode nsec');
+            return;
+        }
+
+        // Workers take their own copies of the key, so ours can be erased right away
+        const decryptJob = createDecryptJob(secretKey, pubkey);
+        clearSecretKey(secretKey);
+        runDownload(decryptJob);
+    }, [hasEncrypted, nsecInput, pubkey, runDownload]);
+
+    const handleExtensionStart = useCallback(() => {
+        setNsecError(null);
+        runDownload(null, true);
+    }, [runDownload]);
+
+    const handleCancel = useCallback(() => {
+        controllerRef.current?.abort();
+        setState({ status: 'idle' });
+    }, []);
+
+    const handleClose = useCallback(() => {
+        controllerRef.current?.abort();
+        onClose();
+    }, [onClose]);
+
+    const fileProgress = (file: FileEntry): number => {
+        const progress = progressByHash[file.file_hash];
+        if (!progress) return 0;
+        if (progress.status === 'done' || progress.status === 'skipped') return 1;
+        if (progress.status === 'downloading') return progress.progress;
+        return 0;
+    };
+    const totalProgress = totalBytes > 0
+        ? files.reduce((sum, file) => sum + fileProgress(file) * file.file_size, 0) / totalBytes
+        : 0;
+
+    const renderFileStatus = (file: FileEntry) => {
+        const progress = progressByHash[file.file_hash];
+        if (!progress || progress.status === 'pending') return <span className="bulk-file-status">Waiting</span>;
+        if (progress.status === 'done') return <span className="bulk-file-status done">✓ Saved</span>;
+        if (progress.status === 'skipped') {
+            return <span className="bulk-file-status skipped" title={progress.message}>Skipped: {progress.message}</span>;
+        }
+        return (
+            <div className="progress-bar bulk-file-progress">
+                <div className="progress-fill" style={{ width: `${progress.progress * 100}%` }}></div>
+            </div>
+        );
+    };
+
+    return (
+        <div className="modal-overlay" onClick={state.status === 'running' ? undefined : handleClose}>
+            <div className="modal-content bulk-download" onClick={(event) => event.stopPropagation()}>
+                <button className="modal-close" onClick={handleClose} aria-label="Close">×</button>
+
+                <div className="modal-header">
+                    <h2>Download selected</h2>
+                    <p className="modal-filename">
+                        {files.length} file{files.length === 1 ? '' : 's'} · {formatBytes(totalBytes)} · saved as one ZIP
+                    </p>
+                </div>
+
+                <div className="modal-body">
+                    <ul className="bulk-file-list">
+                        {files.map(file => (
+                            <li key={file.file_hash} className="bulk-file-row">
+                                <span className="bulk-file-name" title={file.file_name}>
+                                    {file.encryption === 'nip44' && '🔒 '}{file.file_name}
+                                </span>
+                                {state.status === 'idle'
+                                    ? <span className="bulk-file-status">{formatBytes(file.file_size)}</span>
+                                    : renderFileStatus(file)}
+                            </li>
+                        ))}
+                    </ul>
+
+                    {state.status === 'idle' && (
+                        <form onSubmit={handleStart} className="key-form">
+                            {hasEncrypted && extensionAvailable && (
+                                <>
+                                    <button type="button" className="primary-button" onClick={handleExtensionStart}>
+                                        🧩 Decrypt with extension
+                                    </button>
+                                    <span className="extension-divider">or enter your private key</span>
+                                </>
+                            )}
+                            {hasEncrypted && (
+                                <>
+                                    <div className="input-group">
+                                        <label>Private key (nsec) for the encrypted files</label>
+                                        <input
+                                            type="password"
+                                            value={nsecInput}
+                                            onChange={(event) => setNsecInput(event.target.value)}
+                                            placeholder="nsec1..."
+                                            autoComplete="off"
+                                            className={nsecError ? 'error' : ''}
+                                        />
+                                        {nsecError && <span className="error-text">{nsecError}</span>}
+                                    </div>
+
+                                    <div className="security-note">
+                                        <span>🔐</span>
+                                        <span>Your key is used only for decryption and immediately erased.</span>
+                                    </div>
+                                </>
+                            )}
+
+                            <div className="button-row">
+                                <button type="button" className="secondary-button" onClick={handleClose}>
+                                    Cancel
+                                </button>
+                                <button type="submit" className="primary-button">
+                                    {hasEncrypted ? 'Decrypt & Download ZIP' : 'Download ZIP'}
+                                </button>
+                            </div>
+                        </form>
+                    )}
+
+                    {state.status === 'running' && (
+                        <div className="bulk-total">
+                            <p>Total: {Math.round(totalProgress * 100)}%</p>
+                            <div className="progress-bar">
+                                <div className="progress-fill" style={{ width: `${totalProgress * 100}%` }}></div>
+                            </div>
+                            <button className="secondary-button" onClick={handleCancel}>
+                                Cancel download
+                            </button>
+                        </div>
+                    )}
+
+                    {state.status === 'complete' && (
+                        <div className="success-view">
+                            <span className="success-icon">✅</span>
+                            <p>
+                                Saved {state.saved} file{state.saved === 1 ? '' : 's'}
+                                {state.skipped > 0 && `, skipped ${state.skipped}`}
+                            </p>
+                            <button className="secondary-button" onClick={onClose}>
+                                Done
+                            </button>
+                        </div>
+                    )}
+
+                    {state.status === 'error' && (
+                        <div className="error-view">
+                            <span className="error-icon">❌</span>
+                            <p>{state.message}</p>
+                            <button className="secondary-button" onClick={() => setState({ status: 'idle' })}>
+                                Try again
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
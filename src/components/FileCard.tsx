@@ -1,22 +1,15 @@
 import type { FileEntry } from '../lib/types';
-import { Link } from 'react-router-dom';
+import { formatBytes } from '../lib/format';
+import { Link, useLocation } from 'react-router-dom';
 import './FileCard.css';
 
 interface FileCardProps {
     file: FileEntry;
     pubkey: string;
     npub: string;
-}
-
-/**
- * Format bytes to human-readable size
- */
-function formatBytes(bytes: number): string {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
+    selected?: boolean;
+    /** Shows a selection checkbox when set */
+    onSelectChange?: (selected: boolean) => void;
 }
 
 /**
@@ -36,8 +29,10 @@ function formatDate(timestamp: number): string {
     return date.toLocaleDateString();
 }
 
-export function FileCard({ file, npub }: FileCardProps) {
+export function FileCard({ file, npub, selected = false, onSelectChange }: FileCardProps) {
     const isEncrypted = file.encryption === 'nip44';
+    // Keep view and sort settings when opening a file
+    const { search } = useLocation();
 
     // Get file extension for icon
     const extension = file.file_name.split('.').pop()?.toLowerCase() || '';
@@ -57,7 +52,16 @@ export function FileCard({ file, npub }: FileCardProps) {
     };
 
     return (
-        <div className="file-card">
+        <div className={`file-card${selected ? ' is-selected' : ''}`}>
+            {onSelectChange && (
+                <input
+                    type="checkbox"
+                    className="file-select"
+                    checked={selected}
+                    onChange={(e) => onSelectChange(e.target.checked)}
+                    aria-label={`Select ${file.file_name}`}
+                />
+            )}
             <div className="file-icon">{getFileIcon()}</div>
 
             <div className="file-info">
@@ -79,7 +83,7 @@ export function FileCard({ file, npub }: FileCardProps) {
                 )}
                 <Link
                     className="open-button"
-                    to={`/files/${npub}/${file.file_hash}`}
+                    to={{ pathname: `/files/${npub}/${file.file_hash}`, search }}
                     title="Open file details"
                 >
                     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
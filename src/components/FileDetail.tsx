@@ -1,10 +1,32 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { Link } from 'react-router-dom';
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import type { Manifest } from '../lib/types';
-import { createPool, fetchChunks, fetchManifest, DEFAULT_INDEX_RELAYS } from '../lib/nostr';
-import { fetchFileBytes } from '../lib/fileUtils';
-import { decryptChunkBinary } from '../lib/crypto';
-import { clearSecretKey, isValidNsec, nsecToSecretKey } from '../lib/keys';
+import { createPool, findManifest, type ManifestLookup } from '../lib/nostr';
+import { addRelayHints, getIndexRelays } from '../lib/relaySettings';
+import { encodeManifestAddress, getShareUrl } from '../lib/shareLinks';
+import { isFileStarred, loadHistory, setFileStarred, subscribeHistory } from '../lib/history';
+import { decodeBase64Chunk, fetchFileBytes, fetchFirstChunk, streamFileToSink, type ChunkDecoder } from '../lib/fileUtils';
+import { createFileSink, isSaveCancelled, type FileSink } from '../lib/fileSink';
+import { countCachedChunks } from '../lib/chunkStore';
+import { createDecryptJob, createSignerDecryptJob, type DecryptJob } from '../lib/decryptPool';
+import { createExtensionDecryptJob, detectNip07Extension } from '../lib/nip07';
+import { canStreamMedia, createMediaStream, type MediaStreamSession } from '../lib/mediaStream';
+import type { ChunkEvent } from '../lib/nostr';
+import {
+    clearSecretKey,
+    isValidNsec,
+    nsecToSecretKey,
+    publicKeyToNpub,
+    REMOTE_SIGNER_BATCH_SIZE,
+    type RemoteSignerConnection,
+} from '../lib/keys';
+import { getMimeTypeFromName, getPreviewKind, isSniffCompatible, resolveMimeType, sniffMimeType } from '../lib/mimeTypes';
+import { formatBytes } from '../lib/format';
+import { RemoteSignerConnect } from './RemoteSignerConnect';
+import { FilePreview } from './FilePreview';
+import { ChunkStatusGrid } from './ChunkStatusGrid';
+import { useChunkStatuses } from './useChunkStatuses';
+import { MalformedEventsNotice } from './MalformedEventsNotice';
 import './FileDetail.css';
 
 const MAX_PREVIEW_BYTES = 50 * 1024 * 1024;
@@ -12,7 +34,6 @@ const MAX_PREVIEW_BYTES = 50 * 1024 * 1024;
 type DownloadState =
     | { status: 'idle' }
     | { status: 'fetching'; message: string; progress?: number }
-    | { status: 'decrypting'; progress: number }
     | { status: 'complete' }
     | { status: 'error'; message: string };
 
@@ -20,14 +41,10 @@ interface FileDetailProps {
     pubkey: string;
     npub: string;
     fileHash: string;
-}
-
-function formatBytes(bytes: number): string {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
+    /** Relays to ask for the manifest before the index relays (from a share link) */
+    relayHints?: string[];
+    /** Manifest the caller already found (e.g. from a share link), so it isn't looked up again */
+    resolvedManifest?: ManifestLookup;
 }
 
 function formatMegabytes(bytes: number): string {
@@ -39,123 +56,231 @@ function formatDate(timestamp: number): string {
     return date.toLocaleString();
 }
 
-function getMimeTypeFromName(fileName: string): string | null {
-    const ext = fileName.split('.').pop()?.toLowerCase();
-    if (!ext) return null;
-
-    const map: Record<string, string> = {
-        jpg: 'image/jpeg',
-        jpeg: 'image/jpeg',
-        png: 'image/png',
-        gif: 'image/gif',
-        webp: 'image/webp',
-        svg: 'image/svg+xml',
-        mp4: 'video/mp4',
-        webm: 'video/webm',
-        mp3: 'audio/mpeg',
-        aac: 'audio/aac',
-        m4a: 'audio/mp4',
-        wav: 'audio/wav',
-        ogg: 'audio/ogg',
-        pdf: 'application/pdf',
-        txt: 'text/plain',
-        md: 'text/markdown',
-        json: 'application/json',
-        js: 'text/javascript',
-        ts: 'text/typescript',
-        css: 'text/css',
-        html: 'text/html',
+/**
+ * Wrap a decoder so the file type is sniffed from chunk 0 as it passes through
+ */
+function sniffFirstChunk(decodeChunk: ChunkDecoder, onSniffed: (mimeType: string | null) => void): ChunkDecoder {
+    return async (chunk) => {
+        const data = await decodeChunk(chunk);
+        if (chunk.index === 0 && data) onSniffed(sniffMimeType(data));
+        return data;
     };
+}
 
-    return map[ext] || null;
+async function decryptWithJob(decryptJob: DecryptJob, chunk: ChunkEvent): Promise<Uint8Array> {
+    try {
+        return await decryptJob.decrypt(chunk.content);
+    } catch (err) {
+        throw new Error(`Failed to decrypt chunk ${chunk.index}: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
 }
 
-function isPreviewableMime(mimeType: string): boolean {
-    if (!mimeType) return false;
-    if (mimeType.startsWith('image/')) return true;
-    if (mimeType.startsWith('text/')) return true;
-    if (mimeType.startsWith('video/')) return true;
-    if (mimeType.startsWith('audio/')) return true;
-    if (mimeType === 'application/pdf') return true;
-    if (mimeType === 'application/json') return true;
-    if (mimeType.includes('javascript')) return true;
-    return false;
+/**
+ * Wrap fetched file bytes in a Blob for the previewers
+ * The Blob keeps its own copy, so the source buffer is zeroed right away; for encrypted
+ * files the Blob and its object URL are then the only handles on the plaintext.
+ */
+function createPreviewBlob(data: Uint8Array, mimeType: string): Blob {
+    const blob = new Blob([data as unknown as BlobPart], { type: mimeType });
+    data.fill(0);
+    return blob;
 }
 
-export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
+export function FileDetail({ pubkey, npub, fileHash, relayHints, resolvedManifest }: FileDetailProps) {
+    // Return to the list with the same view and sort settings
+    const { search } = useLocation();
     const [manifest, setManifest] = useState<Manifest | null>(null);
     const [manifestError, setManifestError] = useState<string | null>(null);
     const [manifestLoading, setManifestLoading] = useState(true);
+    const [manifestAddress, setManifestAddress] = useState<{ identifier: string; seenOn: string[] } | null>(null);
+    const [shareStatus, setShareStatus] = useState<'copied' | 'failed' | null>(null);
+    const history = useSyncExternalStore(subscribeHistory, loadHistory);
+    const chunkCells = useChunkStatuses(pubkey, manifest?.file_hash ?? fileHash, manifest?.total_chunks ?? 0);
+    const starred = isFileStarred(history, pubkey, fileHash);
 
     const [previewLoading, setPreviewLoading] = useState(false);
     const [previewError, setPreviewError] = useState<string | null>(null);
     const [previewProgress, setPreviewProgress] = useState(0);
     const [contentUrl, setContentUrl] = useState<string | null>(null);
+    const [contentBlob, setContentBlob] = useState<Blob | null>(null);
     const contentUrlRef = useRef<string | null>(null);
     const [contentType, setContentType] = useState('');
     const [previewRequested, setPreviewRequested] = useState(false);
+    const previewControllerRef = useRef<AbortController | null>(null);
+    const [streamedChunks, setStreamedChunks] = useState<number | null>(null);
 
     const [downloadState, setDownloadState] = useState<DownloadState>({ status: 'idle' });
     const [nsecInput, setNsecInput] = useState('');
     const [nsecError, setNsecError] = useState<string | null>(null);
     const downloadAbortRef = useRef(false);
+    const downloadControllerRef = useRef<AbortController | null>(null);
+    const [integrityVerified, setIntegrityVerified] = useState(false);
+    const [cachedChunkCount, setCachedChunkCount] = useState(0);
+    const [extensionAvailable, setExtensionAvailable] = useState<boolean | null>(null);
+    const [remoteSigner, setRemoteSigner] = useState<RemoteSignerConnection | null>(null);
+    const [remoteDecrypted, setRemoteDecrypted] = useState<number | null>(null);
+    const remoteSignerRef = useRef<RemoteSignerConnection | null>(null);
 
     const isEncrypted = manifest?.encryption === 'nip44';
     const mimeTypeGuess = useMemo(() => {
         if (!manifest) return '';
         return manifest.mime_type || getMimeTypeFromName(manifest.file_name) || '';
     }, [manifest]);
+    // Sniffed from the first chunk once it has been fetched (or decrypted)
+    const [sniffedMime, setSniffedMime] = useState<string | null>(null);
+    const mimeMismatch = !!sniffedMime && !!mimeTypeGuess && !isSniffCompatible(mimeTypeGuess, sniffedMime);
+    const effectiveMime = resolveMimeType(mimeTypeGuess, sniffedMime);
+    // When the content overrides the declared type, the extension can't be trusted to pick a previewer either
+    const previewKind = useMemo(() => {
+        if (!manifest) return null;
+        const typeFromContent = !!sniffedMime && (mimeMismatch || !mimeTypeGuess);
+        return getPreviewKind(effectiveMime, typeFromContent ? '' : manifest.file_name);
+    }, [effectiveMime, manifest, mimeMismatch, mimeTypeGuess, sniffedMime]);
+    // Audio and video play while they download, so they aren't bound by the preview limit
+    const isStreamable = useMemo(() => {
+        if (!manifest || manifest.encryption === 'nip44') return false;
+        if (previewKind !== 'video' && previewKind !== 'audio') return false;
+        return canStreamMedia(manifest);
+    }, [manifest, previewKind]);
     const isPreviewable = useMemo(() => {
         if (!manifest) return false;
-        if (manifest.encryption === 'nip44') return false;
-        if (manifest.file_size > MAX_PREVIEW_BYTES) return false;
-        return isPreviewableMime(mimeTypeGuess);
-    }, [manifest, mimeTypeGuess]);
+        if (isStreamable) return true;
+        // Anything without a dedicated previewer still gets a hex dump
+        return manifest.file_size <= MAX_PREVIEW_BYTES;
+    }, [isStreamable, manifest]);
 
     useEffect(() => {
-        let isMounted = true;
-        setManifestLoading(true);
         setManifestError(null);
+        setShareStatus(null);
+
+        if (resolvedManifest?.manifest.file_hash === fileHash) {
+            setManifest(resolvedManifest.manifest);
+            setManifestAddress({ identifier: resolvedManifest.identifier, seenOn: resolvedManifest.seenOn });
+            setManifestLoading(false);
+            return;
+        }
 
+        let isMounted = true;
+        setManifestLoading(true);
         const pool = createPool();
 
-        fetchManifest(pool, DEFAULT_INDEX_RELAYS, pubkey, fileHash)
-            .then((result) => {
+        findManifest(pool, getIndexRelays(), pubkey, { fileHash }, relayHints)
+            .then((lookup) => {
                 if (!isMounted) return;
-                if (!result) {
+                if (!lookup) {
                     setManifestError('Manifest not found for this file.');
                     setManifest(null);
+                    setManifestAddress(null);
                 } else {
-                    setManifest(result);
+                    setManifest(lookup.manifest);
+                    setManifestAddress({ identifier: lookup.identifier, seenOn: lookup.seenOn });
                 }
             })
             .catch((err) => {
                 if (!isMounted) return;
                 setManifestError(err instanceof Error ? err.message : 'Failed to load file info.');
                 setManifest(null);
+                setManifestAddress(null);
             })
             .finally(() => {
                 if (isMounted) setManifestLoading(false);
-                pool.close(DEFAULT_INDEX_RELAYS);
+                // Hints and author relays vary per lookup; drop every connection this pool made
+                pool.destroy();
             });
 
         return () => {
             isMounted = false;
         };
+    }, [pubkey, fileHash, relayHints, resolvedManifest]);
+
+    useEffect(() => {
+        let isMounted = true;
+        detectNip07Extension().then((available) => {
+            if (isMounted) setExtensionAvailable(available);
+        });
+        return () => {
+            isMounted = false;
+        };
+    }, []);
+
+    // Disconnect the remote signer when leaving the page
+    useEffect(() => {
+        return () => {
+            remoteSignerRef.current?.close();
+            remoteSignerRef.current = null;
+        };
+    }, []);
+
+    const handleRemoteSignerConnected = useCallback((connection: RemoteSignerConnection) => {
+        remoteSignerRef.current?.close();
+        remoteSignerRef.current = connection;
+        setRemoteSigner(connection);
+    }, []);
+
+    const disconnectRemoteSigner = useCallback(() => {
+        remoteSignerRef.current?.close();
+        remoteSignerRef.current = null;
+        setRemoteSigner(null);
+    }, []);
+
+    const refreshCachedChunkCount = useCallback(() => {
+        countCachedChunks(pubkey, fileHash).then(setCachedChunkCount);
     }, [pubkey, fileHash]);
 
+    useEffect(() => {
+        setCachedChunkCount(0);
+        if (manifest) refreshCachedChunkCount();
+    }, [manifest, refreshCachedChunkCount]);
+
+    // Unencrypted files are sniffed up front; encrypted ones once a key decrypts the first chunk
+    useEffect(() => {
+        if (!manifest || manifest.encryption === 'nip44' || manifest.total_chunks === 0) return;
+        let isMounted = true;
+        fetchFirstChunk(pubkey, manifest)
+            .then((data) => {
+                if (isMounted && data) setSniffedMime(sniffMimeType(data));
+            })
+            .catch((err) => console.warn('[FileDetail] Could not fetch the first chunk to detect the file type:', err));
+        return () => {
+            isMounted = false;
+        };
+    }, [manifest, pubkey]);
+
     useEffect(() => {
         return () => {
             downloadAbortRef.current = true;
+            downloadControllerRef.current?.abort();
         };
     }, []);
 
     useEffect(() => {
         setPreviewRequested(false);
+        setIntegrityVerified(false);
+        setSniffedMime(null);
     }, [pubkey, fileHash, manifest]);
 
+    // A decrypted preview never outlives the file (or the page) it was made for
     useEffect(() => {
-        if (!manifest || !isPreviewable || !previewRequested) {
+        return () => {
+            previewControllerRef.current?.abort();
+            previewControllerRef.current = null;
+            if (contentUrlRef.current) {
+                URL.revokeObjectURL(contentUrlRef.current);
+                contentUrlRef.current = null;
+            }
+        };
+    }, [pubkey, fileHash, manifest]);
+
+    // A late sniff result must not restart a preview that is already loading or showing,
+    // so the preview effect reads the type it starts with from here instead of depending on it
+    const previewPlanRef = useRef({ effectiveMime, isPreviewable, isStreamable });
+    useEffect(() => {
+        previewPlanRef.current = { effectiveMime, isPreviewable, isStreamable };
+    }, [effectiveMime, isPreviewable, isStreamable]);
+
+    useEffect(() => {
+        const plan = previewPlanRef.current;
+        if (!manifest || !plan.isPreviewable || !previewRequested) {
             setPreviewLoading(false);
             setPreviewError(null);
             setPreviewProgress(0);
@@ -164,22 +289,29 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                 contentUrlRef.current = null;
             }
             setContentUrl(null);
+            setContentBlob(null);
+            setStreamedChunks(null);
             return;
         }
 
+        // Encrypted previews are started by a key source instead, see runEncryptedPreview
+        if (isEncrypted) return;
+
         const controller = new AbortController();
         let isMounted = true;
         let localUrl: string | null = null;
+        let streamSession: MediaStreamSession | null = null;
         setPreviewLoading(true);
         setPreviewError(null);
         setPreviewProgress(0);
 
-        fetchFileBytes(pubkey, fileHash, (progress) => {
+        const loadWholeFile = () => fetchFileBytes(pubkey, manifest, (progress) => {
             if (isMounted) setPreviewProgress(progress);
         }, controller.signal)
             .then((result) => {
                 if (!isMounted) return;
-                const blob = new Blob([result.data as unknown as BlobPart], { type: result.mimeType });
+                setSniffedMime(sniffMimeType(result.data));
+                const blob = createPreviewBlob(result.data, result.mimeType);
                 const url = URL.createObjectURL(blob);
                 localUrl = url;
                 if (contentUrlRef.current) {
@@ -187,8 +319,11 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                 }
                 contentUrlRef.current = url;
                 setContentUrl(url);
+                setContentBlob(blob);
                 setContentType(result.mimeType);
+                setIntegrityVerified(true);
                 setPreviewLoading(false);
+                refreshCachedChunkCount();
             })
             .catch((err: unknown) => {
                 if (!isMounted) return;
@@ -197,9 +332,42 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                 setPreviewLoading(false);
             });
 
+        if (plan.isStreamable) {
+            createMediaStream(pubkey, manifest, plan.effectiveMime, {
+                onChunkLoaded: (loaded) => {
+                    if (isMounted) setStreamedChunks(loaded);
+                },
+            })
+                .then((session) => {
+                    if (!isMounted) {
+                        session.close();
+                        return;
+                    }
+                    streamSession = session;
+                    setStreamedChunks(0);
+                    setContentUrl(session.url);
+                    setContentBlob(null);
+                    setContentType(plan.effectiveMime);
+                    setPreviewLoading(false);
+                })
+                .catch((err: unknown) => {
+                    if (!isMounted) return;
+                    console.warn('[FileDetail] Streaming playback unavailable:', err);
+                    if (manifest.file_size <= MAX_PREVIEW_BYTES) {
+                        loadWholeFile();
+                    } else {
+                        setPreviewError(err instanceof Error ? err.message : 'Streaming playback is unavailable.');
+                        setPreviewLoading(false);
+                    }
+                });
+        } else {
+            loadWholeFile();
+        }
+
         return () => {
             isMounted = false;
             controller.abort();
+            streamSession?.close();
             if (localUrl) {
                 URL.revokeObjectURL(localUrl);
                 if (contentUrlRef.current === localUrl) {
@@ -207,139 +375,295 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                 }
             }
         };
-    }, [pubkey, fileHash, manifest, isPreviewable, previewRequested]);
-
-    const triggerDownload = useCallback((data: Uint8Array, filename: string, mimeType?: string) => {
-        const buffer = data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
-        const blob = new Blob([buffer], { type: mimeType || 'application/octet-stream' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = filename;
-        document.body.appendChild(a);
-        a.click();
-        document.body.removeChild(a);
-        URL.revokeObjectURL(url);
-    }, []);
+    }, [pubkey, fileHash, manifest, isEncrypted, previewRequested, refreshCachedChunkCount]);
 
-    const downloadUnencrypted = useCallback(async () => {
+    /**
+     * Decrypt the whole file in memory and show it in the previewer
+     * @param openJob Connects the key source; runs after the preview has started loading
+     */
+    const runEncryptedPreview = useCallback(async (openJob: () => Promise<DecryptJob>) => {
         if (!manifest) return;
-        downloadAbortRef.current = false;
-        setDownloadState({ status: 'fetching', message: 'Fetching file...', progress: 0 });
+        previewControllerRef.current?.abort();
+        const controller = new AbortController();
+        previewControllerRef.current = controller;
+
+        setPreviewRequested(true);
+        setPreviewLoading(true);
+        setPreviewError(null);
+        setPreviewProgress(0);
 
+        let decryptJob: DecryptJob | null = null;
         try {
+            const job = await openJob();
+            decryptJob = job;
             const result = await fetchFileBytes(
                 pubkey,
-                fileHash,
+                manifest,
                 (progress) => {
-                    if (!downloadAbortRef.current) {
-                        setDownloadState({ status: 'fetching', message: 'Fetching file...', progress });
-                    }
-                }
+                    if (!controller.signal.aborted) setPreviewProgress(progress);
+                },
+                controller.signal,
+                (chunk) => decryptWithJob(job, chunk)
             );
+            if (controller.signal.aborted) {
+                result.data.fill(0);
+                return;
+            }
 
-            if (downloadAbortRef.current) return;
-            triggerDownload(result.data, result.fileName, result.mimeType);
-            setDownloadState({ status: 'complete' });
+            setSniffedMime(sniffMimeType(result.data));
+            const blob = createPreviewBlob(result.data, result.mimeType);
+            const url = URL.createObjectURL(blob);
+            if (contentUrlRef.current) {
+                URL.revokeObjectURL(contentUrlRef.current);
+            }
+            contentUrlRef.current = url;
+            setContentUrl(url);
+            setContentBlob(blob);
+            setContentType(result.mimeType);
+            setIntegrityVerified(true);
+            refreshCachedChunkCount();
         } catch (err) {
-            if (!downloadAbortRef.current) {
-                setDownloadState({ status: 'error', message: err instanceof Error ? err.message : 'Download failed.' });
+            if (controller.signal.aborted) return;
+            setPreviewError(err instanceof Error ? err.message : 'Failed to decrypt preview.');
+        } finally {
+            await decryptJob?.close();
+            if (previewControllerRef.current === controller) {
+                previewControllerRef.current = null;
+                setPreviewLoading(false);
             }
         }
-    }, [fileHash, manifest, pubkey, triggerDownload]);
-
-    const downloadEncrypted = useCallback(async (secretKey: Uint8Array) => {
+    }, [manifest, pubkey, refreshCachedChunkCount]);
+
+    const handleCopyShareLink = useCallback(async () => {
+        if (!manifest || !manifestAddress) return;
+        // Relays that actually served the manifest come first, then the ones it lists
+        const naddr = encodeManifestAddress(pubkey, manifestAddress.identifier, [
+            ...manifestAddress.seenOn,
+            ...manifest.relays,
+        ]);
+        try {
+            await navigator.clipboard.writeText(getShareUrl(naddr));
+            setShareStatus('copied');
+        } catch {
+            setShareStatus('failed');
+        }
+    }, [manifest, manifestAddress, pubkey]);
+
+    /**
+     * @param prepare Runs once the save target is open, e.g. to connect a signer; errors abort the download
+     */
+    const runStreamingDownload = useCallback(async (
+        decodeChunk: ChunkDecoder,
+        fetchMessage: string,
+        prepare?: () => Promise<void>
+    ) => {
         if (!manifest) return;
         downloadAbortRef.current = false;
-        setDownloadState({ status: 'fetching', message: 'Fetching manifest...' });
-        const pool = createPool();
+        const mimeType = effectiveMime;
 
+        // Open the save target first: the file picker needs the click's user activation
+        let sink: FileSink;
         try {
-            const dataRelays = manifest.relays?.length ? manifest.relays : DEFAULT_INDEX_RELAYS;
+            sink = await createFileSink(manifest.file_name, mimeType, manifest.file_size);
+        } catch (err) {
+            if (isSaveCancelled(err)) {
+                setDownloadState({ status: 'idle' });
+            } else {
+                setDownloadState({ status: 'error', message: err instanceof Error ? err.message : 'Could not open a save location.' });
+            }
+            return;
+        }
+
+        if (prepare) {
+            try {
+                await prepare();
+            } catch (err) {
+                await sink.abort().catch(() => undefined);
+                if (!downloadAbortRef.current) {
+                    setDownloadState({ status: 'error', message: err instanceof Error ? err.message : 'Could not start decryption.' });
+                }
+                return;
+            }
+            // Cancelled while waiting for the key source
+            if (downloadAbortRef.current) {
+                await sink.abort().catch(() => undefined);
+                return;
+            }
+        }
 
-            setDownloadState({ status: 'fetching', message: 'Fetching encrypted chunks...', progress: 0 });
-            const chunks = await fetchChunks(
-                pool,
-                dataRelays,
+        setDownloadState({ status: 'fetching', message: fetchMessage, progress: 0 });
+        const controller = new AbortController();
+        downloadControllerRef.current = controller;
+
+        try {
+            await streamFileToSink(
                 pubkey,
-                fileHash,
-                manifest.total_chunks,
-                (fetched, total) => {
+                manifest,
+                sink,
+                sniffFirstChunk(decodeChunk, setSniffedMime),
+                (progress) => {
                     if (!downloadAbortRef.current) {
+                        const written = Math.round(progress * manifest.total_chunks);
                         setDownloadState({
                             status: 'fetching',
-                            message: `Fetching chunks (${fetched}/${total})...`,
-                            progress: fetched / total
+                            message: `${fetchMessage} (${written}/${manifest.total_chunks} chunks saved)`,
+                            progress
                         });
                     }
                 },
-                manifest.chunks
+                controller.signal
             );
 
             if (downloadAbortRef.current) return;
-
-            if (chunks.length !== manifest.total_chunks) {
-                setDownloadState({ status: 'error', message: `Missing chunks: got ${chunks.length}/${manifest.total_chunks}` });
-                return;
-            }
-
-            setDownloadState({ status: 'decrypting', progress: 0 });
-            const decryptedParts: Uint8Array[] = [];
-
-            for (let i = 0; i < chunks.length; i++) {
-                if (downloadAbortRef.current) return;
-                const chunk = chunks[i];
-                try {
-                    const decrypted = decryptChunkBinary(chunk.content, secretKey, pubkey);
-                    decryptedParts.push(decrypted);
-                } catch (err) {
-                    setDownloadState({ status: 'error', message: `Failed to decrypt chunk ${i}: ${err instanceof Error ? err.message : 'unknown error'}` });
-                    return;
-                }
-                setDownloadState({ status: 'decrypting', progress: (i + 1) / chunks.length });
-            }
-
-            const totalLength = decryptedParts.reduce((acc, p) => acc + p.length, 0);
-            const fileData = new Uint8Array(totalLength);
-            let offset = 0;
-            for (const part of decryptedParts) {
-                fileData.set(part, offset);
-                offset += part.length;
-            }
-
-            const mimeType = manifest.mime_type || getMimeTypeFromName(manifest.file_name) || 'application/octet-stream';
-            triggerDownload(fileData, manifest.file_name, mimeType);
+            setIntegrityVerified(true);
             setDownloadState({ status: 'complete' });
         } catch (err) {
             if (!downloadAbortRef.current) {
                 setDownloadState({ status: 'error', message: err instanceof Error ? err.message : 'Download failed.' });
             }
         } finally {
-            pool.close(DEFAULT_INDEX_RELAYS);
-            clearSecretKey(secretKey);
+            if (downloadControllerRef.current === controller) {
+                downloadControllerRef.current = null;
+            }
+            refreshCachedChunkCount();
+        }
+    }, [effectiveMime, manifest, pubkey, refreshCachedChunkCount]);
+
+    const handleCancelDownload = useCallback(() => {
+        downloadAbortRef.current = true;
+        downloadControllerRef.current?.abort();
+        setDownloadState({ status: 'idle' });
+    }, []);
+
+    const handleCancelPreview = useCallback(() => {
+        // Un-requesting the preview aborts the unencrypted fetch via the effect cleanup
+        previewControllerRef.current?.abort();
+        previewControllerRef.current = null;
+        setPreviewRequested(false);
+        setPreviewLoading(false);
+    }, []);
+
+    const downloadUnencrypted = useCallback(() => {
+        return runStreamingDownload(decodeBase64Chunk, cachedChunkCount > 0 ? 'Resuming download' : 'Downloading file');
+    }, [cachedChunkCount, runStreamingDownload]);
+
+    const downloadEncrypted = useCallback(async (secretKey: Uint8Array) => {
+        // Workers take their own copies of the key, so ours can be erased right away
+        const decryptJob = createDecryptJob(secretKey, pubkey);
+        clearSecretKey(secretKey);
+
+        try {
+            await runStreamingDownload(
+                (chunk) => decryptWithJob(decryptJob, chunk),
+                cachedChunkCount > 0 ? 'Resuming and decrypting' : 'Downloading and decrypting'
+            );
+        } finally {
+            await decryptJob.close();
         }
-    }, [fileHash, manifest, pubkey, triggerDownload]);
+    }, [cachedChunkCount, pubkey, runStreamingDownload]);
 
-    const startEncryptedDownload = useCallback(() => {
+    const downloadWithExtension = useCallback(async () => {
+        setDownloadState({ status: 'idle' });
+        setNsecError(null);
+        // The extension may prompt for approval, so connect only after the save target is open
+        const session: { job: DecryptJob | null } = { job: null };
+        try {
+            await runStreamingDownload(
+                (chunk) => {
+                    if (!session.job) throw new Error('Extension is not connected');
+                    return decryptWithJob(session.job, chunk);
+                },
+                cachedChunkCount > 0 ? 'Resuming and decrypting with extension' : 'Downloading and decrypting with extension',
+                async () => {
+                    setDownloadState({ status: 'fetching', message: 'Waiting for the extension...' });
+                    session.job = await createExtensionDecryptJob(pubkey);
+                }
+            );
+        } finally {
+            await session.job?.close();
+        }
+    }, [cachedChunkCount, pubkey, runStreamingDownload]);
+
+    const downloadWithRemoteSigner = useCallback(async () => {
+        if (!remoteSigner) return;
+        setDownloadState({ status: 'idle' });
+        setNsecError(null);
+
+        // Files are self-encrypted, so only the owner's key can decrypt them
+        if (remoteSigner.pubkey !== pubkey) {
+            setDownloadState({ status: 'error', message: 'The remote signer holds a different key than the file owner.' });
+            return;
+        }
+
+        // Several requests stay in flight so large files aren't bottlenecked on round trips
+        const decryptJob = createSignerDecryptJob(
+            (content) => remoteSigner.nip44Decrypt(pubkey, content),
+            { concurrency: REMOTE_SIGNER_BATCH_SIZE, onProgress: setRemoteDecrypted }
+        );
+        setRemoteDecrypted(0);
+        try {
+            await runStreamingDownload(
+                (chunk) => decryptWithJob(decryptJob, chunk),
+                cachedChunkCount > 0 ? 'Resuming and decrypting with remote signer' : 'Downloading and decrypting with remote signer'
+            );
+        } finally {
+            await decryptJob.close();
+            setRemoteDecrypted(null);
+        }
+    }, [cachedChunkCount, pubkey, remoteSigner, runStreamingDownload]);
+
+    /**
+     * Decode and clear the nsec field; reports problems next to the input
+     */
+    const takeSecretKey = useCallback((): Uint8Array | null => {
         const trimmed = nsecInput.trim();
         setNsecInput('');
         setNsecError(null);
 
         if (!isValidNsec(trimmed)) {
             setNsecError('Invalid nsec format');
-            return;
+            return null;
         }
 
-        let secretKey: Uint8Array;
         try {
-            secretKey = nsecToSecretKey(trimmed);
+            return nsecToSecretKey(trimmed);
         } catch {
             setNsecError('Failed to decode nsec');
-            return;
+            return null;
         }
+    }, [nsecInput]);
 
-        downloadEncrypted(secretKey);
-    }, [downloadEncrypted, nsecInput]);
+    const startEncryptedDownload = useCallback(() => {
+        const secretKey = takeSecretKey();
+        if (secretKey) downloadEncrypted(secretKey);
+    }, [downloadEncrypted, takeSecretKey]);
+
+    const previewWithNsec = useCallback(() => {
+        const secretKey = takeSecretKey();
+        if (!secretKey) return;
+        const decryptJob = createDecryptJob(secretKey, pubkey);
+        clearSecretKey(secretKey);
+        runEncryptedPreview(async () => decryptJob);
+    }, [pubkey, runEncryptedPreview, takeSecretKey]);
+
+    const previewWithExtension = useCallback(() => {
+        setNsecError(null);
+        runEncryptedPreview(() => createExtensionDecryptJob(pubkey));
+    }, [pubkey, runEncryptedPreview]);
+
+    const previewWithRemoteSigner = useCallback(() => {
+        if (!remoteSigner) return;
+        setNsecError(null);
+        if (remoteSigner.pubkey !== pubkey) {
+            setPreviewRequested(true);
+            setPreviewError('The remote signer holds a different key than the file owner.');
+            return;
+        }
+        runEncryptedPreview(async () => createSignerDecryptJob(
+            (content) => remoteSigner.nip44Decrypt(pubkey, content),
+            { concurrency: REMOTE_SIGNER_BATCH_SIZE }
+        ));
+    }, [pubkey, remoteSigner, runEncryptedPreview]);
 
     const handleDownload = useCallback(() => {
         setDownloadState({ status: 'idle' });
@@ -355,66 +679,10 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
         startEncryptedDownload();
     }, [startEncryptedDownload]);
 
-    const renderPreviewContent = () => {
-        if (!contentUrl) return null;
-
-        if (contentType.startsWith('image/')) {
-            return (
-                <div className="preview-media image-preview">
-                    <img src={contentUrl} alt={manifest?.file_name || 'Preview'} />
-                </div>
-            );
-        }
-
-        if (contentType.startsWith('text/') || contentType === 'application/json' || contentType.includes('javascript')) {
-            return (
-                <iframe
-                    src={contentUrl}
-                    className="preview-media text-preview"
-                    title={manifest?.file_name || 'Preview'}
-                />
-            );
-        }
-
-        if (contentType === 'application/pdf') {
-            return (
-                <iframe
-                    src={contentUrl}
-                    className="preview-media pdf-preview"
-                    title={manifest?.file_name || 'Preview'}
-                />
-            );
-        }
-
-        if (contentType.startsWith('video/')) {
-            return (
-                <video controls className="preview-media video-preview">
-                    <source src={contentUrl} type={contentType} />
-                    Your browser does not support the video tag.
-                </video>
-            );
-        }
-
-        if (contentType.startsWith('audio/')) {
-            return (
-                <audio controls className="preview-media audio-preview">
-                    <source src={contentUrl} type={contentType} />
-                    Your browser does not support the audio element.
-                </audio>
-            );
-        }
-
-        return (
-            <div className="preview-message">
-                <span>Preview not available for this file type.</span>
-            </div>
-        );
-    };
-
     return (
         <div className="file-detail-container">
             <header className="file-detail-header">
-                <Link className="back-button" to={`/files/${npub}`}>
+                <Link className="back-button" to={{ pathname: `/files/${npub}`, search: addRelayHints(search, relayHints ?? []) }}>
                     <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
                         <polyline points="15,18 9,12 15,6" />
                     </svg>
@@ -427,9 +695,25 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                         {npub}
                     </code>
                 </div>
+
+                {manifest && (
+                    <button
+                        type="button"
+                        className={starred ? 'star-button starred' : 'star-button'}
+                        onClick={() => setFileStarred(
+                            { pubkey, fileHash, fileName: manifest.file_name, relays: relayHints ?? [] },
+                            !starred
+                        )}
+                        title={starred ? 'Remove from starred files' : 'Show this file on the start screen'}
+                    >
+                        {starred ? '★ Starred' : '☆ Star'}
+                    </button>
+                )}
             </header>
 
             <main className="file-detail-content">
+                <MalformedEventsNotice pubkey={pubkey} />
+
                 {manifestLoading && (
                     <div className="loading-state">
                         <div className="spinner"></div>
@@ -459,6 +743,22 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                                 <span>Uploaded</span>
                                 <strong>{formatDate(manifest.created_at)}</strong>
                             </div>
+                            <div className="detail-row">
+                                <span>Type</span>
+                                {mimeMismatch ? (
+                                    <strong
+                                        className="type-mismatch"
+                                        title="Detected from the file's first bytes; used for preview and download"
+                                    >
+                                        ⚠️ Content is {sniffedMime}, but the {manifest.mime_type ? 'manifest' : 'file extension'} says {mimeTypeGuess}
+                                    </strong>
+                                ) : (
+                                    <strong>
+                                        {effectiveMime}
+                                        {sniffedMime && !mimeTypeGuess && ' (detected from content)'}
+                                    </strong>
+                                )}
+                            </div>
                             <div className="detail-row">
                                 <span>Encryption</span>
                                 <strong className={isEncrypted ? 'encrypted' : 'unencrypted'}>
@@ -469,29 +769,55 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                                 <span>File hash</span>
                                 <code>{manifest.file_hash}</code>
                             </div>
+                            {cachedChunkCount > 0 && (
+                                <div className="detail-row">
+                                    <span>Local cache</span>
+                                    <strong>
+                                        {cachedChunkCount < manifest.total_chunks
+                                            ? `Resuming: ${cachedChunkCount}/${manifest.total_chunks} chunks cached`
+                                            : `All ${manifest.total_chunks} chunks cached`}
+                                    </strong>
+                                </div>
+                            )}
+                            {integrityVerified && (
+                                <div className="detail-row">
+                                    <span>Integrity</span>
+                                    <strong className="verified-badge" title="All chunks and the file hash matched the manifest">
+                                        ✓ Verified
+                                    </strong>
+                                </div>
+                            )}
+                            {manifestAddress && (
+                                <div className="share-row">
+                                    <button type="button" className="secondary-button" onClick={handleCopyShareLink}>
+                                        {shareStatus === 'copied' ? 'Copied' : 'Copy share link'}
+                                    </button>
+                                    <span className={shareStatus === 'failed' ? 'share-note error' : 'share-note'}>
+                                        {shareStatus === 'failed'
+                                            ? 'Could not copy to the clipboard.'
+                                            : 'Includes the relays holding this file, so it opens even if they aren\'t in the recipient\'s settings.'}
+                                    </span>
+                                </div>
+                            )}
                         </section>
 
                         <section className="preview-card">
                             <div className="card-header">
                                 <h2>Preview</h2>
-                                {!isEncrypted && (
-                                    <span className="preview-limit">Preview limit: {formatMegabytes(MAX_PREVIEW_BYTES)}</span>
-                                )}
+                                <span className="preview-limit">
+                                    {isStreamable ? 'Streams as it plays' : `Preview limit: ${formatMegabytes(MAX_PREVIEW_BYTES)}`}
+                                </span>
                             </div>
 
-                            {isEncrypted && (
+                            {isEncrypted && isPreviewable && !previewRequested && (
                                 <div className="preview-message warning">
-                                    <span>Encrypted files can’t be previewed. Use your nsec to download.</span>
+                                    <span>This file is encrypted. Choose a key below and use Preview to decrypt it in your browser.</span>
                                 </div>
                             )}
 
-                            {!isEncrypted && !isPreviewable && (
+                            {!isPreviewable && (
                                 <div className="preview-message">
-                                    <span>
-                                        {manifest.file_size > MAX_PREVIEW_BYTES
-                                            ? `Preview disabled for files larger than ${formatMegabytes(MAX_PREVIEW_BYTES)}.`
-                                            : `Preview not available for ${mimeTypeGuess || 'this file type'}.`}
-                                    </span>
+                                    <span>Preview disabled for files larger than {formatMegabytes(MAX_PREVIEW_BYTES)}.</span>
                                 </div>
                             )}
 
@@ -511,6 +837,9 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                                     <div className="progress-bar">
                                         <div className="progress-fill" style={{ width: `${previewProgress * 100}%` }}></div>
                                     </div>
+                                    <button className="secondary-button" onClick={handleCancelPreview}>
+                                        Cancel
+                                    </button>
                                 </div>
                             )}
 
@@ -520,7 +849,22 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                                 </div>
                             )}
 
-                            {!previewLoading && !previewError && isPreviewable && previewRequested && renderPreviewContent()}
+                            {!previewLoading && !previewError && isPreviewable && previewRequested && contentUrl && (
+                                <FilePreview
+                                    key={contentUrl}
+                                    kind={previewKind ?? undefined}
+                                    url={contentUrl}
+                                    blob={contentBlob}
+                                    mimeType={contentType}
+                                    fileName={manifest.file_name}
+                                />
+                            )}
+
+                            {contentUrl && streamedChunks !== null && (
+                                <p className="stream-status">
+                                    Streaming: {streamedChunks}/{manifest.total_chunks} chunks loaded
+                                </p>
+                            )}
                         </section>
 
                         <section className="download-card">
@@ -534,6 +878,54 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                                 </button>
                             )}
 
+                            {downloadState.status === 'idle' && isEncrypted && extensionAvailable && (
+                                <div className="extension-option">
+                                    <div className="decrypt-actions">
+                                        <button className="primary-button" onClick={downloadWithExtension}>
+                                            🧩 Decrypt with extension
+                                        </button>
+                                        {isPreviewable && (
+                                            <button className="secondary-button" onClick={previewWithExtension} disabled={previewLoading}>
+                                                Preview
+                                            </button>
+                                        )}
+                                    </div>
+                                    <span className="extension-divider">or enter your private key</span>
+                                </div>
+                            )}
+
+                            {downloadState.status === 'idle' && isEncrypted && remoteSigner && (
+                                <div className="extension-option">
+                                    <div className="decrypt-actions">
+                                        <button className="primary-button" onClick={downloadWithRemoteSigner}>
+                                            🔑 Decrypt with remote signer
+                                        </button>
+                                        {isPreviewable && (
+                                            <button className="secondary-button" onClick={previewWithRemoteSigner} disabled={previewLoading}>
+                                                Preview
+                                            </button>
+                                        )}
+                                    </div>
+                                    <span className="extension-divider">
+                                        Connected as {publicKeyToNpub(remoteSigner.pubkey).slice(0, 16)}…
+                                        {' '}
+                                        <button type="button" className="link-button" onClick={disconnectRemoteSigner}>
+                                            Disconnect
+                                        </button>
+                                    </span>
+                                </div>
+                            )}
+
+                            {downloadState.status === 'idle' && isEncrypted && !remoteSigner && (
+                                <RemoteSignerConnect onConnected={handleRemoteSignerConnected} />
+                            )}
+
+                            {downloadState.status === 'idle' && isEncrypted && extensionAvailable === false && (
+                                <p className="extension-hint">
+                                    No NIP-07 signer extension detected. Install one (e.g. Alby or nos2x) to decrypt without pasting your nsec.
+                                </p>
+                            )}
+
                             {downloadState.status === 'idle' && isEncrypted && (
                                 <form onSubmit={handleEncryptedSubmit} className="key-form">
                                     <div className="input-group">
@@ -554,9 +946,16 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                                         <span>Your key is used only for decryption and immediately erased.</span>
                                     </div>
 
-                                    <button type="submit" className="primary-button">
-                                        Decrypt & Download
-                                    </button>
+                                    <div className="decrypt-actions">
+                                        <button type="submit" className="primary-button">
+                                            Decrypt & Download
+                                        </button>
+                                        {isPreviewable && (
+                                            <button type="button" className="secondary-button" onClick={previewWithNsec} disabled={previewLoading}>
+                                                Decrypt & Preview
+                                            </button>
+                                        )}
+                                    </div>
                                 </form>
                             )}
 
@@ -564,21 +963,19 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                                 <div className="progress-view">
                                     <div className="spinner"></div>
                                     <p>{downloadState.message}</p>
+                                    {remoteDecrypted !== null && (
+                                        <p className="remote-signer-hint">
+                                            Remote signer decrypted {remoteDecrypted}/{manifest.total_chunks} chunks
+                                        </p>
+                                    )}
                                     {downloadState.progress !== undefined && (
                                         <div className="progress-bar">
                                             <div className="progress-fill" style={{ width: `${downloadState.progress * 100}%` }}></div>
                                         </div>
                                     )}
-                                </div>
-                            )}
-
-                            {downloadState.status === 'decrypting' && (
-                                <div className="progress-view">
-                                    <div className="spinner"></div>
-                                    <p>Decrypting file...</p>
-                                    <div className="progress-bar">
-                                        <div className="progress-fill" style={{ width: `${downloadState.progress * 100}%` }}></div>
-                                    </div>
+                                    <button className="secondary-button" onClick={handleCancelDownload}>
+                                        Cancel download
+                                    </button>
                                 </div>
                             )}
 
@@ -602,6 +999,16 @@ export function FileDetail({ pubkey, npub, fileHash }: FileDetailProps) {
                                 </div>
                             )}
                         </section>
+
+                        {chunkCells.size > 0 && (
+                            <ChunkStatusGrid
+                                key={manifest.file_hash}
+                                pubkey={pubkey}
+                                manifest={manifest}
+                                cells={chunkCells}
+                                onRecovered={refreshCachedChunkCount}
+                            />
+                        )}
                     </>
                 )}
             </main>
@@ -1,30 +1,111 @@
-import { useEffect, useState, useCallback } from 'react';
-import { Link } from 'react-router-dom';
-import type { FileIndex } from '../lib/types';
-import { createPool, fetchFileIndex, DEFAULT_INDEX_RELAYS } from '../lib/nostr';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import type { FileEntry, FileIndex } from '../lib/types';
+import { createPool, fetchAllIndexPages, fetchFileIndex, getAuthorIndexRelays, type IndexVersion } from '../lib/nostr';
+import { getIndexRelays } from '../lib/relaySettings';
+import { recordKeyVisit } from '../lib/history';
+import {
+    EMPTY_FILTERS,
+    collectExtensions,
+    filterEntries,
+    hasActiveFilters,
+    mergeIndexEntries,
+    SORT_KEYS,
+    sortEntries,
+    type EncryptionFilter,
+    type FileFilters,
+    type SortDirection,
+    type SortKey,
+} from '../lib/fileSearch';
+import { formatBytes } from '../lib/format';
 import { FileCard } from './FileCard';
+import { FileTable } from './FileTable';
+import { DownloadModal } from './DownloadModal';
+import { ProfileHeader } from './ProfileHeader';
+import { MalformedEventsNotice } from './MalformedEventsNotice';
 import './FileList.css';
 
+/**
+ * Every index page (current + archives) loaded for searching
+ */
+interface ArchiveSearchState {
+    pubkey: string;
+    entries: FileEntry[];
+    loadedPages: number;
+    totalPages: number;
+    loading: boolean;
+    error: string | null;
+}
+
+/**
+ * Files picked for a multi-file download, keyed by file hash
+ */
+interface SelectionState {
+    pubkey: string;
+    files: ReadonlyMap<string, FileEntry>;
+}
+
+const NO_SELECTION: ReadonlyMap<string, FileEntry> = new Map();
+const NO_RELAY_HINTS: string[] = [];
+
+type ViewMode = 'grid' | 'table';
+
+const DEFAULT_SORT_KEY: SortKey = 'date';
+const DEFAULT_SORT_DIRECTION: SortDirection = 'desc';
+
+/**
+ * View mode and sort order from the query string (?view=table&sort=size&dir=asc)
+ */
+function parseViewParams(params: URLSearchParams): { view: ViewMode; sortKey: SortKey; sortDirection: SortDirection } {
+    const view = params.get('view') === 'table' ? 'table' : 'grid';
+    const sort = params.get('sort');
+    const sortKey = SORT_KEYS.find(key => key === sort) ?? DEFAULT_SORT_KEY;
+    const dir = params.get('dir');
+    const sortDirection = dir === 'asc' || dir === 'desc' ? dir : DEFAULT_SORT_DIRECTION;
+    return { view, sortKey, sortDirection };
+}
+
 interface FileListProps {
     pubkey: string;
     npub: string;
+    /** Relays to search for the index besides the configured ones (from an nprofile or NIP-05) */
+    relayHints?: string[];
     inactive?: boolean;
 }
 
-export function FileList({ pubkey, npub, inactive = false }: FileListProps) {
+export function FileList({ pubkey, npub, relayHints = NO_RELAY_HINTS, inactive = false }: FileListProps) {
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [index, setIndex] = useState<FileIndex | null>(null);
+    const [foundOn, setFoundOn] = useState<string[]>([]);
+    const [indexVersions, setIndexVersions] = useState<IndexVersion[]>([]);
     const [page, setPage] = useState(1);
+    const [filters, setFilters] = useState<FileFilters>(EMPTY_FILTERS);
+    const [archive, setArchive] = useState<ArchiveSearchState | null>(null);
+    const archiveControllerRef = useRef<AbortController | null>(null);
+    const [searchParams, setSearchParams] = useSearchParams();
+    const { view, sortKey, sortDirection } = parseViewParams(searchParams);
+    const [selection, setSelection] = useState<SelectionState | null>(null);
+    const [bulkDownloadOpen, setBulkDownloadOpen] = useState(false);
+
+    const selectedFiles = selection?.pubkey === pubkey ? selection.files : NO_SELECTION;
+    const selectedHashes = useMemo(() => new Set(selectedFiles.keys()), [selectedFiles]);
+    const selectedBytes = Array.from(selectedFiles.values()).reduce((sum, file) => sum + file.file_size, 0);
+
+    const searchActive = hasActiveFilters(filters);
+    const archiveStarted = archive?.pubkey === pubkey;
 
     const loadIndex = useCallback(async (pageNum: number) => {
         setLoading(true);
         setError(null);
 
         const pool = createPool();
+        let relays = [...relayHints, ...getIndexRelays()];
 
         try {
-            const result = await fetchFileIndex(pool, DEFAULT_INDEX_RELAYS, pubkey, pageNum);
+            // Also search the write relays from the author's NIP-65 relay list
+            relays = await getAuthorIndexRelays(pool, relays, pubkey);
+            const result = await fetchFileIndex(pool, relays, pubkey, pageNum);
 
             if (!result) {
                 if (pageNum === 1) {
@@ -33,22 +114,166 @@ export function FileList({ pubkey, npub, inactive = false }: FileListProps) {
                     setError('Archive not found');
                 }
                 setIndex(null);
+                setFoundOn([]);
+                setIndexVersions([]);
             } else {
-                setIndex(result);
+                setIndex(result.index);
+                setFoundOn(result.foundOn);
+                setIndexVersions(result.versions);
             }
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Failed to fetch file index');
             setIndex(null);
+            setFoundOn([]);
+            setIndexVersions([]);
         } finally {
             setLoading(false);
-            pool.close(DEFAULT_INDEX_RELAYS);
+            pool.close(relays);
         }
-    }, [pubkey]);
+    }, [pubkey, relayHints]);
 
     useEffect(() => {
         loadIndex(page);
     }, [page, loadIndex]);
 
+    // Listed under "Recently viewed" on the entry screen
+    useEffect(() => {
+        recordKeyVisit(pubkey, relayHints);
+    }, [pubkey, relayHints]);
+
+    const loadAllPages = useCallback(async () => {
+        archiveControllerRef.current?.abort();
+        const controller = new AbortController();
+        archiveControllerRef.current = controller;
+
+        setArchive({ pubkey, entries: [], loadedPages: 0, totalPages: 0, loading: true, error: null });
+
+        const pool = createPool();
+        let relays = [...relayHints, ...getIndexRelays()];
+
+        try {
+            relays = await getAuthorIndexRelays(pool, relays, pubkey);
+            await fetchAllIndexPages(pool, relays, pubkey, (loaded, total, pages) => {
+                if (controller.signal.aborted) return;
+                setArchive({
+                    pubkey,
+                    entries: mergeIndexEntries(pages),
+                    loadedPages: loaded,
+                    totalPages: total,
+                    loading: true,
+                    error: null,
+                });
+            }, controller.signal);
+            if (!controller.signal.aborted) {
+                setArchive(prev => prev && { ...prev, loading: false });
+            }
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            const message = err instanceof Error ? err.message : 'Failed to load archives';
+            setArchive(prev => prev && { ...prev, loading: false, error: message });
+        } finally {
+            pool.close(relays);
+        }
+    }, [pubkey, relayHints]);
+
+    // Searching covers every archive, so load them all the first time a filter is set
+    useEffect(() => {
+        if (searchActive && !archiveStarted) {
+            loadAllPages();
+        }
+    }, [searchActive, archiveStarted, loadAllPages]);
+
+    // Stop loading archives for a key that is no longer shown
+    useEffect(() => {
+        return () => archiveControllerRef.current?.abort();
+    }, [pubkey]);
+
+    const archiveEntries = archiveStarted ? archive.entries : null;
+    const searchResults = useMemo(
+        () => (searchActive && archiveEntries ? filterEntries(archiveEntries, filters) : []),
+        [searchActive, archiveEntries, filters]
+    );
+    const extensions = useMemo(
+        () => collectExtensions(archiveEntries && archiveEntries.length > 0 ? archiveEntries : index?.entries ?? []),
+        [archiveEntries, index]
+    );
+
+    const pageEntries = useMemo(
+        () => (index ? sortEntries(index.entries, sortKey, sortDirection) : []),
+        [index, sortKey, sortDirection]
+    );
+    const sortedResults = useMemo(
+        () => sortEntries(searchResults, sortKey, sortDirection),
+        [searchResults, sortKey, sortDirection]
+    );
+
+    const updateViewParams = (next: { view?: ViewMode; sortKey?: SortKey; sortDirection?: SortDirection }) => {
+        const merged = { view, sortKey, sortDirection, ...next };
+        setSearchParams(prev => {
+            const params = new URLSearchParams(prev);
+            // Defaults are left out so plain links stay short
+            if (merged.view === 'grid') params.delete('view');
+            else params.set('view', merged.view);
+            if (merged.sortKey === DEFAULT_SORT_KEY && merged.sortDirection === DEFAULT_SORT_DIRECTION) {
+                params.delete('sort');
+                params.delete('dir');
+            } else {
+                params.set('sort', merged.sortKey);
+                params.set('dir', merged.sortDirection);
+            }
+            return params;
+        }, { replace: true });
+    };
+
+    // Clicking the active column flips direction; a new column starts ascending, except dates and sizes
+    const handleSort = (key: SortKey) => {
+        if (key === sortKey) {
+            updateViewParams({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' });
+        } else {
+            updateViewParams({ sortKey: key, sortDirection: key === 'date' || key === 'size' ? 'desc' : 'asc' });
+        }
+    };
+
+    const updateSelection = (files: FileEntry[], selected: boolean) => {
+        const next = new Map(selectedFiles);
+        for (const file of files) {
+            if (selected) next.set(file.file_hash, file);
+            else next.delete(file.file_hash);
+        }
+        setSelection({ pubkey, files: next });
+    };
+
+    const renderFiles = (files: FileEntry[]) => (
+        view === 'table' ? (
+            <FileTable
+                files={files}
+                npub={npub}
+                sortKey={sortKey}
+                sortDirection={sortDirection}
+                onSort={handleSort}
+                selectedHashes={selectedHashes}
+                onSelectChange={updateSelection}
+            />
+        ) : (
+            <div className="file-grid">
+                {files.map((file) => (
+                    <FileCard
+                        key={file.file_hash}
+                        file={file}
+                        pubkey={pubkey}
+                        npub={npub}
+                        selected={selectedHashes.has(file.file_hash)}
+                        onSelectChange={(selected) => updateSelection([file], selected)}
+                    />
+                ))}
+            </div>
+        )
+    );
+
+    const updateFilter = <K extends keyof FileFilters>(key: K, value: FileFilters[K]) => {
+        setFilters(prev => ({ ...prev, [key]: value }));
+    };
+
     const totalPages = index ? index.total_archives + 1 : 1;
     return (
         <div className={`file-list-container${inactive ? ' is-inactive' : ''}`}>
@@ -62,13 +287,216 @@ export function FileList({ pubkey, npub, inactive = false }: FileListProps) {
 
                 <div className="header-info">
                     <h1>Files</h1>
+                    <ProfileHeader pubkey={pubkey} relayHints={relayHints} />
                     <code className="pubkey-display" title={npub}>
                         {npub}
                     </code>
+                    {foundOn.length > 0 && (
+                        <p className="index-sources" title={foundOn.join('\n')}>
+                            Index found on: {foundOn.join(', ')}
+                        </p>
+                    )}
+                    {indexVersions.length > 1 && (
+                        <div className="index-conflict">
+                            <p>⚠️ Relays returned different versions of this index. Showing the newest one.</p>
+                            <ul>
+                                {indexVersions.map((version, i) => (
+                                    <li key={version.eventId}>
+                                        {i === 0 ? 'Shown' : 'Older'}: {new Date(version.createdAt * 1000).toLocaleString()}
+                                        {' '}from {version.relays.join(', ') || 'unknown relay'}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
                 </div>
             </header>
 
-            <main className="file-list-content">
+            <section className="file-search">
+                <input
+                    type="search"
+                    className="file-search-input"
+                    placeholder="Search all files by name..."
+                    value={filters.query}
+                    onChange={(e) => updateFilter('query', e.target.value)}
+                    aria-label="Search files"
+                />
+                <div className="file-search-filters">
+                    <label>
+                        Type
+                        <select
+                            value={filters.extension}
+                            onChange={(e) => updateFilter('extension', e.target.value)}
+                        >
+                            <option value="">Any</option>
+                            {extensions.map(ext => (
+                                <option key={ext} value={ext}>.{ext}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label>
+                        From
+                        <input
+                            type="date"
+                            value={filters.dateFrom}
+                            onChange={(e) => updateFilter('dateFrom', e.target.value)}
+                        />
+                    </label>
+                    <label>
+                        To
+                        <input
+                            type="date"
+                            value={filters.dateTo}
+                            onChange={(e) => updateFilter('dateTo', e.target.value)}
+                        />
+                    </label>
+                    <label>
+                        Min MB
+                        <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={filters.minSizeMb}
+                            onChange={(e) => updateFilter('minSizeMb', e.target.value)}
+                        />
+                    </label>
+                    <label>
+                        Max MB
+                        <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={filters.maxSizeMb}
+                            onChange={(e) => updateFilter('maxSizeMb', e.target.value)}
+                        />
+                    </label>
+                    <label>
+                        Encryption
+                        <select
+                            value={filters.encryption}
+                            onChange={(e) => updateFilter('encryption', e.target.value as EncryptionFilter)}
+                        >
+                            <option value="any">Any</option>
+                            <option value="nip44">Encrypted</option>
+                            <option value="none">Unencrypted</option>
+                        </select>
+                    </label>
+                    {searchActive && (
+                        <button className="page-button" onClick={() => setFilters(EMPTY_FILTERS)}>
+                            Clear
+                        </button>
+                    )}
+                </div>
+                <div className="view-toolbar">
+                    {view === 'grid' && (
+                        <label>
+                            Sort by
+                            <select
+                                value={`${sortKey}:${sortDirection}`}
+                                onChange={(e) => {
+                                    const [key, dir] = e.target.value.split(':') as [SortKey, SortDirection];
+                                    updateViewParams({ sortKey: key, sortDirection: dir });
+                                }}
+                            >
+                                <option value="date:desc">Newest first</option>
+                                <option value="date:asc">Oldest first</option>
+                                <option value="name:asc">Name A–Z</option>
+                                <option value="name:desc">Name Z–A</option>
+                                <option value="size:desc">Largest first</option>
+                                <option value="size:asc">Smallest first</option>
+                                <option value="encryption:asc">Encrypted last</option>
+                                <option value="encryption:desc">Encrypted first</option>
+                                <option value="hash:asc">Hash</option>
+                            </select>
+                        </label>
+                    )}
+                    <div className="view-toggle" role="group" aria-label="View mode">
+                        <button
+                            type="button"
+                            className={view === 'grid' ? 'active' : ''}
+                            onClick={() => updateViewParams({ view: 'grid' })}
+                        >
+                            Grid
+                        </button>
+                        <button
+                            type="button"
+                            className={view === 'table' ? 'active' : ''}
+                            onClick={() => updateViewParams({ view: 'table' })}
+                        >
+                            Table
+                        </button>
+                    </div>
+                </div>
+            </section>
+
+            {selectedFiles.size > 0 && (
+                <div className="selection-bar">
+                    <span>
+                        {selectedFiles.size} selected · {formatBytes(selectedBytes)}
+                    </span>
+                    <div className="selection-actions">
+                        <button className="page-button" onClick={() => setSelection(null)}>
+                            Clear selection
+                        </button>
+                        <button className="retry-button" onClick={() => setBulkDownloadOpen(true)}>
+                            Download selected
+                        </button>
+                    </div>
+                </div>
+            )}
+
+            {bulkDownloadOpen && selectedFiles.size > 0 && (
+                <DownloadModal
+                    pubkey={pubkey}
+                    files={Array.from(selectedFiles.values())}
+                    onClose={() => setBulkDownloadOpen(false)}
+                />
+            )}
+
+            {searchActive && archiveStarted && (
+                <div className="file-list-content">
+                    <div className="search-status">
+                        <span>
+                            {searchResults.length} matching file{searchResults.length === 1 ? '' : 's'}
+                            {archive.totalPages > 0 && ` across ${archive.totalPages} page${archive.totalPages === 1 ? '' : 's'}`}
+                        </span>
+                        {archive.loading && (
+                            <span>
+                                Loading archives {archive.loadedPages}/{archive.totalPages || '?'}
+                            </span>
+                        )}
+                    </div>
+                    {archive.loading && (
+                        <div className="search-progress">
+                            <div
+                                className="search-progress-fill"
+                                style={{ width: `${archive.totalPages > 0 ? (archive.loadedPages / archive.totalPages) * 100 : 0}%` }}
+                            />
+                        </div>
+                    )}
+
+                    {archive.error && (
+                        <div className="error-state">
+                            <span className="error-icon">⚠️</span>
+                            <p>{archive.error}</p>
+                            <button onClick={() => loadAllPages()} className="retry-button">
+                                Retry
+                            </button>
+                        </div>
+                    )}
+
+                    {searchResults.length === 0 && !archive.loading && !archive.error ? (
+                        <div className="empty-state">
+                            <span className="empty-icon">🔍</span>
+                            <p>No files match your search</p>
+                        </div>
+                    ) : renderFiles(sortedResults)}
+                </div>
+            )}
+
+            <main className="file-list-content" hidden={searchActive}>
+                <MalformedEventsNotice pubkey={pubkey} />
+
                 {loading && (
                     <div className="loading-state">
                         <div className="spinner"></div>
@@ -93,18 +521,7 @@ export function FileList({ pubkey, npub, inactive = false }: FileListProps) {
                                 <span className="empty-icon">📂</span>
                                 <p>No files on this page</p>
                             </div>
-                        ) : (
-                            <div className="file-grid">
-                                {index.entries.map((file) => (
-                                    <FileCard
-                                        key={file.file_hash}
-                                        file={file}
-                                        pubkey={pubkey}
-                                        npub={npub}
-                                    />
-                                ))}
-                            </div>
-                        )}
+                        ) : renderFiles(pageEntries)}
 
                         {totalPages > 1 && (
                             <div className="pagination">
@@ -0,0 +1,86 @@
+import type { ReactNode } from 'react';
+import { getPreviewKind, isMediaPreview, type PreviewKind } from '../lib/mimeTypes';
+import { CodePreview, MarkdownPreview, TextPreview } from './TextPreview';
+import { DelimitedPreview } from './DelimitedPreview';
+import { HexPreview } from './HexPreview';
+import { ArchivePreview } from './ArchivePreview';
+import './FilePreview.css';
+
+/**
+ * What every previewer receives
+ */
+export interface PreviewProps {
+    /** Object URL (or stream URL) for the file */
+    url: string;
+    /** File contents; null when the file is streamed rather than loaded */
+    blob: Blob | null;
+    mimeType: string;
+    fileName: string;
+}
+
+function ImagePreview({ url, fileName }: PreviewProps) {
+    return (
+        <div className="preview-media image-preview">
+            <img src={url} alt={fileName || 'Preview'} />
+        </div>
+    );
+}
+
+function PdfPreview({ url, fileName }: PreviewProps) {
+    return <iframe src={url} className="preview-media pdf-preview" title={fileName || 'Preview'} />;
+}
+
+function VideoPreview({ url, mimeType }: PreviewProps) {
+    return (
+        <video controls className="preview-media video-preview">
+            <source src={url} type={mimeType} />
+            Your browser does not support the video tag.
+        </video>
+    );
+}
+
+function AudioPreview({ url, mimeType }: PreviewProps) {
+    return (
+        <audio controls className="preview-media audio-preview">
+            <source src={url} type={mimeType} />
+            Your browser does not support the audio element.
+        </audio>
+    );
+}
+
+/**
+ * Previewer for each kind of file; mimeTypes.ts decides which kind a file is
+ */
+const PREVIEW_VIEWERS: Record<PreviewKind, (props: PreviewProps) => ReactNode> = {
+    image: ImagePreview,
+    video: VideoPreview,
+    audio: AudioPreview,
+    pdf: PdfPreview,
+    markdown: MarkdownPreview,
+    code: CodePreview,
+    text: TextPreview,
+    csv: (props) => <DelimitedPreview {...props} delimiter="," />,
+    tsv: (props) => <DelimitedPreview {...props} delimiter={'\t'} />,
+    zip: (props) => <ArchivePreview {...props} format="zip" />,
+    tar: (props) => <ArchivePreview {...props} format="tar" />,
+    hex: HexPreview,
+};
+
+/**
+ * Render a loaded file with the previewer registered for its type
+ * @param kind Overrides the type-based choice, e.g. when the content contradicts the extension
+ */
+export function FilePreview({ kind: kindOverride, ...props }: PreviewProps & { kind?: PreviewKind }) {
+    const kind = kindOverride ?? getPreviewKind(props.mimeType, props.fileName);
+
+    if (!isMediaPreview(kind) && !props.blob) {
+        return (
+            <div className="preview-message">
+                <span>Preview not available for this file type.</span>
+            </div>
+        );
+    }
+
+    const Viewer = PREVIEW_VIEWERS[kind];
+    return <Viewer {...props} />;
+}
@@ -0,0 +1,109 @@
+import { Link, useLocation } from 'react-router-dom';
+import type { FileEntry } from '../lib/types';
+import type { SortDirection, SortKey } from '../lib/fileSearch';
+import { formatBytes } from '../lib/format';
+import './FileTable.css';
+
+interface FileTableProps {
+    files: FileEntry[];
+    npub: string;
+    sortKey: SortKey;
+    sortDirection: SortDirection;
+    onSort: (key: SortKey) => void;
+    selectedHashes?: ReadonlySet<string>;
+    /** Shows a selection column when set */
+    onSelectChange?: (files: FileEntry[], selected: boolean) => void;
+}
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+    { key: 'name', label: 'Name' },
+    { key: 'size', label: 'Size' },
+    { key: 'date', label: 'Uploaded' },
+    { key: 'encryption', label: 'Encryption' },
+    { key: 'hash', label: 'Hash' },
+];
+
+/**
+ * Dense, sortable table of index entries
+ */
+export function FileTable({ files, npub, sortKey, sortDirection, onSort, selectedHashes, onSelectChange }: FileTableProps) {
+    // Keep view and sort settings when opening a file
+    const { search } = useLocation();
+    const allSelected = files.length > 0 && files.every(file => selectedHashes?.has(file.file_hash));
+
+    return (
+        <div className="file-table-wrapper">
+            <table className="file-table">
+                <thead>
+                    <tr>
+                        {onSelectChange && (
+                            <th className="file-table-select">
+                                <input
+                                    type="checkbox"
+                                    checked={allSelected}
+                                    onChange={(e) => onSelectChange(files, e.target.checked)}
+                                    aria-label="Select all files"
+                                />
+                            </th>
+                        )}
+                        {COLUMNS.map(column => {
+                            const active = column.key === sortKey;
+                            return (
+                                <th
+                                    key={column.key}
+                                    className={`file-table-${column.key}`}
+                                    aria-sort={active ? (sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'}
+                                >
+                                    <button
+                                        type="button"
+                                        className={`sort-button${active ? ' active' : ''}`}
+                                        onClick={() => onSort(column.key)}
+                                    >
+                                        {column.label}
+                                        <span className="sort-indicator">
+                                            {active ? (sortDirection === 'asc' ? '▲' : '▼') : ''}
+                                        </span>
+                                    </button>
+                                </th>
+                            );
+                        })}
+                    </tr>
+                </thead>
+                <tbody>
+                    {files.map(file => (
+                        <tr key={file.file_hash} className={selectedHashes?.has(file.file_hash) ? 'is-selected' : ''}>
+                            {onSelectChange && (
+                                <td className="file-table-select">
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedHashes?.has(file.file_hash) ?? false}
+                                        onChange={(e) => onSelectChange([file], e.target.checked)}
+                                        aria-label={`Select ${file.file_name}`}
+                                    />
+                                </td>
+                            )}
+                            <td className="file-table-name">
+                                <Link
+                                    to={{ pathname: `/files/${npub}/${file.file_hash}`, search }}
+                                    title={file.file_name}
+                                >
+                                    {file.file_name}
+                                </Link>
+                            </td>
+                            <td className="file-table-size">{formatBytes(file.file_size)}</td>
+                            <td className="file-table-date" title={new Date(file.uploaded_at * 1000).toLocaleString()}>
+                                {new Date(file.uploaded_at * 1000).toLocaleDateString()}
+                            </td>
+                            <td className="file-table-encryption">
+                                {file.encryption === 'nip44' ? '🔒 NIP-44' : 'None'}
+                            </td>
+                            <td className="file-table-hash" title={file.file_hash}>
+                                <code>{file.file_hash.slice(0, 12)}…</code>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+}
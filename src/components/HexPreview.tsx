@@ -0,0 +1,51 @@
+import { useMemo } from 'react';
+import { useBlobBytes } from './useBlobBytes';
+import type { PreviewProps } from './FilePreview';
+
+const MAX_HEX_BYTES = 64 * 1024;
+const BYTES_PER_ROW = 16;
+
+function formatHexDump(data: Uint8Array): string {
+    const lines: string[] = [];
+    for (let offset = 0; offset < data.length; offset += BYTES_PER_ROW) {
+        const row = data.subarray(offset, offset + BYTES_PER_ROW);
+        let hex = '';
+        let ascii = '';
+        for (let i = 0; i < BYTES_PER_ROW; i++) {
+            if (i === BYTES_PER_ROW / 2) hex += ' ';
+            if (i < row.length) {
+                hex += row[i].toString(16).padStart(2, '0') + ' ';
+                ascii += row[i] >= 0x20 && row[i] < 0x7f ? String.fromCharCode(row[i]) : '.';
+            } else {
+                hex += '   ';
+            }
+        }
+        lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex} |${ascii}|`);
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Hex dump of the start of a file, for types with no other previewer
+ */
+export function HexPreview({ blob }: PreviewProps) {
+    const { data, error } = useBlobBytes(blob, MAX_HEX_BYTES);
+    const dump = useMemo(() => (data ? formatHexDump(data) : null), [data]);
+
+    if (error) {
+        return (
+            <div className="preview-message error">
+                <span>{error}</span>
+            </div>
+        );
+    }
+
+    return (
+        <>
+            <p className="preview-note">
+                No previewer for this file type, showing {blob && blob.size > MAX_HEX_BYTES ? `the first ${MAX_HEX_BYTES / 1024} KB` : 'its bytes'} as hex.
+            </p>
+            {dump !== null && <pre className="preview-media code-preview hex-preview">{dump}</pre>}
+        </>
+    );
+}
@@ -0,0 +1,48 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { getMalformedEvents, subscribeMalformedEvents } from '../lib/malformedEvents';
+import { formatIssues } from '../lib/schema';
+import { EVENT_KINDS } from '../lib/types';
+import './MalformedEventsNotice.css';
+
+interface MalformedEventsNoticeProps {
+    pubkey: string;
+}
+
+const KIND_LABELS: Record<number, string> = {
+    [EVENT_KINDS.INDEX]: 'File index',
+    [EVENT_KINDS.MANIFEST]: 'Manifest',
+};
+
+/**
+ * Lists this author's events that were skipped because their content could not be read
+ * Renders nothing while there are none.
+ */
+export function MalformedEventsNotice({ pubkey }: MalformedEventsNoticeProps) {
+    const reports = useSyncExternalStore(subscribeMalformedEvents, getMalformedEvents);
+    const events = useMemo(() => reports.filter(report => report.pubkey === pubkey), [reports, pubkey]);
+
+    if (events.length === 0) return null;
+
+    return (
+        <details className="malformed-notice">
+            <summary>
+                ⚠️ {events.length} {events.length === 1 ? 'event' : 'events'} from this author could not be read
+            </summary>
+            <ul>
+                {events.map(event => (
+                    <li key={event.eventId}>
+                        <p>
+                            <strong>{KIND_LABELS[event.kind] ?? `Kind ${event.kind}`}</strong>
+                            {event.dTag && <code>{event.dTag}</code>}
+                        </p>
+                        <p className="malformed-issues">{formatIssues(event.issues, 10)}</p>
+                        <p className="malformed-meta">
+                            Event <code>{event.eventId.slice(0, 12)}…</code>
+                            {event.relays.length > 0 && <> from {event.relays.join(', ')}</>}
+                        </p>
+                    </li>
+                ))}
+            </ul>
+        </details>
+    );
+}
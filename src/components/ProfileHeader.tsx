@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { createPool, fetchAuthorProfile, getAuthorIndexRelays, type AuthorProfile } from '../lib/nostr';
+import { getIndexRelays } from '../lib/relaySettings';
+import { verifyNip05 } from '../lib/keys';
+import { recordProfileName } from '../lib/history';
+import './ProfileHeader.css';
+
+interface ProfileHeaderProps {
+    pubkey: string;
+    relayHints: string[];
+}
+
+type Nip05Status = 'checking' | 'verified' | 'failed';
+
+const NIP05_TITLES: Record<Nip05Status, string> = {
+    checking: 'Checking NIP-05 address...',
+    verified: "Verified: the domain's nostr.json lists this public key",
+    failed: "Not verified: the domain's nostr.json does not list this public key",
+};
+
+/**
+ * Author's name, avatar, NIP-05 status and about text from their kind 0 metadata
+ * Renders nothing until a profile is found.
+ */
+export function ProfileHeader({ pubkey, relayHints }: ProfileHeaderProps) {
+    const [profile, setProfile] = useState<{ pubkey: string; data: AuthorProfile } | null>(null);
+    const [nip05Status, setNip05Status] = useState<{ pubkey: string; status: Nip05Status } | null>(null);
+    const [avatarFailed, setAvatarFailed] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isMounted = true;
+        const pool = createPool();
+        let relays = [...relayHints, ...getIndexRelays()];
+
+        getAuthorIndexRelays(pool, relays, pubkey)
+            .then((authorRelays) => {
+                relays = authorRelays;
+                return fetchAuthorProfile(pool, relays, pubkey);
+            })
+            .then((result) => {
+                if (!isMounted || !result) return;
+                setProfile({ pubkey, data: result });
+                const name = result.displayName ?? result.name;
+                if (name) recordProfileName(pubkey, name);
+                if (!result.nip05) return;
+
+                setNip05Status({ pubkey, status: 'checking' });
+                verifyNip05(pubkey, result.nip05).then((valid) => {
+                    if (isMounted) setNip05Status({ pubkey, status: valid ? 'verified' : 'failed' });
+                });
+            })
+            .catch((err) => {
+                console.warn('[ProfileHeader] Failed to load profile:', err);
+            })
+            .finally(() => {
+                pool.close(relays);
+            });
+
+        return () => {
+            isMounted = false;
+        };
+    }, [pubkey, relayHints]);
+
+    // Ignore results left over from the previous author while the next one loads
+    const data = profile?.pubkey === pubkey ? profile.data : null;
+    if (!data) return null;
+
+    const status = nip05Status?.pubkey === pubkey ? nip05Status.status : 'checking';
+    const title = data.displayName ?? data.name;
+    const showAvatar = data.picture && avatarFailed !== data.picture;
+
+    return (
+        <div className="profile-header">
+            {showAvatar && (
+                <img
+                    className="profile-avatar"
+                    src={data.picture}
+                    alt=""
+                    referrerPolicy="no-referrer"
+                    onError={() => setAvatarFailed(data.picture ?? null)}
+                />
+            )}
+            <div className="profile-text">
+                {title && (
+                    <p className="profile-name">
+                        {title}
+                        {data.name && data.displayName && data.name !== data.displayName && (
+                            <span className="profile-handle">@{data.name}</span>
+                        )}
+                    </p>
+                )}
+                {data.nip05 && (
+                    <p className={`profile-nip05 ${status}`} title={NIP05_TITLES[status]}>
+                        {status === 'verified' ? '✓ ' : status === 'failed' ? '⚠️ ' : ''}
+                        {data.nip05.startsWith('_@') ? data.nip05.slice(2) : data.nip05}
+                    </p>
+                )}
+                {data.about && <p className="profile-about">{data.about}</p>}
+            </div>
+        </div>
+    );
+}
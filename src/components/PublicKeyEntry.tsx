@@ -1,23 +1,97 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useSyncExternalStore } from 'react';
+import { Link } from 'react-router-dom';
 import {
     normalizeToPublicKey,
     clearSecretKey,
     publicKeyToNpub,
     isValidNpub,
+    isValidNprofile,
     isValidNsec,
-    isValidHexPubkey
+    isValidHexPubkey,
+    isNip05Identifier,
+    resolveNip05
 } from '../lib/keys';
+import { clearHistory, loadHistory, setFileStarred, subscribeHistory, type StarredFile } from '../lib/history';
 import './PublicKeyEntry.css';
 
 interface PublicKeyEntryProps {
-    onSubmit: (pubkey: string) => void;
+    /** relays: hints from an nprofile or NIP-05 lookup, to search for the index first */
+    onSubmit: (pubkey: string, relays: string[]) => void;
+    onOpenFile: (file: StarredFile) => void;
 }
 
-export function PublicKeyEntry({ onSubmit }: PublicKeyEntryProps) {
+function shortNpub(pubkey: string): string {
+    const npub = publicKeyToNpub(pubkey);
+    return `${npub.slice(0, 12)}…${npub.slice(-6)}`;
+}
+
+/**
+ * Recently viewed keys and starred files, kept in localStorage (public keys only)
+ */
+function RecentHistory({ onSubmit, onOpenFile }: PublicKeyEntryProps) {
+    const { recentKeys, starredFiles } = useSyncExternalStore(subscribeHistory, loadHistory);
+    if (recentKeys.length === 0 && starredFiles.length === 0) return null;
+
+    const namesByPubkey = new Map(recentKeys.map(entry => [entry.pubkey, entry.name]));
+
+    return (
+        <div className="recent-history">
+            {starredFiles.length > 0 && (
+                <section>
+                    <h2>Starred files</h2>
+                    <ul>
+                        {starredFiles.map(file => (
+                            <li key={`${file.pubkey}:${file.fileHash}`}>
+                                <button type="button" className="history-entry" onClick={() => onOpenFile(file)}>
+                                    <span className="history-title">★ {file.fileName}</span>
+                                    <span className="history-subtitle">
+                                        {namesByPubkey.get(file.pubkey) ?? shortNpub(file.pubkey)}
+                                    </span>
+                                </button>
+                                <button
+                                    type="button"
+                                    className="history-remove"
+                                    onClick={() => setFileStarred(file, false)}
+                                    title="Unstar"
+                                    aria-label={`Unstar ${file.fileName}`}
+                                >
+                                    ×
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
+            {recentKeys.length > 0 && (
+                <section>
+                    <h2>Recently viewed</h2>
+                    <ul>
+                        {recentKeys.map(entry => (
+                            <li key={entry.pubkey}>
+                                <button type="button" className="history-entry" onClick={() => onSubmit(entry.pubkey, entry.relays)}>
+                                    <span className="history-title">{entry.name ?? shortNpub(entry.pubkey)}</span>
+                                    {entry.name && <span className="history-subtitle">{shortNpub(entry.pubkey)}</span>}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
+            <button type="button" className="history-clear" onClick={clearHistory}>
+                Clear history
+            </button>
+        </div>
+    );
+}
+
+export function PublicKeyEntry({ onSubmit, onOpenFile }: PublicKeyEntryProps) {
     const [input, setInput] = useState('');
     const [displayNpub, setDisplayNpub] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [wasNsec, setWasNsec] = useState(false);
+    const [resolving, setResolving] = useState(false);
 
 
     const processInputValue = useCallback((value: string) => {
@@ -58,20 +132,27 @@ export function PublicKeyEntry({ onSubmit }: PublicKeyEntryProps) {
 
 
 
-    const handleSubmit = useCallback((e: React.FormEvent) => {
+    const handleSubmit = useCallback(async (e: React.FormEvent) => {
         e.preventDefault();
         setError(null);
 
         try {
             let pubkey: string;
+            let relays: string[] = [];
 
             if (displayNpub) {
                 // Already converted from nsec
                 const result = normalizeToPublicKey(displayNpub);
                 pubkey = result.pubkey;
+            } else if (isNip05Identifier(input.trim())) {
+                setResolving(true);
+                const result = await resolveNip05(input.trim());
+                pubkey = result.pubkey;
+                relays = result.relays;
             } else if (input.trim()) {
                 const result = normalizeToPublicKey(input.trim());
                 pubkey = result.pubkey;
+                relays = result.relays;
 
                 // Clear any secret key that was generated
                 if (result.secretKey) {
@@ -82,13 +163,20 @@ export function PublicKeyEntry({ onSubmit }: PublicKeyEntryProps) {
                 return;
             }
 
-            onSubmit(pubkey);
+            onSubmit(pubkey, relays);
         } catch (err) {
             setError(err instanceof Error ? err.message : 'Invalid key format');
+        } finally {
+            setResolving(false);
         }
     }, [input, displayNpub, onSubmit]);
 
-    const isValid = displayNpub || isValidNpub(input.trim()) || isValidHexPubkey(input.trim());
+    const trimmedInput = input.trim();
+    const isValid = displayNpub
+        || isValidNpub(trimmedInput)
+        || isValidNprofile(trimmedInput)
+        || isValidHexPubkey(trimmedInput)
+        || isNip05Identifier(trimmedInput);
 
     return (
         <div className="public-key-entry">
@@ -106,13 +194,13 @@ export function PublicKeyEntry({ onSubmit }: PublicKeyEntryProps) {
 
                 <form onSubmit={handleSubmit} className="entry-form">
                     <div className="input-group">
-                        <label htmlFor="key-input">Enter Public or Private Key</label>
+                        <label htmlFor="key-input">Enter a Key or NIP-05 Address</label>
                         <input
                             id="key-input"
                             type="password"
                             value={input}
                             onChange={handleInputChange}
-                            placeholder="npub1... or nsec1... (will be converted)"
+                            placeholder="npub1..., nprofile1..., name@domain or nsec1... (will be converted)"
                             className={error ? 'error' : ''}
                             autoComplete="new-password"
                             spellCheck={false}
@@ -132,12 +220,14 @@ export function PublicKeyEntry({ onSubmit }: PublicKeyEntryProps) {
                     <button
                         type="submit"
                         className="browse-button"
-                        disabled={!isValid && !displayNpub}
+                        disabled={(!isValid && !displayNpub) || resolving}
                     >
-                        Browse Files
+                        {resolving ? 'Looking up address...' : 'Browse Files'}
                     </button>
                 </form>
 
+                <RecentHistory onSubmit={onSubmit} onOpenFile={onOpenFile} />
+
                 <div className="security-notice">
                     <span className="security-icon">🔐</span>
                     <span>
@@ -145,6 +235,14 @@ export function PublicKeyEntry({ onSubmit }: PublicKeyEntryProps) {
                         They are never stored or transmitted.
                     </span>
                 </div>
+
+                <Link className="settings-link" to="/upload">
+                    ⬆️ Upload a file
+                </Link>
+
+                <Link className="settings-link" to="/settings">
+                    ⚙️ Settings
+                </Link>
             </div>
         </div>
     );
@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import {
+    loadRelayConfigs,
+    normalizeRelayUrl,
+    resetRelayConfigs,
+    saveRelayConfigs,
+    subscribeRelayConfigs,
+    type RelayConfig,
+    type RelayUsage
+} from '../lib/relaySettings';
+import { getRelayStatuses, probeRelay, subscribeRelayStatuses, type RelayStatus } from '../lib/relayHealth';
+
+const HEALTH_CHECK_INTERVAL = 30000;
+
+const USAGE_LABELS: Record<RelayUsage, string> = {
+    both: 'Index + data',
+    index: 'Index only',
+    data: 'Data only',
+};
+
+function describeStatus(status: RelayStatus | undefined): { label: string; className: string } {
+    if (!status) return { label: 'Not checked', className: 'status-unknown' };
+    if (status.state === 'checking') return { label: 'Checking...', className: 'status-unknown' };
+    if (status.state === 'connected') return { label: `Connected • ${status.latency} ms`, className: 'status-ok' };
+    return { label: 'Unreachable', className: 'status-error' };
+}
+
+export function RelaySettings() {
+    const relays = useSyncExternalStore(subscribeRelayConfigs, loadRelayConfigs);
+    const statuses = useSyncExternalStore(subscribeRelayStatuses, getRelayStatuses);
+    const [newRelay, setNewRelay] = useState('');
+    const [error, setError] = useState<string | null>(null);
+
+    const checkAll = useCallback(() => {
+        loadRelayConfigs()
+            .filter(relay => relay.enabled)
+            .forEach(relay => probeRelay(relay.url));
+    }, []);
+
+    useEffect(() => {
+        checkAll();
+        const timer = setInterval(checkAll, HEALTH_CHECK_INTERVAL);
+        return () => clearInterval(timer);
+    }, [checkAll, relays]);
+
+    const updateRelay = useCallback((url: string, changes: Partial<RelayConfig>) => {
+        saveRelayConfigs(loadRelayConfigs().map(relay => relay.url === url ? { ...relay, ...changes } : relay));
+    }, []);
+
+    const removeRelay = useCallback((url: string) => {
+        saveRelayConfigs(loadRelayConfigs().filter(relay => relay.url !== url));
+    }, []);
+
+    const handleAdd = useCallback((event: React.FormEvent) => {
+        event.preventDefault();
+        setError(null);
+
+        let url: string;
+        try {
+            url = normalizeRelayUrl(newRelay);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Invalid relay URL');
+            return;
+        }
+
+        const current = loadRelayConfigs();
+        if (current.some(relay => relay.url === url)) {
+            setError('Relay is already in the list');
+            return;
+        }
+
+        saveRelayConfigs([...current, { url, enabled: true, usage: 'both' }]);
+        setNewRelay('');
+    }, [newRelay]);
+
+    return (
+        <section className="settings-card">
+            <div className="card-header">
+                <h2>Relays</h2>
+                <button className="secondary-button" onClick={checkAll}>
+                    Check now
+                </button>
+            </div>
+
+            <p className="settings-muted">
+                Index relays are searched for file indexes and manifests. Data relays are searched for
+                file chunks, in addition to the relays listed in each file's manifest.
+            </p>
+
+            <ul className="settings-list">
+                {relays.map((relay) => {
+                    const status = statuses.get(relay.url);
+                    const { label, className } = describeStatus(relay.enabled ? status : undefined);
+                    return (
+                        <li key={relay.url} className={`settings-list-item${relay.enabled ? '' : ' is-disabled'}`}>
+                            <div className="settings-item-info">
+                                <label className="relay-toggle">
+                                    <input
+                                        type="checkbox"
+                                        checked={relay.enabled}
+                                        onChange={(event) => updateRelay(relay.url, { enabled: event.target.checked })}
+                                    />
+                                    <code>{relay.url}</code>
+                                </label>
+                                <span className={`relay-status ${className}`}>
+                                    {relay.enabled ? label : 'Disabled'}
+                                    {relay.enabled && status?.lastError && (
+                                        <span className="settings-muted"> • last error: {status.lastError}</span>
+                                    )}
+                                </span>
+                            </div>
+                            <div className="relay-actions">
+                                <select
+                                    value={relay.usage}
+                                    onChange={(event) => updateRelay(relay.url, { usage: event.target.value as RelayUsage })}
+                                >
+                                    {(Object.keys(USAGE_LABELS) as RelayUsage[]).map(usage => (
+                                        <option key={usage} value={usage}>{USAGE_LABELS[usage]}</option>
+                                    ))}
+                                </select>
+                                <button className="secondary-button" onClick={() => removeRelay(relay.url)}>
+                                    Remove
+                                </button>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+
+            <form className="settings-inline-form" onSubmit={handleAdd}>
+                <label htmlFor="new-relay">Add relay</label>
+                <input
+                    id="new-relay"
+                    className="relay-input"
+                    value={newRelay}
+                    onChange={(event) => setNewRelay(event.target.value)}
+                    placeholder="wss://relay.example.com"
+                    spellCheck={false}
+                />
+                <button type="submit" className="secondary-button">Add</button>
+                <button type="button" className="secondary-button" onClick={resetRelayConfigs}>
+                    Restore defaults
+                </button>
+            </form>
+
+            {error && <p className="error-text">{error}</p>}
+        </section>
+    );
+}
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { renderSVG } from 'uqr';
+import {
+    connectBunker,
+    isBunkerUri,
+    startNostrConnect,
+    type NostrConnectSession,
+    type RemoteSignerConnection,
+} from '../lib/keys';
+
+interface RemoteSignerConnectProps {
+    onConnected: (connection: RemoteSignerConnection) => void;
+}
+
+type ConnectState =
+    | { status: 'idle' }
+    | { status: 'connecting' }
+    | { status: 'pairing'; uri: string }
+    | { status: 'error'; message: string };
+
+// The signer may ask the user to approve in a browser window
+function openAuthWindow(url: string): void {
+    window.open(url, '_blank', 'noopener,width=600,height=800');
+}
+
+/**
+ * Connect a NIP-46 remote signer with a bunker:// URI or a nostrconnect:// QR code
+ */
+export function RemoteSignerConnect({ onConnected }: RemoteSignerConnectProps) {
+    const [bunkerInput, setBunkerInput] = useState('');
+    const [state, setState] = useState<ConnectState>({ status: 'idle' });
+    const [copied, setCopied] = useState(false);
+    const sessionRef = useRef<NostrConnectSession | null>(null);
+    const mountedRef = useRef(true);
+
+    useEffect(() => {
+        mountedRef.current = true;
+        return () => {
+            mountedRef.current = false;
+            sessionRef.current?.cancel();
+        };
+    }, []);
+
+    const qrSrc = useMemo(() => {
+        if (state.status !== 'pairing') return null;
+        const svg = renderSVG(state.uri, { border: 2 });
+        return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    }, [state]);
+
+    const handleBunkerSubmit = useCallback(async (event: React.FormEvent) => {
+        event.preventDefault();
+        const input = bunkerInput.trim();
+        if (!isBunkerUri(input) && !input.includes('@')) {
+            setState({ status: 'error', message: 'Enter a bunker:// URI or a NIP-05 bunker address' });
+            return;
+        }
+
+        setState({ status: 'connecting' });
+        try {
+            const connection = await connectBunker(input, { onauth: openAuthWindow });
+            if (!mountedRef.current) {
+                await connection.close();
+                return;
+            }
+            setBunkerInput('');
+            setState({ status: 'idle' });
+            onConnected(connection);
+        } catch (err) {
+            if (mountedRef.current) {
+                setState({ status: 'error', message: err instanceof Error ? err.message : 'Failed to connect' });
+            }
+        }
+    }, [bunkerInput, onConnected]);
+
+    const handlePair = useCallback(async () => {
+        sessionRef.current?.cancel();
+        const session = startNostrConnect({ onauth: openAuthWindow });
+        sessionRef.current = session;
+        setCopied(false);
+        setState({ status: 'pairing', uri: session.uri });
+
+        try {
+            const connection = await session.connection;
+            if (!mountedRef.current || sessionRef.current !== session) {
+                await connection.close();
+                return;
+            }
+            sessionRef.current = null;
+            setState({ status: 'idle' });
+            onConnected(connection);
+        } catch (err) {
+            if (mountedRef.current && sessionRef.current === session) {
+                sessionRef.current = null;
+                setState({ status: 'error', message: err instanceof Error ? err.message : 'Pairing failed' });
+            }
+        }
+    }, [onConnected]);
+
+    const handleCancelPairing = useCallback(() => {
+        sessionRef.current?.cancel();
+        sessionRef.current = null;
+        setState({ status: 'idle' });
+    }, []);
+
+    const handleCopy = useCallback(async () => {
+        if (state.status !== 'pairing') return;
+        try {
+            await navigator.clipboard.writeText(state.uri);
+            setCopied(true);
+        } catch {
+            setCopied(false);
+        }
+    }, [state]);
+
+    if (state.status === 'pairing') {
+        return (
+            <div className="remote-signer">
+                <p className="remote-signer-title">Scan with your signer app</p>
+                {qrSrc && <img className="nostrconnect-qr" src={qrSrc} alt="nostrconnect QR code" />}
+                <code className="nostrconnect-uri">{state.uri}</code>
+                <div className="button-row">
+                    <button type="button" className="secondary-button" onClick={handleCopy}>
+                        {copied ? 'Copied' : 'Copy URI'}
+                    </button>
+                    <button type="button" className="secondary-button" onClick={handleCancelPairing}>
+                        Cancel
+                    </button>
+                </div>
+                <p className="remote-signer-hint">Waiting for the signer to connect...</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="remote-signer">
+            <p className="remote-signer-title">Remote signer (NIP-46)</p>
+            <form onSubmit={handleBunkerSubmit} className="remote-signer-form">
+                <input
+                    type="text"
+                    value={bunkerInput}
+                    onChange={(event) => setBunkerInput(event.target.value)}
+                    placeholder="bunker://..."
+                    autoComplete="off"
+                    disabled={state.status === 'connecting'}
+                />
+                <button type="submit" className="secondary-button" disabled={state.status === 'connecting' || !bunkerInput.trim()}>
+                    {state.status === 'connecting' ? 'Connecting...' : 'Connect'}
+                </button>
+            </form>
+            <button
+                type="button"
+                className="secondary-button"
+                onClick={handlePair}
+                disabled={state.status === 'connecting'}
+            >
+                Show nostrconnect QR code
+            </button>
+            {state.status === 'error' && <span className="error-text">{state.message}</span>}
+        </div>
+    );
+}
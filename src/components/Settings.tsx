@@ -0,0 +1,274 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { Link } from 'react-router-dom';
+import {
+    clearChunkCache,
+    deleteCachedFile,
+    getChunkCacheLimit,
+    listCachedFiles,
+    setChunkCacheLimit,
+    type CachedFileInfo
+} from '../lib/chunkStore';
+import { publicKeyToNpub } from '../lib/keys';
+import { getRelayStats, rankRelays, resetRelayStats, subscribeRelayStats } from '../lib/relayStats';
+import { DEFAULT_FETCH_TIMEOUTS, getFetchTimeouts, resetFetchTimeouts, setFetchTimeouts } from '../lib/fetchSettings';
+import { formatBytes } from '../lib/format';
+import { RelaySettings } from './RelaySettings';
+import './Settings.css';
+
+function formatDate(timestamp: number): string {
+    return new Date(timestamp).toLocaleString();
+}
+
+function CacheSettings() {
+    const [files, setFiles] = useState<CachedFileInfo[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [limitInput, setLimitInput] = useState(() => String(Math.round(getChunkCacheLimit() / (1024 * 1024))));
+
+    const loadFiles = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            setFiles(await listCachedFiles());
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to read the chunk cache');
+            setFiles([]);
+        } finally {
+            setLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadFiles();
+    }, [loadFiles]);
+
+    const handleRemove = useCallback(async (file: CachedFileInfo) => {
+        await deleteCachedFile(file.pubkey, file.fileHash);
+        await loadFiles();
+    }, [loadFiles]);
+
+    const handleClear = useCallback(async () => {
+        await clearChunkCache();
+        await loadFiles();
+    }, [loadFiles]);
+
+    const handleLimitSubmit = useCallback(async (event: React.FormEvent) => {
+        event.preventDefault();
+        const megabytes = Number(limitInput);
+        if (!Number.isFinite(megabytes) || megabytes <= 0) {
+            setError('Cache limit must be a positive number of MB');
+            return;
+        }
+        await setChunkCacheLimit(megabytes * 1024 * 1024);
+        await loadFiles();
+    }, [limitInput, loadFiles]);
+
+    const totalBytes = files.reduce((acc, f) => acc + f.bytes, 0);
+
+    return (
+        <section className="settings-card">
+            <div className="card-header">
+                <h2>Cached files</h2>
+                <span className="settings-muted">
+                    {formatBytes(totalBytes)} of {formatBytes(getChunkCacheLimit())} used
+                </span>
+            </div>
+
+            <p className="settings-muted">
+                Fetched chunks are kept in this browser so interrupted downloads can resume.
+                Encrypted files are cached as ciphertext. Least recently used files are removed
+                when the cache is full.
+            </p>
+
+            <form className="settings-inline-form" onSubmit={handleLimitSubmit}>
+                <label htmlFor="cache-limit">Cache limit (MB)</label>
+                <input
+                    id="cache-limit"
+                    type="number"
+                    min="1"
+                    value={limitInput}
+                    onChange={(event) => setLimitInput(event.target.value)}
+                />
+                <button type="submit" className="secondary-button">Save</button>
+            </form>
+
+            {error && <p className="error-text">{error}</p>}
+
+            {loading ? (
+                <p className="settings-muted">Loading cache...</p>
+            ) : files.length === 0 ? (
+                <p className="settings-muted">No cached files.</p>
+            ) : (
+                <>
+                    <ul className="settings-list">
+                        {files.map((file) => (
+                            <li key={file.key} className="settings-list-item">
+                                <div className="settings-item-info">
+                                    <Link to={`/files/${publicKeyToNpub(file.pubkey)}/${file.fileHash}`}>
+                                        {file.fileName || file.fileHash}
+                                    </Link>
+                                    <span className="settings-muted">
+                                        {file.cachedChunks}/{file.totalChunks} chunks • {formatBytes(file.bytes)} • last used {formatDate(file.lastAccess)}
+                                    </span>
+                                </div>
+                                <button className="secondary-button" onClick={() => handleRemove(file)}>
+                                    Remove
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    <button className="secondary-button" onClick={handleClear}>
+                        Clear all cached files
+                    </button>
+                </>
+            )}
+        </section>
+    );
+}
+
+function TimeoutSettings() {
+    const [inactivityInput, setInactivityInput] = useState(() => String(getFetchTimeouts().inactivityMs / 1000));
+    const [maxTotalInput, setMaxTotalInput] = useState(() => String(getFetchTimeouts().maxTotalMs / 1000));
+    const [error, setError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        setSaved(false);
+        try {
+            setFetchTimeouts({
+                inactivityMs: Number(inactivityInput) * 1000,
+                maxTotalMs: Number(maxTotalInput) * 1000,
+            });
+            setError(null);
+            setSaved(true);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Could not save the timeouts');
+        }
+    };
+
+    const handleReset = () => {
+        resetFetchTimeouts();
+        setInactivityInput(String(DEFAULT_FETCH_TIMEOUTS.inactivityMs / 1000));
+        setMaxTotalInput(String(DEFAULT_FETCH_TIMEOUTS.maxTotalMs / 1000));
+        setError(null);
+        setSaved(false);
+    };
+
+    return (
+        <section className="settings-card">
+            <div className="card-header">
+                <h2>Fetch timeouts</h2>
+                <button className="secondary-button" onClick={handleReset}>
+                    Reset
+                </button>
+            </div>
+
+            <p className="settings-muted">
+                How long to keep listening for chunks. Raise these for slow relays; lower them to
+                give up sooner on flaky connections. Chunks still missing afterwards are requested
+                by event id. Applies to fetches started after saving.
+            </p>
+
+            <form className="settings-inline-form" onSubmit={handleSubmit}>
+                <label htmlFor="inactivity-timeout">Give up after silence (s)</label>
+                <input
+                    id="inactivity-timeout"
+                    type="number"
+                    min="1"
+                    step="any"
+                    value={inactivityInput}
+                    onChange={(event) => setInactivityInput(event.target.value)}
+                />
+                <label htmlFor="total-timeout">Total limit (s)</label>
+                <input
+                    id="total-timeout"
+                    type="number"
+                    min="1"
+                    step="any"
+                    value={maxTotalInput}
+                    onChange={(event) => setMaxTotalInput(event.target.value)}
+                />
+                <button type="submit" className="secondary-button">Save</button>
+            </form>
+
+            {error && <p className="error-text">{error}</p>}
+            {saved && <p className="settings-muted">Saved.</p>}
+        </section>
+    );
+}
+
+function RelayStatsSettings() {
+    const stats = useSyncExternalStore(subscribeRelayStats, getRelayStats);
+    const ranked = rankRelays(Array.from(stats.keys()));
+
+    return (
+        <section className="settings-card">
+            <div className="card-header">
+                <h2>Relay performance</h2>
+                {ranked.length > 0 && (
+                    <button className="secondary-button" onClick={resetRelayStats}>
+                        Reset
+                    </button>
+                )}
+            </div>
+
+            <p className="settings-muted">
+                Which relays delivered chunks, how often they lacked a chunk they were asked for,
+                and how fast they answered. Chunks are requested from the best relays first.
+            </p>
+
+            {ranked.length === 0 ? (
+                <p className="settings-muted">No chunks fetched yet.</p>
+            ) : (
+                <ul className="settings-list">
+                    {ranked.map((url) => {
+                        const entry = stats.get(url);
+                        if (!entry) return null;
+                        const missRate = entry.requested > 0 ? Math.round((entry.missed / entry.requested) * 100) : null;
+                        return (
+                            <li key={url} className="settings-list-item">
+                                <div className="settings-item-info">
+                                    <code>{url}</code>
+                                    <span className="settings-muted">
+                                        {entry.delivered} delivered
+                                        {missRate !== null && ` • ${missRate}% missed`}
+                                        {entry.failed > 0 && ` • ${entry.failed} failed verification`}
+                                        {entry.latencyMs !== undefined && ` • ~${entry.latencyMs} ms`}
+                                        {` • last used ${formatDate(entry.lastUsedAt)}`}
+                                    </span>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </section>
+    );
+}
+
+export function Settings() {
+    return (
+        <div className="settings-container">
+            <header className="file-list-header">
+                <Link className="back-button" to="/">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polyline points="15,18 9,12 15,6" />
+                    </svg>
+                    Back
+                </Link>
+
+                <div className="header-info">
+                    <h1>Settings</h1>
+                </div>
+            </header>
+
+            <main className="settings-content">
+                <RelaySettings />
+                <RelayStatsSettings />
+                <TimeoutSettings />
+                <CacheSettings />
+            </main>
+        </div>
+    );
+}
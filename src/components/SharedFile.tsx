@@ -0,0 +1,87 @@
+import { useEffect, useMemo, useState } from 'react';
+import { createPool, findManifest, type ManifestLookup } from '../lib/nostr';
+import { getIndexRelays } from '../lib/relaySettings';
+import { decodeManifestAddress, type ManifestAddress } from '../lib/shareLinks';
+import { publicKeyToNpub } from '../lib/keys';
+import { FileDetail } from './FileDetail';
+import './FileDetail.css';
+
+interface SharedFileProps {
+    naddr: string;
+}
+
+type ResolveState =
+    | { status: 'loading' }
+    | { status: 'ready'; lookup: ManifestLookup }
+    | { status: 'error'; message: string };
+
+function decodeAddress(naddr: string): { address: ManifestAddress | null; error: string | null } {
+    try {
+        return { address: decodeManifestAddress(naddr), error: null };
+    } catch (err) {
+        return { address: null, error: err instanceof Error ? err.message : 'Invalid share link' };
+    }
+}
+
+/**
+ * File page opened from a share link: finds the manifest on the link's relays
+ * first, then shows it like any other file
+ */
+export function SharedFile({ naddr }: SharedFileProps) {
+    const { address, error: decodeError } = useMemo(() => decodeAddress(naddr), [naddr]);
+    const [state, setState] = useState<ResolveState>({ status: 'loading' });
+
+    useEffect(() => {
+        if (!address) return;
+        let isMounted = true;
+
+        const pool = createPool();
+        findManifest(pool, getIndexRelays(), address.pubkey, { identifier: address.identifier }, address.relays)
+            .then((lookup) => {
+                if (!isMounted) return;
+                setState(lookup
+                    ? { status: 'ready', lookup }
+                    : { status: 'error', message: 'The shared file could not be found on its relays.' });
+            })
+            .catch((err) => {
+                if (isMounted) setState({ status: 'error', message: err instanceof Error ? err.message : 'Failed to load file info.' });
+            })
+            .finally(() => {
+                pool.destroy();
+            });
+
+        return () => {
+            isMounted = false;
+        };
+    }, [address]);
+
+    if (!address || state.status === 'error') {
+        return (
+            <div className="route-error">
+                <h2>Shared file unavailable</h2>
+                <p>{decodeError ?? (state.status === 'error' ? state.message : 'Please check the link and try again.')}</p>
+            </div>
+        );
+    }
+
+    if (state.status === 'loading') {
+        return (
+            <div className="file-detail-container">
+                <div className="loading-state">
+                    <div className="spinner"></div>
+                    <p>Looking up shared file...</p>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <FileDetail
+            pubkey={address.pubkey}
+            npub={publicKeyToNpub(address.pubkey)}
+            fileHash={state.lookup.manifest.file_hash}
+            relayHints={address.relays}
+            resolvedManifest={state.lookup}
+        />
+    );
+}
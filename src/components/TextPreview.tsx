@@ -0,0 +1,104 @@
+import { useMemo } from 'react';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import hljs from 'highlight.js/lib/common';
+import 'highlight.js/styles/github-dark.css';
+import { getCodeLanguage } from '../lib/mimeTypes';
+import { useBlobBytes } from './useBlobBytes';
+import type { PreviewProps } from './FilePreview';
+
+// Text beyond this is cut off; rendering or highlighting more would stall the page
+const MAX_TEXT_BYTES = 2 * 1024 * 1024;
+const MAX_HIGHLIGHT_BYTES = 512 * 1024;
+
+function useBlobText(blob: Blob | null): { text: string | null; truncated: boolean; error: string | null } {
+    const { data, error } = useBlobBytes(blob, MAX_TEXT_BYTES);
+    const text = useMemo(() => (data ? new TextDecoder().decode(data) : null), [data]);
+    return { text, truncated: !!blob && blob.size > MAX_TEXT_BYTES, error };
+}
+
+function TextStatus({ error, truncated }: { error: string | null; truncated: boolean }) {
+    if (error) {
+        return (
+            <div className="preview-message error">
+                <span>{error}</span>
+            </div>
+        );
+    }
+    if (truncated) {
+        return <p className="preview-note">Showing the first {MAX_TEXT_BYTES / (1024 * 1024)} MB.</p>;
+    }
+    return null;
+}
+
+/**
+ * Plain text in a scrollable block
+ */
+export function TextPreview({ blob }: PreviewProps) {
+    const { text, truncated, error } = useBlobText(blob);
+    return (
+        <>
+            <TextStatus error={error} truncated={truncated} />
+            {text !== null && <pre className="preview-media code-preview">{text}</pre>}
+        </>
+    );
+}
+
+/**
+ * Source code with syntax highlighting; JSON is pretty-printed first
+ */
+export function CodePreview({ blob, fileName }: PreviewProps) {
+    const { text, truncated, error } = useBlobText(blob);
+    const language = getCodeLanguage(fileName);
+
+    const highlighted = useMemo(() => {
+        if (text === null || text.length > MAX_HIGHLIGHT_BYTES) return null;
+        let source = text;
+        if (language === 'json' && !truncated) {
+            try {
+                source = JSON.stringify(JSON.parse(text), null, 2);
+            } catch {
+                // Show malformed JSON as-is
+            }
+        }
+        // highlight.js escapes the source, so its output is safe to inject
+        return language && hljs.getLanguage(language)
+            ? hljs.highlight(source, { language }).value
+            : hljs.highlightAuto(source).value;
+    }, [language, text, truncated]);
+
+    return (
+        <>
+            <TextStatus error={error} truncated={truncated} />
+            {highlighted !== null ? (
+                <pre className="preview-media code-preview hljs">
+                    <code dangerouslySetInnerHTML={{ __html: highlighted }} />
+                </pre>
+            ) : (
+                text !== null && <pre className="preview-media code-preview">{text}</pre>
+            )}
+        </>
+    );
+}
+
+/**
+ * Rendered Markdown, sanitized before it reaches the DOM
+ */
+export function MarkdownPreview({ blob }: PreviewProps) {
+    const { text, truncated, error } = useBlobText(blob);
+
+    const html = useMemo(() => {
+        if (text === null) return null;
+        const rendered = marked.parse(text, { async: false, gfm: true });
+        return DOMPurify.sanitize(rendered);
+    }, [text]);
+
+    return (
+        <>
+            <TextStatus error={error} truncated={truncated} />
+            {html !== null && (
+                <div className="preview-media markdown-preview" dangerouslySetInnerHTML={{ __html: html }} />
+            )}
+        </>
+    );
+}
@@ -0,0 +1,289 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { clearSecretKey, isValidNsec, nsecToSecretKey, publicKeyToNpub } from '../lib/keys';
+import { createExtensionSigner, detectNip07Extension } from '../lib/nip07';
+import { getDataRelays, getIndexRelays } from '../lib/relaySettings';
+import {
+    createSecretKeySigner,
+    uploadFile,
+    type EventSigner,
+    type UploadProgress,
+    type UploadStage
+} from '../lib/upload';
+import type { Manifest } from '../lib/types';
+import { formatBytes } from '../lib/format';
+import './Upload.css';
+
+type SignerMode = 'extension' | 'nsec';
+
+type UploadState =
+    | { status: 'idle' }
+    | { status: 'uploading'; progress: UploadProgress }
+    | { status: 'complete'; manifest: Manifest; archived: boolean }
+    | { status: 'error'; message: string };
+
+const STAGE_LABELS: Record<UploadStage, string> = {
+    hashing: 'Hashing file',
+    chunks: 'Publishing chunks',
+    manifest: 'Publishing manifest',
+    index: 'Updating your file index',
+};
+
+function describeProgress({ stage, done, total }: UploadProgress): string {
+    if (stage === 'hashing') return `${STAGE_LABELS.hashing} (${formatBytes(done)} of ${formatBytes(total)})`;
+    if (stage === 'chunks') return `${STAGE_LABELS.chunks} (${done}/${total})`;
+    return `${STAGE_LABELS[stage]}...`;
+}
+
+/**
+ * Publish a file from the browser in nostrsave's format
+ */
+export function Upload() {
+    const [file, setFile] = useState<File | null>(null);
+    const [mode, setMode] = useState<SignerMode>('nsec');
+    const [encrypt, setEncrypt] = useState(false);
+    const [nsecInput, setNsecInput] = useState('');
+    const [nsecError, setNsecError] = useState<string | null>(null);
+    const [extensionAvailable, setExtensionAvailable] = useState<boolean | null>(null);
+    const [state, setState] = useState<UploadState>({ status: 'idle' });
+    const [ownerPubkey, setOwnerPubkey] = useState<string | null>(null);
+    const controllerRef = useRef<AbortController | null>(null);
+
+    useEffect(() => {
+        let isMounted = true;
+        detectNip07Extension().then((available) => {
+            if (!isMounted) return;
+            setExtensionAvailable(available);
+            if (available) setMode('extension');
+        });
+        return () => {
+            isMounted = false;
+            controllerRef.current?.abort();
+        };
+    }, []);
+
+    /**
+     * Build the signer for the chosen mode; the nsec field is cleared either way
+     */
+    const openSigner = useCallback(async (): Promise<EventSigner | null> => {
+        if (mode === 'extension') return createExtensionSigner();
+
+        const trimmed = nsecInput.trim();
+        setNsecInput('');
+        setNsecError(null);
+        if (!isValidNsec(trimmed)) {
+            setNsecError('Invalid nsec format');
+            return null;
+        }
+        let secretKey: Uint8Array;
+        try {
+            secretKey = nsecToSecretKey(trimmed);
+        } catch {
+            setNsecError('Failed to decode nsec');
+            return null;
+        }
+        // The signer keeps its own copy until the upload ends
+        const signer = createSecretKeySigner(secretKey);
+        clearSecretKey(secretKey);
+        return signer;
+    }, [mode, nsecInput]);
+
+    const handleSubmit = useCallback(async (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!file) return;
+
+        let signer: EventSigner | null;
+        try {
+            signer = await openSigner();
+        } catch (err) {
+            setState({ status: 'error', message: err instanceof Error ? err.message : 'Could not connect to the signer.' });
+            return;
+        }
+        if (!signer) return;
+
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        setOwnerPubkey(signer.pubkey);
+        setState({ status: 'uploading', progress: { stage: 'hashing', done: 0, total: file.size } });
+
+        try {
+            const result = await uploadFile(file, signer, {
+                encrypt: mode === 'nsec' && encrypt,
+                abortSignal: controller.signal,
+                onProgress: (progress) => {
+                    if (!controller.signal.aborted) setState({ status: 'uploading', progress });
+                },
+            });
+            if (controller.signal.aborted) return;
+            setState({ status: 'complete', manifest: result.manifest, archived: result.archived });
+        } catch (err) {
+            if (controller.signal.aborted) return;
+            setState({ status: 'error', message: err instanceof Error ? err.message : 'Upload failed.' });
+        } finally {
+            signer.close();
+            if (controllerRef.current === controller) controllerRef.current = null;
+        }
+    }, [encrypt, file, mode, openSigner]);
+
+    const handleCancel = useCallback(() => {
+        controllerRef.current?.abort();
+        setState({ status: 'idle' });
+    }, []);
+
+    const uploading = state.status === 'uploading';
+    const progress = state.status === 'uploading' && state.progress.total > 0
+        ? state.progress.done / state.progress.total
+        : 0;
+
+    return (
+        <div className="settings-container">
+            <header className="file-list-header">
+                <Link className="back-button" to="/">
+                    <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                        <polyline points="15,18 9,12 15,6" />
+                    </svg>
+                    Back
+                </Link>
+
+                <div className="header-info">
+                    <h1>Upload</h1>
+                </div>
+            </header>
+
+            <main className="settings-content">
+                <section className="settings-card">
+                    <form className="key-form" onSubmit={handleSubmit}>
+                        <div className="input-group">
+                            <label htmlFor="upload-file">File</label>
+                            <input
+                                id="upload-file"
+                                type="file"
+                                onChange={(event) => setFile(event.target.files?.[0] ?? null)}
+                                disabled={uploading}
+                            />
+                            {file && <span className="settings-muted">{file.name} • {formatBytes(file.size)}</span>}
+                        </div>
+
+                        <div className="upload-signer">
+                            <label>
+                                <input
+                                    type="radio"
+                                    name="signer"
+                                    checked={mode === 'extension'}
+                                    onChange={() => setMode('extension')}
+                                    disabled={uploading}
+                                />
+                                Sign with browser extension (NIP-07)
+                            </label>
+                            <label>
+                                <input
+                                    type="radio"
+                                    name="signer"
+                                    checked={mode === 'nsec'}
+                                    onChange={() => setMode('nsec')}
+                                    disabled={uploading}
+                                />
+                                Sign with private key (nsec)
+                            </label>
+                            {mode === 'extension' && extensionAvailable === false && (
+                                <span className="settings-muted">
+                                    No NIP-07 signer extension detected. Install one (e.g. Alby or nos2x) or use your nsec.
+                                </span>
+                            )}
+                        </div>
+
+                        {mode === 'nsec' && (
+                            <div className="input-group">
+                                <label htmlFor="upload-nsec">Private key (nsec)</label>
+                                <input
+                                    id="upload-nsec"
+                                    type="password"
+                                    value={nsecInput}
+                                    onChange={(event) => setNsecInput(event.target.value)}
+                                    placeholder="nsec1..."
+                                    autoComplete="off"
+                                    className={nsecError ? 'error' : ''}
+                                    disabled={uploading}
+                                />
+                                {nsecError && <span className="error-text">{nsecError}</span>}
+                            </div>
+                        )}
+
+                        <label className="upload-encrypt">
+                            <input
+                                type="checkbox"
+                                checked={mode === 'nsec' && encrypt}
+                                onChange={(event) => setEncrypt(event.target.checked)}
+                                disabled={uploading || mode !== 'nsec'}
+                            />
+                            Encrypt with NIP-44 (only your key can decrypt it)
+                        </label>
+                        {mode !== 'nsec' && (
+                            <span className="settings-muted">
+                                Extensions can only encrypt text, so encrypted uploads need your nsec.
+                            </span>
+                        )}
+
+                        {mode === 'nsec' && (
+                            <div className="security-note">
+                                <span>🔐</span>
+                                <span>Your key signs the upload in this tab and is erased when it finishes.</span>
+                            </div>
+                        )}
+
+                        <p className="settings-muted upload-relays">
+                            Chunks go to {getDataRelays().join(', ')}. The manifest and your file index go
+                            to {getIndexRelays().join(', ')} and your NIP-65 write relays.
+                        </p>
+
+                        {!uploading && (
+                            <button
+                                type="submit"
+                                className="primary-button"
+                                disabled={!file || (mode === 'nsec' && !nsecInput.trim())}
+                            >
+                                Upload
+                            </button>
+                        )}
+                    </form>
+
+                    {state.status === 'uploading' && (
+                        <div className="progress-view">
+                            <div className="spinner"></div>
+                            <p>{describeProgress(state.progress)}</p>
+                            <div className="progress-bar">
+                                <div className="progress-fill" style={{ width: `${progress * 100}%` }}></div>
+                            </div>
+                            <button className="secondary-button" onClick={handleCancel}>
+                                Cancel upload
+                            </button>
+                        </div>
+                    )}
+
+                    {state.status === 'complete' && ownerPubkey && (
+                        <div className="success-view">
+                            <span className="success-icon">✅</span>
+                            <p>Uploaded {state.manifest.file_name}.</p>
+                            {state.archived && (
+                                <p className="settings-muted">Your index was full, so its previous entries moved to a new archive page.</p>
+                            )}
+                            <Link
+                                className="secondary-button"
+                                to={`/files/${publicKeyToNpub(ownerPubkey)}/${state.manifest.file_hash}`}
+                            >
+                                View file
+                            </Link>
+                        </div>
+                    )}
+
+                    {state.status === 'error' && (
+                        <div className="error-view">
+                            <span className="error-icon">❌</span>
+                            <p>{state.message}</p>
+                        </div>
+                    )}
+                </section>
+            </main>
+        </div>
+    );
+}
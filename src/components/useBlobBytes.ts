@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Read a preview Blob into memory
+ * The copy is zeroed when the blob changes or the viewer unmounts, so decrypted
+ * previews don't linger after the user leaves them.
+ *
+ * @param maxBytes Only read this many bytes from the start of the blob
+ */
+export function useBlobBytes(blob: Blob | null, maxBytes = Infinity): {
+    data: Uint8Array | null;
+    error: string | null;
+} {
+    const [state, setState] = useState<{ blob: Blob | null; data: Uint8Array | null; error: string | null }>({
+        blob: null,
+        data: null,
+        error: null,
+    });
+
+    useEffect(() => {
+        if (!blob) return;
+        let isMounted = true;
+        let loaded: Uint8Array | null = null;
+
+        blob.slice(0, Math.min(blob.size, maxBytes)).arrayBuffer()
+            .then((buffer) => {
+                loaded = new Uint8Array(buffer);
+                if (isMounted) setState({ blob, data: loaded, error: null });
+                else loaded.fill(0);
+            })
+            .catch((err: unknown) => {
+                if (isMounted) setState({ blob, data: null, error: err instanceof Error ? err.message : 'Failed to read file.' });
+            });
+
+        return () => {
+            isMounted = false;
+            loaded?.fill(0);
+        };
+    }, [blob, maxBytes]);
+
+    // Ignore a result left over from a previous blob
+    if (state.blob !== blob) return { data: null, error: null };
+    return { data: state.data, error: state.error };
+}
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { subscribeChunkStatus, type ChunkStatusUpdate } from '../lib/nostr';
+
+/**
+ * Latest known outcome of one chunk
+ */
+export type ChunkCell = Omit<ChunkStatusUpdate, 'index'>;
+
+const NO_CELLS: ReadonlyMap<number, ChunkCell> = new Map();
+
+/**
+ * Per-chunk outcomes for a file, from every fetch that touches it while mounted
+ * Updates are batched per animation frame so large files don't re-render per chunk.
+ * Chunks without an entry are still pending.
+ */
+export function useChunkStatuses(pubkey: string, fileHash: string, totalChunks: number): ReadonlyMap<number, ChunkCell> {
+    const key = `${pubkey}:${fileHash}:${totalChunks}`;
+    const [state, setState] = useState<{ key: string; cells: ReadonlyMap<number, ChunkCell> } | null>(null);
+
+    useEffect(() => {
+        if (totalChunks === 0) return;
+        let pending = new Map<number, ChunkCell>();
+        let frame: number | null = null;
+
+        const flush = () => {
+            frame = null;
+            const updates = pending;
+            pending = new Map();
+            setState((prev) => {
+                const cells = new Map(prev?.key === key ? prev.cells : NO_CELLS);
+                updates.forEach((cell, index) => cells.set(index, cell));
+                return { key, cells };
+            });
+        };
+
+        const unsubscribe = subscribeChunkStatus(pubkey, fileHash, ({ index, status, relays }) => {
+            if (index < 0 || index >= totalChunks) return;
+            pending.set(index, { status, relays });
+            frame ??= requestAnimationFrame(flush);
+        });
+
+        return () => {
+            unsubscribe();
+            if (frame !== null) cancelAnimationFrame(frame);
+        };
+    }, [fileHash, key, pubkey, totalChunks]);
+
+    // Ignore results left over from a previous file
+    return state?.key === key ? state.cells : NO_CELLS;
+}
@@ -0,0 +1,244 @@
+/**
+ * Read-only ZIP and tar parsing for archive previews
+ * Archives are parsed from an in-memory copy (previews are size-limited anyway);
+ * entries are only decompressed when extracted.
+ */
+
+import { updateCrc32 } from './zipWriter';
+
+export interface ArchiveEntry {
+    name: string;
+    size: number;
+    modifiedAt: Date | null;
+    isDirectory: boolean;
+    /** Read this entry's contents */
+    extract(): Promise<Uint8Array>;
+}
+
+const UINT16_MAX = 0xffff;
+const UINT32_MAX = 0xffffffff;
+const EOCD_SIGNATURE = 0x06054b50;
+const EOCD_SIZE = 22;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_ID = 0x0001;
+const TAR_BLOCK = 512;
+
+async function decompress(data: Uint8Array, format: CompressionFormat): Promise<Uint8Array> {
+    const stream = new Blob([data as unknown as BlobPart]).stream().pipeThrough(new DecompressionStream(format));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Decompress a .gz file (e.g. a .tar.gz before listing it)
+ */
+export function gunzip(data: Uint8Array): Promise<Uint8Array> {
+    return decompress(data, 'gzip');
+}
+
+function fromDosDateTime(dosDate: number, dosTime: number): Date | null {
+    if (dosDate === 0) return null;
+    return new Date(
+        (dosDate >> 9) + 1980,
+        ((dosDate >> 5) & 0x0f) - 1,
+        dosDate & 0x1f,
+        dosTime >> 11,
+        (dosTime >> 5) & 0x3f,
+        (dosTime & 0x1f) * 2
+    );
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+    const minOffset = Math.max(0, view.byteLength - EOCD_SIZE - UINT16_MAX);
+    for (let offset = view.byteLength - EOCD_SIZE; offset >= minOffset; offset--) {
+        if (view.getUint32(offset, true) === EOCD_SIGNATURE) return offset;
+    }
+    throw new Error('Not a ZIP archive: end of central directory not found');
+}
+
+/**
+ * List the entries of a ZIP archive (ZIP64 included)
+ * @throws Error if the central directory is missing or corrupt
+ */
+export function listZipEntries(data: Uint8Array): ArchiveEntry[] {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const eocd = findEndOfCentralDirectory(view);
+    let entryCount = view.getUint16(eocd + 10, true);
+    let directoryOffset = view.getUint32(eocd + 16, true);
+
+    if (entryCount === UINT16_MAX || directoryOffset === UINT32_MAX) {
+        const locator = eocd - 20;
+        if (locator < 0 || view.getUint32(locator, true) !== ZIP64_LOCATOR_SIGNATURE) {
+            throw new Error('Corrupt ZIP64 archive: locator not found');
+        }
+        const zip64Eocd = Number(view.getBigUint64(locator + 8, true));
+        if (view.getUint32(zip64Eocd, true) !== ZIP64_EOCD_SIGNATURE) {
+            throw new Error('Corrupt ZIP64 archive: end of central directory not found');
+        }
+        entryCount = Number(view.getBigUint64(zip64Eocd + 32, true));
+        directoryOffset = Number(view.getBigUint64(zip64Eocd + 48, true));
+    }
+
+    const decoder = new TextDecoder();
+    const entries: ArchiveEntry[] = [];
+    let offset = directoryOffset;
+    for (let i = 0; i < entryCount; i++) {
+        if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+            throw new Error('Corrupt ZIP archive: bad central directory entry');
+        }
+        const flags = view.getUint16(offset + 8, true);
+        const method = view.getUint16(offset + 10, true);
+        const dosTime = view.getUint16(offset + 12, true);
+        const dosDate = view.getUint16(offset + 14, true);
+        const crc = view.getUint32(offset + 16, true);
+        let compressedSize = view.getUint32(offset + 20, true);
+        let size = view.getUint32(offset + 24, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        let localOffset = view.getUint32(offset + 42, true);
+        const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+        // ZIP64 extra field holds only the values that overflowed, in this order
+        let extra = offset + 46 + nameLength;
+        const extraEnd = extra + extraLength;
+        while (extra + 4 <= extraEnd) {
+            const id = view.getUint16(extra, true);
+            const length = view.getUint16(extra + 2, true);
+            if (id === ZIP64_EXTRA_ID) {
+                let field = extra + 4;
+                if (size === UINT32_MAX) { size = Number(view.getBigUint64(field, true)); field += 8; }
+                if (compressedSize === UINT32_MAX) { compressedSize = Number(view.getBigUint64(field, true)); field += 8; }
+                if (localOffset === UINT32_MAX) { localOffset = Number(view.getBigUint64(field, true)); }
+            }
+            extra += 4 + length;
+        }
+
+        const entryCompressedSize = compressedSize;
+        const entryLocalOffset = localOffset;
+        entries.push({
+            name,
+            size,
+            modifiedAt: fromDosDateTime(dosDate, dosTime),
+            isDirectory: name.endsWith('/'),
+            extract: async () => {
+                if (flags & 0x0001) throw new Error('Encrypted ZIP entries are not supported');
+                if (view.getUint32(entryLocalOffset, true) !== LOCAL_SIGNATURE) {
+                    throw new Error(`Corrupt ZIP archive: bad local header for ${name}`);
+                }
+                const start = entryLocalOffset + 30
+                    + view.getUint16(entryLocalOffset + 26, true)
+                    + view.getUint16(entryLocalOffset + 28, true);
+                const compressed = data.subarray(start, start + entryCompressedSize);
+
+                let contents: Uint8Array;
+                if (method === 0) {
+                    contents = compressed.slice();
+                } else if (method === 8) {
+                    contents = await decompress(compressed, 'deflate-raw');
+                } else {
+                    throw new Error(`Unsupported ZIP compression method ${method}`);
+                }
+                if (updateCrc32(0, contents) !== crc) {
+                    throw new Error(`CRC mismatch for ${name}`);
+                }
+                return contents;
+            },
+        });
+
+        offset = extraEnd + commentLength;
+    }
+    return entries;
+}
+
+function readTarString(block: Uint8Array, start: number, length: number): string {
+    const field = block.subarray(start, start + length);
+    const end = field.indexOf(0);
+    return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+}
+
+function readTarNumber(block: Uint8Array, start: number, length: number): number {
+    // GNU base-256 encoding for values that don't fit in octal
+    if (block[start] & 0x80) {
+        let value = 0;
+        for (let i = start + 1; i < start + length; i++) value = value * 256 + block[i];
+        return value;
+    }
+    const text = readTarString(block, start, length).trim();
+    return text ? parseInt(text, 8) : 0;
+}
+
+/**
+ * Parse a pax extended header ("<length> <key>=<value>\n" records)
+ */
+function parsePaxHeader(data: Uint8Array): Map<string, string> {
+    const records = new Map<string, string>();
+    const text = new TextDecoder().decode(data);
+    let offset = 0;
+    while (offset < text.length) {
+        const space = text.indexOf(' ', offset);
+        const length = parseInt(text.slice(offset, space), 10);
+        if (space === -1 || !length) break;
+        const record = text.slice(space + 1, offset + length - 1);
+        const equals = record.indexOf('=');
+        if (equals !== -1) records.set(record.slice(0, equals), record.slice(equals + 1));
+        offset += length;
+    }
+    return records;
+}
+
+/**
+ * List the entries of a tar archive (ustar, GNU long names and pax headers)
+ * @throws Error if a header is corrupt
+ */
+export function listTarEntries(data: Uint8Array): ArchiveEntry[] {
+    const entries: ArchiveEntry[] = [];
+    let longName: string | null = null;
+    let pax = new Map<string, string>();
+    let offset = 0;
+
+    while (offset + TAR_BLOCK <= data.length) {
+        const header = data.subarray(offset, offset + TAR_BLOCK);
+        if (header.every(byte => byte === 0)) break;
+
+        const type = String.fromCharCode(header[156] || 0x30);
+        let size = readTarNumber(header, 124, 12);
+        if (pax.has('size')) size = Number(pax.get('size'));
+        const dataStart = offset + TAR_BLOCK;
+        if (Number.isNaN(size) || dataStart + size > data.length) {
+            throw new Error('Corrupt tar archive: entry runs past the end of the file');
+        }
+        const body = data.subarray(dataStart, dataStart + size);
+        offset = dataStart + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+        if (type === 'L') {
+            longName = readTarString(body, 0, body.length);
+            continue;
+        }
+        if (type === 'x') {
+            pax = parsePaxHeader(body);
+            continue;
+        }
+        if (type === 'g') continue;
+
+        const prefix = readTarString(header, 257, 6).startsWith('ustar') ? readTarString(header, 345, 155) : '';
+        const baseName = readTarString(header, 0, 100);
+        const name = pax.get('path') ?? longName ?? (prefix ? `${prefix}/${baseName}` : baseName);
+        const mtime = pax.has('mtime') ? Number(pax.get('mtime')) : readTarNumber(header, 136, 12);
+        longName = null;
+        pax = new Map();
+
+        // Only regular files carry contents; links and devices are listed as empty
+        const isFile = type === '0' || type === '7';
+        entries.push({
+            name,
+            size: isFile ? size : 0,
+            modifiedAt: mtime ? new Date(mtime * 1000) : null,
+            isDirectory: type === '5',
+            extract: async () => (isFile ? body.slice() : new Uint8Array(0)),
+        });
+    }
+    return entries;
+}
@@ -0,0 +1,345 @@
+/**
+ * Persistent chunk cache in IndexedDB
+ * Keeps fetched chunk events across reloads so downloads can resume.
+ * Stored content is the event content as published (ciphertext for encrypted files).
+ */
+
+import type { ChunkEvent } from './nostr';
+
+const DB_NAME = 'nostrfetch-chunks';
+const DB_VERSION = 1;
+const CHUNKS_STORE = 'chunks';
+const FILES_STORE = 'files';
+const LIMIT_STORAGE_KEY = 'nostrfetch:chunk-cache-limit';
+
+export const DEFAULT_CHUNK_CACHE_LIMIT = 512 * 1024 * 1024;
+
+const FLUSH_INTERVAL = 250;
+
+interface StoredChunk {
+    key: string;
+    fileKey: string;
+    index: number;
+    content: string;
+    encryption: string;
+}
+
+/**
+ * Summary of one cached file
+ */
+export interface CachedFileInfo {
+    key: string;
+    pubkey: string;
+    fileHash: string;
+    fileName?: string;
+    totalChunks: number;
+    cachedChunks: number;
+    bytes: number;
+    lastAccess: number;
+}
+
+function fileKeyFor(pubkey: string, fileHash: string): string {
+    return `${pubkey}:${fileHash}`;
+}
+
+function chunkKeyFor(pubkey: string, fileHash: string, index: number): string {
+    return `${pubkey}:${fileHash}:${index}`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+    });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                const chunks = db.createObjectStore(CHUNKS_STORE, { keyPath: 'key' });
+                chunks.createIndex('fileKey', 'fileKey');
+                const files = db.createObjectStore(FILES_STORE, { keyPath: 'key' });
+                files.createIndex('lastAccess', 'lastAccess');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        // Allow a later retry if opening failed
+        dbPromise.catch(() => {
+            dbPromise = null;
+        });
+    }
+    return dbPromise;
+}
+
+/**
+ * Get the configured cache size limit in bytes
+ */
+export function getChunkCacheLimit(): number {
+    const stored = Number(localStorage.getItem(LIMIT_STORAGE_KEY));
+    return Number.isFinite(stored) && stored > 0 ? stored : DEFAULT_CHUNK_CACHE_LIMIT;
+}
+
+/**
+ * Set the cache size limit in bytes and evict down to it
+ */
+export async function setChunkCacheLimit(bytes: number): Promise<void> {
+    localStorage.setItem(LIMIT_STORAGE_KEY, String(Math.max(0, Math.floor(bytes))));
+    await enforceChunkCacheLimit();
+}
+
+/**
+ * Load cached chunks for a file
+ * @param indices - only load these indices (all when omitted)
+ */
+export async function getCachedChunks(
+    pubkey: string,
+    fileHash: string,
+    indices?: number[]
+): Promise<ChunkEvent[]> {
+    try {
+        const db = await openDb();
+        const tx = db.transaction([CHUNKS_STORE, FILES_STORE], 'readwrite');
+        const chunks = tx.objectStore(CHUNKS_STORE);
+
+        let stored: (StoredChunk | undefined)[];
+        if (indices) {
+            stored = await Promise.all(indices.map(index =>
+                requestToPromise<StoredChunk | undefined>(chunks.get(chunkKeyFor(pubkey, fileHash, index)))
+            ));
+        } else {
+            stored = await requestToPromise<StoredChunk[]>(
+                chunks.index('fileKey').getAll(fileKeyFor(pubkey, fileHash))
+            );
+        }
+
+        const found = stored.filter((s): s is StoredChunk => Boolean(s));
+        if (found.length > 0) {
+            const files = tx.objectStore(FILES_STORE);
+            const info = await requestToPromise<CachedFileInfo | undefined>(files.get(fileKeyFor(pubkey, fileHash)));
+            if (info) files.put({ ...info, lastAccess: Date.now() });
+        }
+        await transactionDone(tx);
+
+        return found.map(s => ({ index: s.index, content: s.content, encryption: s.encryption }));
+    } catch (err) {
+        console.warn('[chunkStore] Failed to read cached chunks:', err);
+        return [];
+    }
+}
+
+/**
+ * Count cached chunks for a file without loading their content
+ */
+export async function countCachedChunks(pubkey: string, fileHash: string): Promise<number> {
+    try {
+        const db = await openDb();
+        const tx = db.transaction(CHUNKS_STORE, 'readonly');
+        return await requestToPromise(tx.objectStore(CHUNKS_STORE).index('fileKey').count(fileKeyFor(pubkey, fileHash)));
+    } catch {
+        return 0;
+    }
+}
+
+/**
+ * Remove single chunks, e.g. after they failed verification
+ */
+export async function deleteCachedChunks(pubkey: string, fileHash: string, indices: number[]): Promise<void> {
+    if (indices.length === 0) return;
+    try {
+        const db = await openDb();
+        const tx = db.transaction([CHUNKS_STORE, FILES_STORE], 'readwrite');
+        const chunks = tx.objectStore(CHUNKS_STORE);
+        const files = tx.objectStore(FILES_STORE);
+        const info = await requestToPromise<CachedFileInfo | undefined>(files.get(fileKeyFor(pubkey, fileHash)));
+
+        let removedBytes = 0;
+        let removedCount = 0;
+        for (const index of indices) {
+            const key = chunkKeyFor(pubkey, fileHash, index);
+            const existing = await requestToPromise<StoredChunk | undefined>(chunks.get(key));
+            if (!existing) continue;
+            removedBytes += existing.content.length;
+            removedCount++;
+            chunks.delete(key);
+        }
+        if (info) {
+            files.put({
+                ...info,
+                cachedChunks: Math.max(0, info.cachedChunks - removedCount),
+                bytes: Math.max(0, info.bytes - removedBytes),
+            });
+        }
+        await transactionDone(tx);
+    } catch (err) {
+        console.warn('[chunkStore] Failed to delete cached chunks:', err);
+    }
+}
+
+/**
+ * List every cached file, most recently used first
+ */
+export async function listCachedFiles(): Promise<CachedFileInfo[]> {
+    const db = await openDb();
+    const tx = db.transaction(FILES_STORE, 'readonly');
+    const files = await requestToPromise<CachedFileInfo[]>(tx.objectStore(FILES_STORE).getAll());
+    return files.sort((a, b) => b.lastAccess - a.lastAccess);
+}
+
+async function deleteFileEntries(db: IDBDatabase, fileKeys: string[]): Promise<void> {
+    const tx = db.transaction([CHUNKS_STORE, FILES_STORE], 'readwrite');
+    const chunks = tx.objectStore(CHUNKS_STORE);
+    const files = tx.objectStore(FILES_STORE);
+    for (const fileKey of fileKeys) {
+        const keys = await requestToPromise(chunks.index('fileKey').getAllKeys(fileKey));
+        keys.forEach(key => chunks.delete(key));
+        files.delete(fileKey);
+    }
+    await transactionDone(tx);
+}
+
+/**
+ * Remove one file's cached chunks
+ */
+export async function deleteCachedFile(pubkey: string, fileHash: string): Promise<void> {
+    const db = await openDb();
+    await deleteFileEntries(db, [fileKeyFor(pubkey, fileHash)]);
+}
+
+/**
+ * Remove every cached chunk
+ */
+export async function clearChunkCache(): Promise<void> {
+    const db = await openDb();
+    const tx = db.transaction([CHUNKS_STORE, FILES_STORE], 'readwrite');
+    tx.objectStore(CHUNKS_STORE).clear();
+    tx.objectStore(FILES_STORE).clear();
+    await transactionDone(tx);
+}
+
+/**
+ * Evict least recently used files until the cache fits its limit
+ * @param keepFileKey - file currently being written, never evicted
+ */
+async function enforceChunkCacheLimit(keepFileKey?: string): Promise<void> {
+    const limit = getChunkCacheLimit();
+    const files = await listCachedFiles();
+    let total = files.reduce((acc, f) => acc + f.bytes, 0);
+    if (total <= limit) return;
+
+    const evict: string[] = [];
+    // listCachedFiles is most recent first, so walk from the end
+    for (let i = files.length - 1; i >= 0 && total > limit; i--) {
+        if (files[i].key === keepFileKey) continue;
+        evict.push(files[i].key);
+        total -= files[i].bytes;
+    }
+    if (evict.length === 0) return;
+
+    console.log(`[chunkStore] Evicting ${evict.length} cached file(s) to stay under ${limit} bytes`);
+    await deleteFileEntries(await openDb(), evict);
+}
+
+/**
+ * Buffered writer for one file's chunks
+ */
+export interface ChunkStoreWriter {
+    add(chunk: ChunkEvent): void;
+    /** Write everything queued so far */
+    flush(): Promise<void>;
+}
+
+/**
+ * Create a writer that persists chunks for a file in small batches
+ * Failures are logged and otherwise ignored: the cache is best-effort.
+ */
+export function createChunkStoreWriter(
+    pubkey: string,
+    fileHash: string,
+    totalChunks: number,
+    fileName?: string
+): ChunkStoreWriter {
+    const fileKey = fileKeyFor(pubkey, fileHash);
+    let queue: ChunkEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let writing: Promise<void> = Promise.resolve();
+
+    const writeBatch = async (batch: ChunkEvent[]) => {
+        const db = await openDb();
+        const tx = db.transaction([CHUNKS_STORE, FILES_STORE], 'readwrite');
+        const chunks = tx.objectStore(CHUNKS_STORE);
+        const files = tx.objectStore(FILES_STORE);
+        const info = await requestToPromise<CachedFileInfo | undefined>(files.get(fileKey));
+
+        let addedBytes = 0;
+        let addedCount = 0;
+        for (const chunk of batch) {
+            const key = chunkKeyFor(pubkey, fileHash, chunk.index);
+            const existing = await requestToPromise(chunks.getKey(key));
+            if (existing !== undefined) continue;
+            const record: StoredChunk = {
+                key,
+                fileKey,
+                index: chunk.index,
+                content: chunk.content,
+                encryption: chunk.encryption,
+            };
+            chunks.put(record);
+            addedBytes += chunk.content.length;
+            addedCount++;
+        }
+
+        files.put({
+            key: fileKey,
+            pubkey,
+            fileHash,
+            fileName: fileName ?? info?.fileName,
+            totalChunks,
+            cachedChunks: (info?.cachedChunks ?? 0) + addedCount,
+            bytes: (info?.bytes ?? 0) + addedBytes,
+            lastAccess: Date.now(),
+        } satisfies CachedFileInfo);
+        await transactionDone(tx);
+        await enforceChunkCacheLimit(fileKey);
+    };
+
+    const flush = () => {
+        if (timer) {
+            clearTimeout(timer);
+            timer = null;
+        }
+        const batch = queue;
+        queue = [];
+        if (batch.length > 0) {
+            writing = writing
+                .then(() => writeBatch(batch))
+                .catch((err) => console.warn('[chunkStore] Failed to persist chunks:', err));
+        }
+        return writing;
+    };
+
+    return {
+        add: (chunk) => {
+            queue.push(chunk);
+            if (!timer) timer = setTimeout(flush, FLUSH_INTERVAL);
+        },
+        flush,
+    };
+}
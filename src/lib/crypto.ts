@@ -1,6 +1,6 @@
 /**
- * NIP-44 decryption utilities
- * Used for decrypting nostrsave encrypted chunks
+ * NIP-44 encryption utilities
+ * Used for decrypting nostrsave encrypted chunks, and encrypting them on upload
  */
 
 import * as nip44 from 'nostr-tools/nip44';
@@ -9,7 +9,7 @@ import { equalBytes } from '@noble/ciphers/utils';
 import { expand as hkdfExpand } from '@noble/hashes/hkdf.js';
 import { hmac } from '@noble/hashes/hmac.js';
 import { sha256 } from '@noble/hashes/sha2.js';
-import { concatBytes } from '@noble/hashes/utils.js';
+import { concatBytes, randomBytes } from '@noble/hashes/utils.js';
 import { base64 } from '@scure/base';
 
 const MIN_PLAINTEXT_SIZE = 0x0001;
@@ -53,10 +53,55 @@ export function decryptChunkBinary(
     secretKey: Uint8Array,
     pubkey: string
 ): Uint8Array {
-    const conversationKey = nip44.v2.utils.getConversationKey(secretKey, pubkey);
+    const conversationKey = getConversationKey(secretKey, pubkey);
+    try {
+        return decryptNip44ToBytes(ciphertext, conversationKey);
+    } finally {
+        conversationKey.fill(0);
+    }
+}
+
+/**
+ * Derive the NIP-44 conversation key once so many chunks can be decrypted with it
+ * Callers should zero the returned key when done
+ */
+export function getConversationKey(secretKey: Uint8Array, pubkey: string): Uint8Array {
+    return nip44.v2.utils.getConversationKey(secretKey, pubkey);
+}
+
+/**
+ * Decrypt a NIP-44 chunk payload to binary with a precomputed conversation key
+ */
+export function decryptChunkWithConversationKey(ciphertext: string, conversationKey: Uint8Array): Uint8Array {
     return decryptNip44ToBytes(ciphertext, conversationKey);
 }
 
+/**
+ * NIP-44 encrypt binary chunk data with a precomputed conversation key
+ * nip44.v2.encrypt only takes strings (encoded as UTF-8), which would mangle binary
+ * chunks; this pads and encrypts the bytes as they are, so decryptChunkBinary returns them.
+ *
+ * @throws Error if the chunk is empty or larger than 65535 bytes
+ */
+export function encryptChunkWithConversationKey(data: Uint8Array, conversationKey: Uint8Array): string {
+    const nonce = randomBytes(32);
+    const { chacha_key, chacha_nonce, hmac_key } = getMessageKeys(conversationKey, nonce);
+    const ciphertext = chacha20(chacha_key, chacha_nonce, padBytes(data));
+    const mac = hmacAad(hmac_key, ciphertext, nonce);
+    return base64.encode(concatBytes(new Uint8Array([2]), nonce, ciphertext, mac));
+}
+
+/**
+ * Turn a NIP-44 plaintext string from an external signer into chunk bytes
+ * Signers (NIP-07, NIP-46) decode the plaintext as UTF-8 before handing it over, so
+ * re-encoding gives exactly what decryptChunkBinary returns for UTF-8 payloads.
+ * Bytes that were not valid UTF-8 come back as U+FFFD and can't be recovered;
+ * createSignerDecryptJob refuses such output before it gets here.
+ */
+export function nip44PlaintextToBytes(plaintext: string): Uint8Array {
+    return new TextEncoder().encode(plaintext);
+}
+
 function calcPaddedLen(len: number): number {
     if (!Number.isSafeInteger(len) || len < 1) throw new Error('expected positive integer');
     if (len <= 32) return 32;
@@ -106,6 +151,17 @@ function hmacAad(key: Uint8Array, message: Uint8Array, aad: Uint8Array): Uint8Ar
     return hmac(sha256, key, combined);
 }
 
+function padBytes(unpadded: Uint8Array): Uint8Array {
+    const unpaddedLen = unpadded.length;
+    if (unpaddedLen < MIN_PLAINTEXT_SIZE || unpaddedLen > MAX_PLAINTEXT_SIZE) {
+        throw new Error('invalid plaintext size: must be between 1 and 65535 bytes');
+    }
+    const padded = new Uint8Array(2 + calcPaddedLen(unpaddedLen));
+    new DataView(padded.buffer).setUint16(0, unpaddedLen);
+    padded.set(unpadded, 2);
+    return padded;
+}
+
 function unpadBytes(padded: Uint8Array): Uint8Array {
     const unpaddedLen = new DataView(padded.buffer, padded.byteOffset, padded.byteLength).getUint16(0);
     const unpadded = padded.subarray(2, 2 + unpaddedLen);
@@ -0,0 +1,56 @@
+/**
+ * NIP-44 chunk decryption worker
+ * Holds one job's conversation key; the key material is zeroed when the job ends.
+ */
+
+import { decryptChunkWithConversationKey, getConversationKey } from './crypto';
+import type { DecryptWorkerRequest, DecryptWorkerResponse } from './decryptPool';
+
+let conversationKey: Uint8Array | null = null;
+
+function reply(message: DecryptWorkerResponse, transfer: Transferable[] = []): void {
+    self.postMessage(message, { transfer });
+}
+
+self.addEventListener('message', (event: MessageEvent<DecryptWorkerRequest>) => {
+    const message = event.data;
+
+    switch (message.type) {
+        case 'init': {
+            try {
+                conversationKey = getConversationKey(message.secretKey, message.pubkey);
+                reply({ type: 'ready' });
+            } catch (err) {
+                reply({ type: 'init-error', error: err instanceof Error ? err.message : 'Invalid key' });
+            } finally {
+                // The conversation key is all we need; drop this worker's copy of the secret key now
+                message.secretKey.fill(0);
+            }
+            break;
+        }
+
+        case 'decrypt': {
+            if (!conversationKey) {
+                reply({ type: 'error', id: message.id, error: 'Decrypt job is not initialized' });
+                break;
+            }
+            try {
+                const decrypted = decryptChunkWithConversationKey(message.content, conversationKey);
+                // Copy out of the chacha output buffer so only the plaintext is transferred
+                const data = decrypted.slice();
+                decrypted.fill(0);
+                reply({ type: 'result', id: message.id, data }, [data.buffer]);
+            } catch (err) {
+                reply({ type: 'error', id: message.id, error: err instanceof Error ? err.message : 'unknown error' });
+            }
+            break;
+        }
+
+        case 'end': {
+            conversationKey?.fill(0);
+            conversationKey = null;
+            reply({ type: 'ended' });
+            break;
+        }
+    }
+});
@@ -0,0 +1,243 @@
+/**
+ * Pool of Web Workers for NIP-44 chunk decryption
+ * Keeps decryption off the main thread so large encrypted downloads don't freeze the UI
+ */
+
+import { decryptChunkBinary, nip44PlaintextToBytes } from './crypto';
+
+export type DecryptWorkerRequest =
+    | { type: 'init'; secretKey: Uint8Array; pubkey: string }
+    | { type: 'decrypt'; id: number; content: string }
+    | { type: 'end' };
+
+export type DecryptWorkerResponse =
+    | { type: 'ready' }
+    | { type: 'init-error'; error: string }
+    | { type: 'result'; id: number; data: Uint8Array }
+    | { type: 'error'; id: number; error: string }
+    | { type: 'ended' };
+
+/**
+ * A decryption session for one file and one key
+ */
+export interface DecryptJob {
+    /** Number of chunks that can be decrypted at the same time */
+    readonly concurrency: number;
+    decrypt(content: string): Promise<Uint8Array>;
+    /** Zero the key material in every worker and shut the workers down */
+    close(): Promise<void>;
+}
+
+const MAX_WORKERS = 8;
+const END_TIMEOUT = 2000;
+
+type PendingDecrypt = {
+    resolve: (data: Uint8Array) => void;
+    reject: (err: Error) => void;
+};
+
+type PoolWorker = {
+    worker: Worker;
+    ready: Promise<void>;
+    pending: Map<number, PendingDecrypt>;
+    ended?: () => void;
+};
+
+/**
+ * Worker count for this device
+ */
+export function getDecryptPoolSize(): number {
+    const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency : 0;
+    return Math.max(1, Math.min(MAX_WORKERS, cores || 2));
+}
+
+/**
+ * Fallback when Web Workers are unavailable: decrypt on the calling thread
+ */
+function createInlineDecryptJob(secretKey: Uint8Array, pubkey: string): DecryptJob {
+    const key = secretKey.slice();
+    return {
+        concurrency: 1,
+        decrypt: async (content) => decryptChunkBinary(content, key, pubkey),
+        close: async () => {
+            key.fill(0);
+        },
+    };
+}
+
+function spawnWorker(secretKey: Uint8Array, pubkey: string): PoolWorker {
+    const worker = new Worker(new URL('./decrypt.worker.ts', import.meta.url), { type: 'module' });
+    const pending = new Map<number, PendingDecrypt>();
+    let resolveReady!: () => void;
+    let rejectReady!: (err: Error) => void;
+    const ready = new Promise<void>((resolve, reject) => {
+        resolveReady = resolve;
+        rejectReady = reject;
+    });
+    // Init failures surface through decrypt(); don't report them as unhandled
+    ready.catch(() => undefined);
+
+    const entry: PoolWorker = { worker, ready, pending };
+
+    worker.onmessage = (event: MessageEvent<DecryptWorkerResponse>) => {
+        const message = event.data;
+        switch (message.type) {
+            case 'ready':
+                resolveReady();
+                break;
+            case 'init-error':
+                rejectReady(new Error(message.error));
+                break;
+            case 'result':
+                pending.get(message.id)?.resolve(message.data);
+                pending.delete(message.id);
+                break;
+            case 'error':
+                pending.get(message.id)?.reject(new Error(message.error));
+                pending.delete(message.id);
+                break;
+            case 'ended':
+                entry.ended?.();
+                break;
+        }
+    };
+    worker.onerror = (event) => {
+        const error = new Error(event.message || 'Decrypt worker failed');
+        rejectReady(error);
+        pending.forEach(p => p.reject(error));
+        pending.clear();
+    };
+
+    // Each worker gets its own copy of the key, transferred so no copy lingers here
+    const keyCopy = secretKey.slice();
+    worker.postMessage({ type: 'init', secretKey: keyCopy, pubkey } satisfies DecryptWorkerRequest, [keyCopy.buffer]);
+    return entry;
+}
+
+/**
+ * Start a decrypt job backed by a pool of workers sized to the device
+ * The caller keeps ownership of secretKey and may zero it as soon as this returns.
+ */
+export function createDecryptJob(
+    secretKey: Uint8Array,
+    pubkey: string,
+    size: number = getDecryptPoolSize()
+): DecryptJob {
+    if (typeof Worker === 'undefined') {
+        return createInlineDecryptJob(secretKey, pubkey);
+    }
+
+    const workers = Array.from({ length: size }, () => spawnWorker(secretKey, pubkey));
+    let nextId = 0;
+    let closed = false;
+
+    return {
+        concurrency: workers.length,
+        decrypt: (content) => {
+            if (closed) return Promise.reject(new Error('Decrypt job is closed'));
+            // Least busy worker gets the next chunk; register it now so concurrent calls spread out
+            const target = workers.reduce((a, b) => (b.pending.size < a.pending.size ? b : a));
+            const id = nextId++;
+            const result = new Promise<Uint8Array>((resolve, reject) => {
+                target.pending.set(id, { resolve, reject });
+            });
+            target.ready.then(
+                () => target.worker.postMessage({ type: 'decrypt', id, content } satisfies DecryptWorkerRequest),
+                (err: Error) => {
+                    target.pending.get(id)?.reject(err);
+                    target.pending.delete(id);
+                }
+            );
+            return result;
+        },
+        close: async () => {
+            if (closed) return;
+            closed = true;
+            await Promise.all(workers.map(entry => new Promise<void>((resolve) => {
+                const timer = setTimeout(resolve, END_TIMEOUT);
+                entry.ended = () => {
+                    clearTimeout(timer);
+                    resolve();
+                };
+                entry.worker.postMessage({ type: 'end' } satisfies DecryptWorkerRequest);
+            })));
+            workers.forEach(entry => {
+                entry.pending.forEach(p => p.reject(new Error('Decrypt job closed')));
+                entry.worker.terminate();
+            });
+        },
+    };
+}
+
+/**
+ * Chunk bytes from a signer's plaintext, refusing output the signer made lossy
+ * A rejected decrypt aborts the download: every copy of the chunk would come back
+ * the same way, so re-fetching it from other relays cannot help.
+ */
+function signerPlaintextToBytes(plaintext: string): Uint8Array {
+    if (plaintext.includes('\uFFFD')) {
+        throw new Error('Chunk is binary data the signer could not return intact. Decrypt this file with your nsec instead.');
+    }
+    return nip44PlaintextToBytes(plaintext);
+}
+
+export interface SignerDecryptOptions {
+    /** Requests kept in flight at once */
+    concurrency?: number;
+    /** Called after each chunk with the number decrypted so far */
+    onProgress?: (decrypted: number) => void;
+}
+
+/**
+ * Decrypt job backed by an external signer (NIP-07 extension or NIP-46 remote signer)
+ * Requests are queued and sent in a bounded window so the signer is not flooded.
+ *
+ * @param decryptText NIP-44 decrypt returning the signer's plaintext string
+ */
+export function createSignerDecryptJob(
+    decryptText: (ciphertext: string) => Promise<string>,
+    { concurrency = 1, onProgress }: SignerDecryptOptions = {}
+): DecryptJob {
+    const waiting: (() => void)[] = [];
+    let active = 0;
+    let decrypted = 0;
+    let closed = false;
+
+    const next = () => {
+        if (active >= concurrency) return;
+        const start = waiting.shift();
+        if (start) {
+            active++;
+            start();
+        }
+    };
+
+    return {
+        concurrency,
+        decrypt: (content) => {
+            if (closed) return Promise.reject(new Error('Decrypt job is closed'));
+            return new Promise<Uint8Array>((resolve, reject) => {
+                waiting.push(() => {
+                    const run = closed
+                        ? Promise.reject(new Error('Decrypt job closed'))
+                        : decryptText(content).then(signerPlaintextToBytes);
+                    run.then(
+                        (data) => {
+                            decrypted++;
+                            onProgress?.(decrypted);
+                            resolve(data);
+                        },
+                        reject
+                    ).finally(() => {
+                        active--;
+                        next();
+                    });
+                });
+                next();
+            });
+        },
+        close: async () => {
+            closed = true;
+        },
+    };
+}
@@ -0,0 +1,66 @@
+/**
+ * CSV / TSV parsing for table previews
+ * Follows RFC 4180 quoting: fields may be wrapped in double quotes, with "" for a
+ * literal quote and line breaks allowed inside quotes.
+ */
+
+export interface DelimitedTable {
+    header: string[];
+    rows: string[][];
+    /** True when parsing stopped at maxRows */
+    truncated: boolean;
+}
+
+/**
+ * Parse delimited text; the first row is used as the header
+ */
+export function parseDelimited(text: string, delimiter: string, maxRows = Infinity): DelimitedTable {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let truncated = false;
+    // Skip a UTF-8 byte order mark
+    let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+    const endRecord = () => {
+        record.push(field);
+        field = '';
+        // Ignore blank lines
+        if (record.length > 1 || record[0] !== '') records.push(record);
+        record = [];
+    };
+
+    for (; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"' && field === '') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            endRecord();
+            // +1 for the header row
+            if (records.length > maxRows) {
+                truncated = true;
+                break;
+            }
+        } else {
+            field += char;
+        }
+    }
+    if (!truncated && (field !== '' || record.length > 0)) endRecord();
+
+    const [header = [], ...rows] = records;
+    return { header, rows: rows.slice(0, maxRows), truncated };
+}
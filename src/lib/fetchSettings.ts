@@ -0,0 +1,64 @@
+/**
+ * User-adjustable timeouts for fetching chunks
+ * Stored in localStorage.
+ */
+
+export interface FetchTimeouts {
+    /** Stop waiting on the chunk subscription after this long without a new chunk, in ms */
+    inactivityMs: number;
+    /** Upper bound for the chunk subscription as a whole, in ms */
+    maxTotalMs: number;
+}
+
+const STORAGE_KEY = 'nostrfetch:fetch-timeouts';
+
+export const DEFAULT_FETCH_TIMEOUTS: FetchTimeouts = {
+    inactivityMs: 5000,
+    maxTotalMs: 300000,
+};
+
+function readTimeout(value: unknown, fallback: number): number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Get the configured timeouts (defaults for anything unset or invalid)
+ */
+export function getFetchTimeouts(): FetchTimeouts {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return DEFAULT_FETCH_TIMEOUTS;
+        const parsed = JSON.parse(stored) as Partial<Record<keyof FetchTimeouts, unknown>>;
+        return {
+            inactivityMs: readTimeout(parsed.inactivityMs, DEFAULT_FETCH_TIMEOUTS.inactivityMs),
+            maxTotalMs: readTimeout(parsed.maxTotalMs, DEFAULT_FETCH_TIMEOUTS.maxTotalMs),
+        };
+    } catch {
+        console.error('Failed to parse saved fetch timeouts');
+        return DEFAULT_FETCH_TIMEOUTS;
+    }
+}
+
+/**
+ * Save new timeouts
+ * @throws Error if a timeout is not a positive number
+ */
+export function setFetchTimeouts(timeouts: FetchTimeouts): void {
+    if (!(timeouts.inactivityMs > 0) || !(timeouts.maxTotalMs > 0)) {
+        throw new Error('Timeouts must be positive');
+    }
+    if (timeouts.inactivityMs > timeouts.maxTotalMs) {
+        throw new Error('The inactivity timeout cannot be longer than the total timeout');
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+        inactivityMs: Math.floor(timeouts.inactivityMs),
+        maxTotalMs: Math.floor(timeouts.maxTotalMs),
+    }));
+}
+
+/**
+ * Go back to the default timeouts
+ */
+export function resetFetchTimeouts(): void {
+    localStorage.removeItem(STORAGE_KEY);
+}
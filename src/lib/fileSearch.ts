@@ -0,0 +1,149 @@
+/**
+ * Search and filtering over index entries
+ */
+
+import type { FileEntry, FileIndex } from './types';
+
+export type EncryptionFilter = 'any' | 'nip44' | 'none';
+
+export interface FileFilters {
+    /** Case-insensitive substring match on the file name */
+    query: string;
+    /** Lowercase extension without the dot, or '' for any */
+    extension: string;
+    /** Inclusive upload date range as yyyy-mm-dd, '' for open-ended */
+    dateFrom: string;
+    dateTo: string;
+    /** Size range in MB, '' for open-ended */
+    minSizeMb: string;
+    maxSizeMb: string;
+    encryption: EncryptionFilter;
+}
+
+export const EMPTY_FILTERS: FileFilters = {
+    query: '',
+    extension: '',
+    dateFrom: '',
+    dateTo: '',
+    minSizeMb: '',
+    maxSizeMb: '',
+    encryption: 'any',
+};
+
+const MB = 1024 * 1024;
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * Lowercase extension of a file name, or '' when it has none
+ */
+export function getFileExtension(fileName: string): string {
+    const dot = fileName.lastIndexOf('.');
+    if (dot <= 0 || dot === fileName.length - 1) return '';
+    return fileName.slice(dot + 1).toLowerCase();
+}
+
+/**
+ * True when any filter is set
+ */
+export function hasActiveFilters(filters: FileFilters): boolean {
+    return filters.query.trim() !== ''
+        || filters.extension !== ''
+        || filters.dateFrom !== ''
+        || filters.dateTo !== ''
+        || filters.minSizeMb !== ''
+        || filters.maxSizeMb !== ''
+        || filters.encryption !== 'any';
+}
+
+// yyyy-mm-dd from a date input, as local midnight in unix seconds
+function parseDate(value: string): number | null {
+    if (!value) return null;
+    const time = new Date(`${value}T00:00:00`).getTime();
+    return Number.isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+function parseSize(value: string): number | null {
+    if (value.trim() === '') return null;
+    const mb = Number(value);
+    return Number.isFinite(mb) && mb >= 0 ? mb * MB : null;
+}
+
+/**
+ * Entries matching every active filter, in their original order
+ */
+export function filterEntries(entries: FileEntry[], filters: FileFilters): FileEntry[] {
+    const query = filters.query.trim().toLowerCase();
+    const from = parseDate(filters.dateFrom);
+    const toDay = parseDate(filters.dateTo);
+    const to = toDay === null ? null : toDay + DAY_SECONDS;
+    const minSize = parseSize(filters.minSizeMb);
+    const maxSize = parseSize(filters.maxSizeMb);
+
+    return entries.filter(entry => {
+        if (query && !entry.file_name.toLowerCase().includes(query)) return false;
+        if (filters.extension && getFileExtension(entry.file_name) !== filters.extension) return false;
+        if (from !== null && entry.uploaded_at < from) return false;
+        if (to !== null && entry.uploaded_at >= to) return false;
+        if (minSize !== null && entry.file_size < minSize) return false;
+        if (maxSize !== null && entry.file_size > maxSize) return false;
+        if (filters.encryption !== 'any' && entry.encryption !== filters.encryption) return false;
+        return true;
+    });
+}
+
+/**
+ * Flatten index pages into one list, newest first, without duplicate files
+ */
+export function mergeIndexEntries(pages: FileIndex[]): FileEntry[] {
+    const byHash = new Map<string, FileEntry>();
+    for (const page of pages) {
+        for (const entry of page.entries) {
+            const existing = byHash.get(entry.file_hash);
+            if (!existing || entry.uploaded_at > existing.uploaded_at) {
+                byHash.set(entry.file_hash, entry);
+            }
+        }
+    }
+    return Array.from(byHash.values()).sort((a, b) => b.uploaded_at - a.uploaded_at);
+}
+
+/**
+ * Distinct extensions present in the entries, sorted
+ */
+export function collectExtensions(entries: FileEntry[]): string[] {
+    const extensions = new Set(entries.map(entry => getFileExtension(entry.file_name)).filter(Boolean));
+    return Array.from(extensions).sort();
+}
+
+export type SortKey = 'name' | 'size' | 'date' | 'encryption' | 'hash';
+export type SortDirection = 'asc' | 'desc';
+
+export const SORT_KEYS: readonly SortKey[] = ['name', 'size', 'date', 'encryption', 'hash'];
+
+const nameCollator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+function compareEntries(a: FileEntry, b: FileEntry, key: SortKey): number {
+    switch (key) {
+        case 'name':
+            return nameCollator.compare(a.file_name, b.file_name);
+        case 'size':
+            return a.file_size - b.file_size;
+        case 'date':
+            return a.uploaded_at - b.uploaded_at;
+        case 'encryption':
+            return a.encryption.localeCompare(b.encryption);
+        case 'hash':
+            return a.file_hash.localeCompare(b.file_hash);
+    }
+}
+
+/**
+ * Sorted copy of the entries; ties keep their original order
+ */
+export function sortEntries(entries: FileEntry[], key: SortKey, direction: SortDirection): FileEntry[] {
+    const sign = direction === 'asc' ? 1 : -1;
+    return entries
+        .map((entry, position) => ({ entry, position }))
+        .sort((a, b) => sign * compareEntries(a.entry, b.entry, key) || a.position - b.position)
+        .map(({ entry }) => entry);
+}
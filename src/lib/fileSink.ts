@@ -0,0 +1,183 @@
+/**
+ * Streaming download targets
+ * Writes file data to disk piece by piece so large files never sit in memory
+ */
+
+/**
+ * Destination for a download, written in order
+ */
+export interface FileSink {
+    write(data: Uint8Array): Promise<void>;
+    close(): Promise<void>;
+    abort(): Promise<void>;
+}
+
+type SaveFilePicker = (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+
+const DOWNLOAD_SW_URL = `${import.meta.env.BASE_URL}download-sw.js`;
+const DOWNLOAD_PATH_PREFIX = `${import.meta.env.BASE_URL}__nostrfetch_download__/`;
+const SW_KEEPALIVE_INTERVAL = 10000;
+
+function getSaveFilePicker(): SaveFilePicker | null {
+    const picker = (window as Window & { showSaveFilePicker?: SaveFilePicker }).showSaveFilePicker;
+    return typeof picker === 'function' ? picker.bind(window) : null;
+}
+
+/**
+ * Check if the user dismissed a save dialog
+ */
+export function isSaveCancelled(err: unknown): boolean {
+    return err instanceof DOMException && err.name === 'AbortError';
+}
+
+/**
+ * Create a sink for the given file
+ * Prefers the File System Access API, then a service-worker stream,
+ * and finally an in-memory Blob for browsers with neither.
+ *
+ * Must be called from a user gesture (before any await) so the save
+ * dialog is allowed to open.
+ * @throws DOMException AbortError if the user cancels the save dialog
+ */
+export async function createFileSink(fileName: string, mimeType: string, size?: number): Promise<FileSink> {
+    const picker = getSaveFilePicker();
+    if (picker) {
+        const handle = await picker({ suggestedName: fileName });
+        return createFileSystemSink(await handle.createWritable());
+    }
+
+    if ('serviceWorker' in navigator && window.isSecureContext) {
+        try {
+            return await createServiceWorkerSink(fileName, mimeType, size);
+        } catch (err) {
+            console.warn('[createFileSink] Service worker download unavailable, buffering in memory:', err);
+        }
+    }
+
+    return createBlobSink(fileName, mimeType);
+}
+
+function createFileSystemSink(writable: FileSystemWritableFileStream): FileSink {
+    return {
+        write: (data) => writable.write(data as Uint8Array<ArrayBuffer>),
+        close: () => writable.close(),
+        abort: () => writable.abort(),
+    };
+}
+
+/**
+ * Register public/download-sw.js and wait until it is active
+ * Also used by mediaStream.ts, which serves media range requests through the same worker.
+ */
+export async function getDownloadServiceWorker(): Promise<ServiceWorker> {
+    const registration = await navigator.serviceWorker.register(DOWNLOAD_SW_URL);
+    return getActiveWorker(registration);
+}
+
+async function getActiveWorker(registration: ServiceWorkerRegistration): Promise<ServiceWorker> {
+    if (registration.active) return registration.active;
+    const worker = registration.installing ?? registration.waiting;
+    if (!worker) throw new Error('Service worker failed to install');
+    await new Promise<void>((resolve, reject) => {
+        worker.addEventListener('statechange', () => {
+            if (worker.state === 'activated') resolve();
+            if (worker.state === 'redundant') reject(new Error('Service worker became redundant'));
+        });
+    });
+    return worker;
+}
+
+/**
+ * Stream through public/download-sw.js, which answers a hidden iframe
+ * navigation with a ReadableStream fed over a MessageChannel.
+ * Writes wait for the stream to pull, so only one piece is buffered at a time.
+ */
+async function createServiceWorkerSink(fileName: string, mimeType: string, size?: number): Promise<FileSink> {
+    const worker = await getDownloadServiceWorker();
+
+    const id = crypto.randomUUID();
+    const channel = new MessageChannel();
+    const port = channel.port1;
+
+    let credits = 0;
+    let cancelled = false;
+    let waiter: (() => void) | null = null;
+    const wake = () => {
+        const resolve = waiter;
+        waiter = null;
+        resolve?.();
+    };
+
+    const registered = new Promise<void>((resolve) => {
+        port.onmessage = ({ data }) => {
+            if (data?.type === 'registered') resolve();
+            if (data?.type === 'pull') credits++;
+            if (data?.type === 'cancel') cancelled = true;
+            wake();
+        };
+    });
+
+    worker.postMessage({ type: 'register-download', id, fileName, mimeType, size }, [channel.port2]);
+    await registered;
+
+    const keepalive = window.setInterval(() => worker.postMessage({ type: 'keepalive' }), SW_KEEPALIVE_INTERVAL);
+    const iframe = document.createElement('iframe');
+    iframe.hidden = true;
+    iframe.src = `${DOWNLOAD_PATH_PREFIX}${id}`;
+    document.body.appendChild(iframe);
+
+    const cleanup = () => {
+        window.clearInterval(keepalive);
+        port.close();
+        // Give the browser a moment to hand the finished stream to the download manager
+        window.setTimeout(() => iframe.remove(), 1000);
+    };
+
+    return {
+        write: async (data) => {
+            while (credits === 0 && !cancelled) {
+                await new Promise<void>(resolve => { waiter = resolve; });
+            }
+            if (cancelled) throw new Error('Download cancelled by the browser');
+            credits--;
+            const copy = data.slice();
+            port.postMessage({ type: 'chunk', chunk: copy }, [copy.buffer]);
+        },
+        close: async () => {
+            port.postMessage({ type: 'close' });
+            cleanup();
+        },
+        abort: async () => {
+            port.postMessage({ type: 'abort' });
+            cleanup();
+        },
+    };
+}
+
+/**
+ * Last-resort sink: keeps every part in memory and saves a Blob at the end
+ */
+function createBlobSink(fileName: string, mimeType: string): FileSink {
+    let parts: BlobPart[] = [];
+
+    return {
+        write: async (data) => {
+            parts.push(data.slice() as Uint8Array<ArrayBuffer>);
+        },
+        close: async () => {
+            const blob = new Blob(parts, { type: mimeType || 'application/octet-stream' });
+            parts = [];
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = fileName;
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+        },
+        abort: async () => {
+            parts = [];
+        },
+    };
+}
@@ -1,5 +1,11 @@
-import { fetchManifest, fetchChunks, DEFAULT_INDEX_RELAYS, createPool } from './nostr';
+import type { SimplePool } from 'nostr-tools/pool';
+import { fetchChunks, fetchChunksByInfo, retryChunks, streamChunks, createPool, type ChunkEvent } from './nostr';
+import { getDataRelays } from './relaySettings';
 import { base64ToUint8Array } from './crypto';
+import { chunkHashMatches, createFileHasher } from './integrity';
+import type { FileSink } from './fileSink';
+import { getMimeTypeFromName, resolveMimeType, sniffMimeType } from './mimeTypes';
+import type { Manifest } from './types';
 
 export interface FileFetchResult {
     data: Uint8Array;
@@ -7,71 +13,70 @@ export interface FileFetchResult {
     fileName: string;
 }
 
-// Basic MIME type mapping
-function getMimeTypeFromName(fileName: string): string | null {
-    const ext = fileName.split('.').pop()?.toLowerCase();
-    if (!ext) return null;
-
-    const map: Record<string, string> = {
-        'jpg': 'image/jpeg',
-        'jpeg': 'image/jpeg',
-        'png': 'image/png',
-        'gif': 'image/gif',
-        'webp': 'image/webp',
-        'svg': 'image/svg+xml',
-        'mp4': 'video/mp4',
-        'webm': 'video/webm',
-        'mp3': 'audio/mpeg',
-        'aac': 'audio/aac',
-        'm4a': 'audio/mp4',
-        'wav': 'audio/wav',
-        'ogg': 'audio/ogg',
-        'pdf': 'application/pdf',
-        'txt': 'text/plain',
-        'md': 'text/markdown',
-        'json': 'application/json',
-        'js': 'text/javascript',
-        'ts': 'text/typescript',
-        'css': 'text/css',
-        'html': 'text/html'
-    };
-
-    return map[ext] || null;
+/**
+ * Turns a chunk's content into file bytes
+ * Return null to reject the chunk (it will be re-fetched); throw to abort the download.
+ * May be async (e.g. decryption in a worker pool).
+ */
+export type ChunkDecoder = (chunk: ChunkEvent) => Uint8Array | null | Promise<Uint8Array | null>;
+
+/**
+ * Decoder for unencrypted chunks (base64 content)
+ */
+export function decodeBase64Chunk(chunk: ChunkEvent): Uint8Array | null {
+    try {
+        return base64ToUint8Array(chunk.content);
+    } catch {
+        return null;
+    }
 }
 
+/**
+ * Fetch a whole file into memory, verifying every chunk and the final file hash
+ * Decoded chunk buffers are zeroed once the file is assembled, so only the returned
+ * copy holds the contents (callers previewing decrypted files should wipe it when done).
+ *
+ * @param decodeChunk Chunk decoder; pass a decrypting decoder for NIP-44 files
+ */
 export async function fetchFileBytes(
     pubkey: string,
-    fileHash: string,
+    manifest: Manifest,
     onProgress?: (progress: number) => void,
-    abortSignal?: AbortSignal
+    abortSignal?: AbortSignal,
+    decodeChunk: ChunkDecoder = decodeBase64Chunk
 ): Promise<FileFetchResult> {
     if (abortSignal?.aborted) throw new Error('Aborted');
     const pool = createPool();
+    // Use relays from manifest plus the user's data relays
+    const dataRelays = getDataRelays(manifest.relays);
+    const decodedByIndex = new Map<number, Uint8Array>();
     try {
-        // Fetch manifest
-        const manifest = await fetchManifest(pool, DEFAULT_INDEX_RELAYS, pubkey, fileHash);
-        if (!manifest) {
-            throw new Error('Manifest not found');
-        }
-
-        if (abortSignal?.aborted) throw new Error('Aborted');
-
-        // Use relays from manifest if available
-        const dataRelays = manifest.relays?.length > 0 ? manifest.relays : DEFAULT_INDEX_RELAYS;
+        const chunkInfoByIndex = new Map(manifest.chunks?.map(info => [info.index, info]));
 
         // Fetch chunks (now cached by chunk in nostr.ts)
         const chunks = await fetchChunks(
             pool,
             dataRelays,
             pubkey,
-            fileHash,
+            manifest.file_hash,
             manifest.total_chunks,
             (fetched, total) => {
                 if (onProgress && !abortSignal?.aborted) {
                     onProgress(fetched / total);
                 }
             },
-            manifest.chunks
+            manifest.chunks,
+            {
+                // Decoded bytes are kept so each chunk is decoded (or decrypted) once
+                verifyChunk: async (chunk) => {
+                    const data = await decodeChunk(chunk);
+                    if (!data || !chunkHashMatches(data, chunkInfoByIndex.get(chunk.index))) return false;
+                    decodedByIndex.set(chunk.index, data);
+                    return true;
+                },
+                abortSignal,
+                fileName: manifest.file_name,
+            }
         );
 
         if (abortSignal?.aborted) throw new Error('Aborted');
@@ -81,22 +86,162 @@ export async function fetchFileBytes(
             throw new Error(`Missing chunks: got ${chunks.length}/${manifest.total_chunks}`);
         }
 
-        // Reassemble file - chunks are base64 encoded
-        const parts: Uint8Array[] = chunks.map(chunk => base64ToUint8Array(chunk.content));
+        // Reassemble file - the result must match file_hash
+        const parts: Uint8Array[] = [];
+        for (const chunk of chunks) {
+            const data = decodedByIndex.get(chunk.index) ?? await decodeChunk(chunk);
+            if (!data) throw new Error(`Chunk ${chunk.index} could not be decoded`);
+            decodedByIndex.set(chunk.index, data);
+            parts.push(data);
+        }
         const totalLength = parts.reduce((acc, p) => acc + p.length, 0);
         const fileData = new Uint8Array(totalLength);
+        const hasher = createFileHasher();
         let offset = 0;
         for (const part of parts) {
             fileData.set(part, offset);
+            hasher.update(part);
             offset += part.length;
         }
+        hasher.verify(manifest.file_hash);
 
         return {
             data: fileData,
-            mimeType: manifest.mime_type || getMimeTypeFromName(manifest.file_name) || 'application/octet-stream',
+            // The content wins over the manifest and extension when they disagree
+            mimeType: resolveMimeType(manifest.mime_type || getMimeTypeFromName(manifest.file_name), sniffMimeType(fileData)),
             fileName: manifest.file_name
         };
     } finally {
-        pool.close(DEFAULT_INDEX_RELAYS);
+        decodedByIndex.forEach(part => part.fill(0));
+        decodedByIndex.clear();
+        pool.close(dataRelays);
+    }
+}
+
+/**
+ * Fetch and decode just the first chunk, e.g. to sniff the file type
+ * The chunk lands in the persistent cache, so a later download doesn't fetch it again.
+ * Returns null when the manifest has no event id for it or no relay has a valid copy.
+ */
+export async function fetchFirstChunk(
+    pubkey: string,
+    manifest: Manifest,
+    decodeChunk: ChunkDecoder = decodeBase64Chunk
+): Promise<Uint8Array | null> {
+    const info = manifest.chunks?.find(chunk => chunk.index === 0);
+    if (!info?.event_id) return null;
+
+    const pool = createPool();
+    const dataRelays = getDataRelays(manifest.relays);
+    let decoded: Uint8Array | null = null;
+    try {
+        await fetchChunksByInfo(pool, dataRelays, pubkey, manifest.file_hash, manifest.total_chunks, [info], {
+            verifyChunk: async (chunk) => {
+                const data = await decodeChunk(chunk);
+                if (!data || !chunkHashMatches(data, info)) return false;
+                decoded = data;
+                return true;
+            },
+            fileName: manifest.file_name,
+        });
+        return decoded;
+    } finally {
+        pool.close(dataRelays);
+    }
+}
+
+/**
+ * Re-query chosen relays for chunks a download could not collect
+ * Unencrypted chunks are checked against the manifest's chunk hashes here; encrypted
+ * ones can only be checked once decrypted, which the next download does anyway.
+ * @returns indices that were recovered (now in the chunk cache)
+ */
+export async function retryMissingChunks(
+    pubkey: string,
+    manifest: Manifest,
+    indices: number[],
+    relays: string[]
+): Promise<number[]> {
+    const chunkInfoByIndex = new Map(manifest.chunks?.map(info => [info.index, info]));
+    const pool = createPool();
+    try {
+        return await retryChunks(pool, relays, pubkey, manifest.file_hash, manifest.total_chunks, indices, manifest.chunks, {
+            verifyChunk: manifest.encryption === 'nip44'
+                ? undefined
+                : (chunk) => {
+                    const data = decodeBase64Chunk(chunk);
+                    return !!data && chunkHashMatches(data, chunkInfoByIndex.get(chunk.index));
+                },
+            fileName: manifest.file_name,
+        });
+    } finally {
+        pool.close(relays);
+    }
+}
+
+/**
+ * Stream a file to a sink in chunk order, verifying every chunk and the final file hash
+ * The sink is closed on success and aborted on any failure, so unverified
+ * data is never committed to disk.
+ *
+ * @param sharedPool Pool owned by the caller (e.g. for multi-file downloads); its relays are left open
+ */
+export async function streamFileToSink(
+    pubkey: string,
+    manifest: Manifest,
+    sink: FileSink,
+    decodeChunk: ChunkDecoder,
+    onProgress?: (progress: number) => void,
+    abortSignal?: AbortSignal,
+    sharedPool?: SimplePool
+): Promise<void> {
+    const pool = sharedPool ?? createPool();
+    const dataRelays = getDataRelays(manifest.relays);
+    const chunkInfoByIndex = new Map(manifest.chunks?.map(info => [info.index, info]));
+    const decodedByIndex = new Map<number, Uint8Array>();
+    const hasher = createFileHasher();
+    let written = 0;
+
+    try {
+        await streamChunks(
+            pool,
+            dataRelays,
+            pubkey,
+            manifest.file_hash,
+            manifest.total_chunks,
+            manifest.chunks,
+            async (chunk) => {
+                const data = decodedByIndex.get(chunk.index) ?? await decodeChunk(chunk);
+                decodedByIndex.delete(chunk.index);
+                if (!data) throw new Error(`Chunk ${chunk.index} could not be decoded`);
+
+                hasher.update(data);
+                await sink.write(data);
+                written++;
+                if (onProgress && !abortSignal?.aborted) {
+                    onProgress(written / manifest.total_chunks);
+                }
+            },
+            {
+                // Decoded bytes are kept until the chunk is written so each chunk is decoded once
+                verifyChunk: async (chunk) => {
+                    const data = await decodeChunk(chunk);
+                    if (!data || !chunkHashMatches(data, chunkInfoByIndex.get(chunk.index))) return false;
+                    decodedByIndex.set(chunk.index, data);
+                    return true;
+                },
+                abortSignal,
+                fileName: manifest.file_name,
+            }
+        );
+
+        hasher.verify(manifest.file_hash);
+        await sink.close();
+    } catch (err) {
+        await sink.abort().catch(() => undefined);
+        throw err;
+    } finally {
+        decodedByIndex.clear();
+        if (!sharedPool) pool.close(dataRelays);
     }
 }
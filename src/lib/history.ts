@@ -0,0 +1,178 @@
+/**
+ * Recently viewed public keys and starred files
+ * Stored in localStorage. Only public data is kept (hex public keys, file hashes,
+ * names and relay hints); secret keys never reach this module.
+ */
+
+import { isValidHexPubkey } from './keys';
+
+export interface RecentKey {
+    pubkey: string;
+    /** Profile name, once the author's kind 0 metadata has been seen */
+    name?: string;
+    relays: string[];
+    viewedAt: number;
+}
+
+export interface StarredFile {
+    pubkey: string;
+    fileHash: string;
+    fileName: string;
+    relays: string[];
+    starredAt: number;
+}
+
+export interface BrowsingHistory {
+    recentKeys: RecentKey[];
+    starredFiles: StarredFile[];
+}
+
+const STORAGE_KEY = 'nostrfetch:history';
+const MAX_RECENT_KEYS = 12;
+const EMPTY_HISTORY: BrowsingHistory = { recentKeys: [], starredFiles: [] };
+
+const listeners = new Set<() => void>();
+let cachedHistory: BrowsingHistory | null = null;
+
+function isStringArray(value: unknown): value is string[] {
+    return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isRecentKey(value: unknown): value is RecentKey {
+    if (!value || typeof value !== 'object') return false;
+    const entry = value as Record<string, unknown>;
+    return typeof entry.pubkey === 'string'
+        && isValidHexPubkey(entry.pubkey)
+        && (entry.name === undefined || typeof entry.name === 'string')
+        && isStringArray(entry.relays)
+        && typeof entry.viewedAt === 'number';
+}
+
+function isStarredFile(value: unknown): value is StarredFile {
+    if (!value || typeof value !== 'object') return false;
+    const entry = value as Record<string, unknown>;
+    return typeof entry.pubkey === 'string'
+        && isValidHexPubkey(entry.pubkey)
+        && typeof entry.fileHash === 'string'
+        && /^[0-9a-f]{64}$/.test(entry.fileHash)
+        && typeof entry.fileName === 'string'
+        && isStringArray(entry.relays)
+        && typeof entry.starredAt === 'number';
+}
+
+/**
+ * Load the saved history (empty when nothing has been saved)
+ */
+export function loadHistory(): BrowsingHistory {
+    if (cachedHistory) return cachedHistory;
+
+    let history = EMPTY_HISTORY;
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const parsed = JSON.parse(stored) as Partial<Record<keyof BrowsingHistory, unknown>>;
+            history = {
+                recentKeys: Array.isArray(parsed.recentKeys) ? parsed.recentKeys.filter(isRecentKey) : [],
+                starredFiles: Array.isArray(parsed.starredFiles) ? parsed.starredFiles.filter(isStarredFile) : [],
+            };
+        }
+    } catch {
+        console.error('Failed to parse saved history');
+    }
+
+    cachedHistory = history;
+    return history;
+}
+
+function saveHistory(history: BrowsingHistory): void {
+    cachedHistory = history;
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+    } catch {
+        console.error('Failed to save history');
+    }
+    listeners.forEach(listener => listener());
+}
+
+function assertPublicKey(pubkey: string): void {
+    // Guards against a secret key (or anything else) being passed by mistake
+    if (!isValidHexPubkey(pubkey)) {
+        throw new Error('History only stores hex public keys');
+    }
+}
+
+/**
+ * Move a public key to the top of the recently viewed list
+ */
+export function recordKeyVisit(pubkey: string, relays: string[]): void {
+    assertPublicKey(pubkey);
+    const history = loadHistory();
+    const previous = history.recentKeys.find(entry => entry.pubkey === pubkey);
+    const entry: RecentKey = {
+        pubkey,
+        name: previous?.name,
+        // Keep earlier hints when revisiting through a plain npub link
+        relays: relays.length > 0 ? relays : previous?.relays ?? [],
+        viewedAt: Date.now(),
+    };
+    saveHistory({
+        ...history,
+        recentKeys: [entry, ...history.recentKeys.filter(other => other.pubkey !== pubkey)].slice(0, MAX_RECENT_KEYS),
+    });
+}
+
+/**
+ * Remember the profile name for a recently viewed key
+ */
+export function recordProfileName(pubkey: string, name: string): void {
+    const history = loadHistory();
+    const entry = history.recentKeys.find(other => other.pubkey === pubkey);
+    if (!entry || entry.name === name) return;
+    saveHistory({
+        ...history,
+        recentKeys: history.recentKeys.map(other => (other === entry ? { ...other, name } : other)),
+    });
+}
+
+/**
+ * Star or unstar a file
+ */
+export function setFileStarred(file: Omit<StarredFile, 'starredAt'>, starred: boolean): void {
+    assertPublicKey(file.pubkey);
+    const fileHash = file.fileHash.toLowerCase();
+    const history = loadHistory();
+    const others = history.starredFiles.filter(
+        entry => entry.pubkey !== file.pubkey || entry.fileHash !== fileHash
+    );
+    saveHistory({
+        ...history,
+        starredFiles: starred ? [{ ...file, fileHash, starredAt: Date.now() }, ...others] : others,
+    });
+}
+
+/**
+ * Check whether a file is starred
+ */
+export function isFileStarred(history: BrowsingHistory, pubkey: string, fileHash: string): boolean {
+    const hash = fileHash.toLowerCase();
+    return history.starredFiles.some(entry => entry.pubkey === pubkey && entry.fileHash === hash);
+}
+
+/**
+ * Forget all recently viewed keys and starred files
+ */
+export function clearHistory(): void {
+    localStorage.removeItem(STORAGE_KEY);
+    cachedHistory = EMPTY_HISTORY;
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Subscribe to history changes (useSyncExternalStore compatible)
+ */
+export function subscribeHistory(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
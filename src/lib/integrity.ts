@@ -0,0 +1,60 @@
+/**
+ * Integrity checks for nostrsave data
+ * Verifies chunk data against ChunkInfo.hash and files against Manifest.file_hash
+ */
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import type { ChunkInfo } from './types';
+
+/**
+ * Normalize a hash string for comparison
+ * Accepts plain hex or a "sha256:" prefixed hex digest
+ */
+export function normalizeHash(hash: string): string {
+    const trimmed = hash.trim().toLowerCase();
+    return trimmed.startsWith('sha256:') ? trimmed.slice('sha256:'.length) : trimmed;
+}
+
+/**
+ * SHA-256 of the given bytes as lowercase hex
+ */
+export function sha256Hex(data: Uint8Array): string {
+    return bytesToHex(sha256(data));
+}
+
+/**
+ * Check decoded chunk data against its manifest entry
+ * Chunks without a recorded hash are accepted as-is
+ */
+export function chunkHashMatches(data: Uint8Array, info: ChunkInfo | undefined): boolean {
+    if (!info?.hash) return true;
+    return sha256Hex(data) === normalizeHash(info.hash);
+}
+
+export interface FileHasher {
+    update: (part: Uint8Array) => void;
+    /**
+     * @throws Error if the digest does not match the expected file hash
+     */
+    verify: (expectedHash: string) => void;
+}
+
+/**
+ * Create an incremental SHA-256 hasher checked against Manifest.file_hash
+ */
+export function createFileHasher(): FileHasher {
+    const hasher = sha256.create();
+    return {
+        update: (part) => {
+            hasher.update(part);
+        },
+        verify: (expectedHash) => {
+            const actual = bytesToHex(hasher.digest());
+            const expected = normalizeHash(expectedHash);
+            if (actual !== expected) {
+                throw new Error(`Integrity check failed: file hash is ${actual}, expected ${expected}`);
+            }
+        },
+    };
+}
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as nip44 from 'nostr-tools/nip44';
+import { SimplePool } from 'nostr-tools/pool';
+import { generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { connectBunker, startNostrConnect } from './keys';
+import { createMockPool, MOCK_RELAY, startMockBunker } from '../test/mockBunker';
+
+function encryptToSelf(secretKey: Uint8Array, plaintext: string): string {
+    return nip44.v2.encrypt(plaintext, nip44.v2.utils.getConversationKey(secretKey, getPublicKey(secretKey)));
+}
+
+const isZeroed = (key: Uint8Array) => key.every(byte => byte === 0);
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('connectBunker', () => {
+    it('connects with a bunker:// URI and decrypts through the signer', async () => {
+        const mock = createMockPool();
+        const userSecretKey = generateSecretKey();
+        const bunker = startMockBunker(mock, userSecretKey);
+        const clientSecretKey = generateSecretKey();
+
+        const connection = await connectBunker(bunker.bunkerUri, { pool: mock.pool, clientSecretKey, timeout: 2000 });
+        expect(connection.pubkey).toBe(bunker.userPubkey);
+        expect(bunker.requests.slice(0, 2)).toEqual(['connect', 'get_public_key']);
+
+        const plaintext = await connection.nip44Decrypt(bunker.userPubkey, encryptToSelf(userSecretKey, 'chunk data'));
+        expect(plaintext).toBe('chunk data');
+
+        await connection.close();
+        expect(isZeroed(clientSecretKey)).toBe(true);
+        await expect(connection.nip44Decrypt(bunker.userPubkey, 'x')).rejects.toThrow('disconnected');
+        bunker.stop();
+    });
+
+    it('rejects and releases the client key when the signer refuses', async () => {
+        const mock = createMockPool();
+        const bunker = startMockBunker(mock);
+        const clientSecretKey = generateSecretKey();
+        const badUri = bunker.bunkerUri.replace('secret=mock-secret', 'secret=wrong');
+
+        await expect(connectBunker(badUri, { pool: mock.pool, clientSecretKey, timeout: 2000 })).rejects.toThrow('invalid secret');
+        expect(isZeroed(clientSecretKey)).toBe(true);
+        bunker.stop();
+    });
+});
+
+describe('startNostrConnect', () => {
+    it('resolves once the signer answers the nostrconnect:// URI', async () => {
+        const mock = createMockPool();
+        const bunker = startMockBunker(mock);
+        const session = startNostrConnect({ pool: mock.pool, relays: [MOCK_RELAY], timeout: 2000 });
+
+        bunker.pair(session.uri);
+        const connection = await session.connection;
+        expect(connection.pubkey).toBe(bunker.userPubkey);
+
+        await connection.close();
+        bunker.stop();
+        expect(mock.openSubscriptions()).toBe(0);
+    });
+
+    it('cancel rejects right away and zeroes the client key', async () => {
+        const mock = createMockPool();
+        const bunker = startMockBunker(mock);
+        const clientSecretKey = generateSecretKey();
+        const session = startNostrConnect({ pool: mock.pool, clientSecretKey, relays: [MOCK_RELAY] });
+
+        session.cancel();
+        await expect(session.connection).rejects.toThrow('Connection cancelled');
+        expect(isZeroed(clientSecretKey)).toBe(true);
+
+        // A late answer can no longer complete the pairing
+        bunker.pair(session.uri);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(bunker.requests).toEqual([]);
+        bunker.stop();
+    });
+
+    it('cancel destroys the pool it created', async () => {
+        const closers: Array<() => void> = [];
+        vi.spyOn(SimplePool.prototype, 'subscribe').mockImplementation((_relays, _filter, params) => {
+            const close = () => params.onclose?.(['closed']);
+            closers.push(close);
+            return { close };
+        });
+        const destroy = vi.spyOn(SimplePool.prototype, 'destroy').mockImplementation(() => {
+            closers.forEach(close => close());
+        });
+
+        const session = startNostrConnect({ relays: [MOCK_RELAY] });
+        session.cancel();
+
+        await expect(session.connection).rejects.toThrow('Connection cancelled');
+        expect(destroy).toHaveBeenCalledTimes(1);
+    });
+});
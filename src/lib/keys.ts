@@ -1,10 +1,15 @@
 /**
  * Key management utilities for nostr
- * Handles nsec/npub conversion with secure erasure
+ * Handles nsec/npub conversion with secure erasure, and NIP-46 remote signer connections
  */
 
 import * as nip19 from 'nostr-tools/nip19';
-import { getPublicKey } from 'nostr-tools/pure';
+import { isNip05, isValid as isValidNip05, queryProfile } from 'nostr-tools/nip05';
+import { generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+import { BunkerSigner, createNostrConnectURI, parseBunkerInput } from 'nostr-tools/nip46';
+import { SimplePool } from 'nostr-tools/pool';
+import type { AbstractSimplePool } from 'nostr-tools/abstract-pool';
+import { bytesToHex } from '@noble/hashes/utils.js';
 
 /**
  * Decode an nsec string to a secret key Uint8Array
@@ -85,31 +90,327 @@ export function isValidHexPubkey(input: string): boolean {
     return /^[0-9a-fA-F]{64}$/.test(input);
 }
 
+/**
+ * Validate if a string is a valid nprofile
+ */
+export function isValidNprofile(input: string): boolean {
+    if (!input.startsWith('nprofile1')) return false;
+    try {
+        const decoded = nip19.decode(input);
+        return decoded.type === 'nprofile';
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Decode an nprofile to a hex public key and its relay hints
+ * @throws Error if nprofile is invalid
+ */
+export function decodeNprofile(nprofile: string): { pubkey: string; relays: string[] } {
+    const decoded = nip19.decode(nprofile);
+    if (decoded.type !== 'nprofile') {
+        throw new Error('Invalid nprofile format');
+    }
+    return { pubkey: decoded.data.pubkey, relays: decoded.data.relays ?? [] };
+}
+
+/**
+ * Check if input looks like a NIP-05 identifier (name@domain)
+ */
+export function isNip05Identifier(input: string): boolean {
+    return input.includes('@') && isNip05(input);
+}
+
+/**
+ * Resolve a NIP-05 identifier through the domain's /.well-known/nostr.json
+ * @throws Error if the domain does not list the name
+ */
+export async function resolveNip05(identifier: string): Promise<{ pubkey: string; relays: string[] }> {
+    const profile = await queryProfile(identifier);
+    if (!profile) {
+        throw new Error(`Could not resolve ${identifier}`);
+    }
+    return { pubkey: profile.pubkey, relays: profile.relays ?? [] };
+}
+
+const nip05VerificationCache = new Map<string, Promise<boolean>>();
+
+/**
+ * Check that a NIP-05 identifier points back to the given public key
+ * Results are cached for the session.
+ */
+export function verifyNip05(pubkey: string, identifier: string): Promise<boolean> {
+    const key = `${pubkey}:${identifier.toLowerCase()}`;
+    const cached = nip05VerificationCache.get(key);
+    if (cached) return cached;
+
+    const request = isNip05Identifier(identifier)
+        ? isValidNip05(pubkey, identifier as `${string}@${string}`)
+        : Promise.resolve(false);
+    nip05VerificationCache.set(key, request);
+    return request;
+}
+
 /**
  * Normalize any key input to hex public key
- * Accepts: npub, nsec (derives pubkey), or hex
+ * Accepts: npub, nprofile (keeps its relay hints), nsec (derives pubkey), or hex
  * For nsec: returns { pubkey, secretKey } so caller can clear secretKey
  * For others: returns { pubkey, secretKey: null }
  */
 export function normalizeToPublicKey(input: string): {
     pubkey: string;
     secretKey: Uint8Array | null;
+    relays: string[];
 } {
     const trimmed = input.trim();
 
     if (isValidNpub(trimmed)) {
-        return { pubkey: npubToPublicKey(trimmed), secretKey: null };
+        return { pubkey: npubToPublicKey(trimmed), secretKey: null, relays: [] };
+    }
+
+    if (isValidNprofile(trimmed)) {
+        return { ...decodeNprofile(trimmed), secretKey: null };
     }
 
     if (isValidNsec(trimmed)) {
         const sk = nsecToSecretKey(trimmed);
         const pubkey = getPublicKeyFromSecret(sk);
-        return { pubkey, secretKey: sk };
+        return { pubkey, secretKey: sk, relays: [] };
     }
 
     if (isValidHexPubkey(trimmed)) {
-        return { pubkey: trimmed.toLowerCase(), secretKey: null };
+        return { pubkey: trimmed.toLowerCase(), secretKey: null, relays: [] };
     }
 
-    throw new Error('Invalid key format. Use npub, nsec, or hex public key.');
+    throw new Error('Invalid key format. Use npub, nprofile, nsec, or hex public key.');
+}
+
+/**
+ * NIP-46 remote signers (nsecBunker, Amber, ...)
+ * The app talks to the signer with a throwaway client key; the user's key never leaves the signer.
+ */
+
+/** Permissions asked for up front so the signer can approve a whole file at once */
+export const REMOTE_SIGNER_PERMISSIONS = ['get_public_key', 'nip44_decrypt'];
+
+/** Decrypt requests kept in flight to a remote signer */
+export const REMOTE_SIGNER_BATCH_SIZE = 8;
+
+/** Relays advertised in nostrconnect:// URIs */
+export const NOSTR_CONNECT_RELAYS = ['wss://relay.nsec.app', 'wss://relay.damus.io'];
+
+const REMOTE_SIGNER_TIMEOUT = 60_000;
+// NIP-46 requests are NIP-44 encrypted themselves, which caps them at 65535 bytes
+const MAX_REMOTE_REQUEST_BYTES = 65535;
+const REMOTE_REQUEST_OVERHEAD = 200;
+const NOSTR_CONNECT_TIMEOUT = 300_000;
+
+export interface RemoteSignerOptions {
+    /** Pool used to reach the signer's relays (inject one to run against a local mock bunker) */
+    pool?: AbstractSimplePool;
+    /** Client key for the NIP-46 channel; a fresh one is generated when omitted */
+    clientSecretKey?: Uint8Array;
+    /** Called when the signer asks the user to approve in a browser window */
+    onauth?: (url: string) => void;
+    /** Per-request timeout in ms */
+    timeout?: number;
+}
+
+export interface RemoteSignerConnection {
+    /** The user's public key as reported by the signer */
+    pubkey: string;
+    /** Remote signer's own key */
+    signerPubkey: string;
+    nip44Decrypt(peerPubkey: string, ciphertext: string): Promise<string>;
+    /** Close the channel and zero the client key */
+    close(): Promise<void>;
+}
+
+/**
+ * Check for a bunker:// URI
+ */
+export function isBunkerUri(input: string): boolean {
+    return input.trim().startsWith('bunker://');
+}
+
+function withTimeout<T>(promise: Promise<T>, timeout: number, message: string): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(message)), timeout);
+        promise.then(
+            (value) => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            (err) => {
+                clearTimeout(timer);
+                // The bunker replies with plain strings as errors
+                reject(err instanceof Error ? err : new Error(String(err)));
+            }
+        );
+    });
+}
+
+/**
+ * Resources behind one signer channel; released together
+ */
+function createChannelResources(options: RemoteSignerOptions): {
+    pool: AbstractSimplePool;
+    clientSecretKey: Uint8Array;
+    release: () => void;
+} {
+    const ownsPool = !options.pool;
+    const pool = options.pool ?? new SimplePool();
+    const clientSecretKey = options.clientSecretKey ?? generateSecretKey();
+    let released = false;
+    return {
+        pool,
+        clientSecretKey,
+        release: () => {
+            if (released) return;
+            released = true;
+            clearSecretKey(clientSecretKey);
+            if (ownsPool) pool.destroy();
+        },
+    };
+}
+
+function toRemoteSignerConnection(
+    signer: BunkerSigner,
+    pubkey: string,
+    timeout: number,
+    release: () => void
+): RemoteSignerConnection {
+    let closed = false;
+    return {
+        pubkey,
+        signerPubkey: signer.bp.pubkey,
+        nip44Decrypt: (peerPubkey, ciphertext) => {
+            if (closed) return Promise.reject(new Error('Remote signer is disconnected'));
+            if (ciphertext.length + peerPubkey.length + REMOTE_REQUEST_OVERHEAD > MAX_REMOTE_REQUEST_BYTES) {
+                return Promise.reject(new Error('Chunk is too large to send to a remote signer'));
+            }
+            return withTimeout(
+                signer.nip44Decrypt(peerPubkey, ciphertext),
+                timeout,
+                'Remote signer did not respond'
+            );
+        },
+        close: async () => {
+            if (closed) return;
+            closed = true;
+            await signer.close();
+            release();
+        },
+    };
+}
+
+/**
+ * Connect to a remote signer from a bunker:// URI (or a NIP-05 bunker address)
+ * @throws Error if the URI is invalid, the signer refuses, or it does not answer in time
+ */
+export async function connectBunker(input: string, options: RemoteSignerOptions = {}): Promise<RemoteSignerConnection> {
+    const pointer = await parseBunkerInput(input.trim());
+    if (!pointer) {
+        throw new Error('Invalid bunker URI');
+    }
+
+    if (pointer.relays.length === 0) {
+        throw new Error('Bunker URI has no relays');
+    }
+
+    const timeout = options.timeout ?? REMOTE_SIGNER_TIMEOUT;
+    const { pool, clientSecretKey, release } = createChannelResources(options);
+    const signer = BunkerSigner.fromBunker(clientSecretKey, pointer, { pool, onauth: options.onauth });
+
+    try {
+        // Ask for decrypt permission during connect so the signer can approve it once
+        await withTimeout(
+            signer.sendRequest('connect', [pointer.pubkey, pointer.secret ?? '', REMOTE_SIGNER_PERMISSIONS.join(',')]),
+            timeout,
+            'Remote signer did not respond to connect'
+        );
+        const pubkey = await withTimeout(signer.getPublicKey(), timeout, 'Remote signer did not return a public key');
+        return toRemoteSignerConnection(signer, pubkey, timeout, release);
+    } catch (err) {
+        await signer.close();
+        release();
+        throw err;
+    }
+}
+
+export interface NostrConnectSession {
+    /** nostrconnect:// URI to show as a QR code or copy into the signer */
+    uri: string;
+    /** Resolves once the signer has scanned the URI and answered */
+    connection: Promise<RemoteSignerConnection>;
+    /**
+     * Stop waiting: the connection rejects, the pairing subscription's pool (unless injected)
+     * is destroyed and the client key is zeroed. A signer that connects later is disconnected.
+     */
+    cancel(): void;
+}
+
+/**
+ * Start a nostrconnect:// pairing where the signer initiates the connection
+ */
+export function startNostrConnect(
+    options: RemoteSignerOptions & { relays?: string[]; appName?: string; maxWait?: number } = {}
+): NostrConnectSession {
+    const timeout = options.timeout ?? REMOTE_SIGNER_TIMEOUT;
+    const { pool, clientSecretKey, release } = createChannelResources(options);
+    const uri = createNostrConnectURI({
+        clientPubkey: getPublicKey(clientSecretKey),
+        relays: options.relays ?? NOSTR_CONNECT_RELAYS,
+        secret: bytesToHex(generateSecretKey()).slice(0, 16),
+        perms: REMOTE_SIGNER_PERMISSIONS,
+        name: options.appName ?? 'nostrfetch',
+        url: typeof location !== 'undefined' ? location.origin : undefined,
+    });
+
+    let cancelled = false;
+    let connected = false;
+    let rejectCancelled: (err: Error) => void = () => undefined;
+    const cancellation = new Promise<never>((_, reject) => {
+        rejectCancelled = reject;
+    });
+    const untilCancelled = <T>(promise: Promise<T>) => Promise.race([promise, cancellation]);
+
+    const pairing = BunkerSigner.fromURI(
+        clientSecretKey,
+        uri,
+        { pool, onauth: options.onauth },
+        options.maxWait ?? NOSTR_CONNECT_TIMEOUT
+    );
+    pairing.then(
+        (signer) => {
+            if (cancelled) void signer.close();
+        },
+        () => undefined
+    );
+
+    const connection = untilCancelled(pairing).then(async (signer) => {
+        try {
+            const pubkey = await untilCancelled(
+                withTimeout(signer.getPublicKey(), timeout, 'Remote signer did not return a public key')
+            );
+            connected = true;
+            return toRemoteSignerConnection(signer, pubkey, timeout, release);
+        } catch (err) {
+            await signer.close();
+            throw err;
+        }
+    });
+    connection.catch(release);
+
+    return {
+        uri,
+        connection,
+        cancel: () => {
+            if (cancelled || connected) return;
+            cancelled = true;
+            rejectCancelled(new Error('Connection cancelled'));
+            release();
+        },
+    };
 }
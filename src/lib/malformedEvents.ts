@@ -0,0 +1,50 @@
+/**
+ * Events whose content could not be read
+ * Kept for the session so the UI can show what was skipped and why, instead of
+ * the problem only reaching the console.
+ */
+
+import type { SchemaIssue } from './schema';
+
+export interface MalformedEvent {
+    eventId: string;
+    kind: number;
+    pubkey: string;
+    dTag?: string;
+    /** Relays that served the event */
+    relays: string[];
+    /** Field-level problems (a single root issue for unparseable JSON) */
+    issues: SchemaIssue[];
+    reportedAt: number;
+}
+
+const MAX_REPORTS = 100;
+
+const listeners = new Set<() => void>();
+let reports: readonly MalformedEvent[] = [];
+
+/**
+ * Record a malformed event (repeat reports of the same event are ignored)
+ */
+export function reportMalformedEvent(report: Omit<MalformedEvent, 'reportedAt'>): void {
+    if (reports.some(existing => existing.eventId === report.eventId)) return;
+    reports = [{ ...report, reportedAt: Date.now() }, ...reports].slice(0, MAX_REPORTS);
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Every malformed event seen this session, newest first (useSyncExternalStore compatible)
+ */
+export function getMalformedEvents(): readonly MalformedEvent[] {
+    return reports;
+}
+
+/**
+ * Subscribe to new reports
+ */
+export function subscribeMalformedEvents(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
@@ -0,0 +1,242 @@
+/**
+ * Progressive media playback
+ * A <video>/<audio> element points at a URL served by public/download-sw.js. The worker
+ * forwards each HTTP Range request here, and only the chunks covering that range are
+ * fetched (by event id, persistent cache first), so playback starts after the first few
+ * chunks and seeking jumps straight to the chunks it needs.
+ */
+
+import { createPool, fetchChunksByInfo, hasChunkEventIds } from './nostr';
+import { getDataRelays } from './relaySettings';
+import { chunkHashMatches } from './integrity';
+import { decodeBase64Chunk, type ChunkDecoder } from './fileUtils';
+import { getDownloadServiceWorker } from './fileSink';
+import type { Manifest } from './types';
+
+const STREAM_PATH_PREFIX = `${import.meta.env.BASE_URL}__nostrfetch_stream__/`;
+// Chunks requested per relay round trip
+const STREAM_WINDOW_SIZE = 8;
+// Decoded chunks kept around for the overlapping ranges players tend to re-request
+const MAX_CACHED_BYTES = 16 * 1024 * 1024;
+const CONTROLLER_TIMEOUT = 3000;
+// An idle worker may be stopped, which would forget the stream while playback is paused
+const SW_KEEPALIVE_INTERVAL = 10000;
+
+/**
+ * A running stream; its URL stops working once closed
+ */
+export interface MediaStreamSession {
+    /** Use as the media element's src */
+    url: string;
+    close(): void;
+}
+
+export interface MediaStreamOptions {
+    /** Defaults to base64 decoding (unencrypted files) */
+    decodeChunk?: ChunkDecoder;
+    /** Called whenever a chunk is fetched for the first time */
+    onChunkLoaded?: (loaded: number, total: number) => void;
+}
+
+/**
+ * Check whether a file can be played progressively in this browser
+ * Needs a service worker and an event id for every chunk.
+ */
+export function canStreamMedia(manifest: Manifest): boolean {
+    if (!('serviceWorker' in navigator) || !window.isSecureContext) return false;
+    if (manifest.total_chunks === 0 || manifest.chunk_size <= 0) return false;
+    return hasChunkEventIds(manifest.total_chunks, manifest.chunks);
+}
+
+/**
+ * Media requests only go through the worker once it controls the page
+ */
+async function waitForController(): Promise<void> {
+    if (navigator.serviceWorker.controller) return;
+    await new Promise<void>((resolve) => {
+        const timer = window.setTimeout(resolve, CONTROLLER_TIMEOUT);
+        navigator.serviceWorker.addEventListener('controllerchange', () => {
+            window.clearTimeout(timer);
+            resolve();
+        }, { once: true });
+    });
+    if (!navigator.serviceWorker.controller) {
+        throw new Error('Streaming playback needs the service worker; reload the page and try again.');
+    }
+}
+
+/**
+ * Start serving a file to a media element
+ * @throws Error if the service worker is unavailable or does not control the page
+ */
+export async function createMediaStream(
+    pubkey: string,
+    manifest: Manifest,
+    mimeType: string,
+    options: MediaStreamOptions = {}
+): Promise<MediaStreamSession> {
+    const { decodeChunk = decodeBase64Chunk, onChunkLoaded } = options;
+
+    const worker = await getDownloadServiceWorker();
+    await waitForController();
+
+    const id = crypto.randomUUID();
+    const channel = new MessageChannel();
+    const port = channel.port1;
+    const pool = createPool();
+    const relays = getDataRelays(manifest.relays);
+    const infos = [...manifest.chunks].sort((a, b) => a.index - b.index);
+    const lastIndex = manifest.total_chunks - 1;
+
+    const decoded = new Map<number, Uint8Array>();
+    const inFlight = new Map<number, Promise<Uint8Array>>();
+    const loadedIndices = new Set<number>();
+    // Open range responses, with a callback that wakes a range waiting for the player to pull
+    const activeRanges = new Map<MessagePort, () => void>();
+    let cachedBytes = 0;
+    let closed = false;
+
+    const remember = (index: number, data: Uint8Array) => {
+        if (decoded.has(index)) return;
+        decoded.set(index, data);
+        cachedBytes += data.length;
+        // Map order doubles as LRU order: hits are re-inserted at the end
+        for (const [oldIndex, oldData] of decoded) {
+            if (cachedBytes <= MAX_CACHED_BYTES || oldIndex === index) break;
+            decoded.delete(oldIndex);
+            cachedBytes -= oldData.length;
+        }
+        if (!loadedIndices.has(index)) {
+            loadedIndices.add(index);
+            onChunkLoaded?.(loadedIndices.size, manifest.total_chunks);
+        }
+    };
+
+    const requestWindow = (fromIndex: number) => {
+        const wanted = infos
+            .slice(fromIndex, Math.min(fromIndex + STREAM_WINDOW_SIZE, manifest.total_chunks))
+            .filter(info => !decoded.has(info.index) && !inFlight.has(info.index));
+        if (wanted.length === 0) return;
+
+        const verified = new Map<number, Uint8Array>();
+        const batch = fetchChunksByInfo(pool, relays, pubkey, manifest.file_hash, manifest.total_chunks, wanted, {
+            verifyChunk: async (chunk) => {
+                const data = await decodeChunk(chunk);
+                if (!data || !chunkHashMatches(data, infos[chunk.index])) return false;
+                verified.set(chunk.index, data);
+                return true;
+            },
+            fileName: manifest.file_name,
+        });
+
+        for (const info of wanted) {
+            const promise = batch
+                .then(() => {
+                    const data = verified.get(info.index);
+                    if (!data) throw new Error(`Missing chunk ${info.index} of ${manifest.total_chunks}: not found on any relay`);
+                    if (info.index < lastIndex && data.length !== manifest.chunk_size) {
+                        throw new Error(`Chunk ${info.index} has an unexpected size`);
+                    }
+                    remember(info.index, data);
+                    return data;
+                })
+                .finally(() => inFlight.delete(info.index));
+            // Surface failures when the chunk is awaited, not as unhandled rejections
+            promise.catch(() => undefined);
+            inFlight.set(info.index, promise);
+        }
+    };
+
+    const loadChunk = async (index: number, rangeLastIndex: number): Promise<Uint8Array> => {
+        const cached = decoded.get(index);
+        if (cached) {
+            decoded.delete(index);
+            decoded.set(index, cached);
+            return cached;
+        }
+        requestWindow(index);
+        // Prefetch the next window of this range while the current one is delivered
+        if (index + STREAM_WINDOW_SIZE <= rangeLastIndex) {
+            requestWindow(index + STREAM_WINDOW_SIZE);
+        }
+        const pending = inFlight.get(index);
+        if (!pending) throw new Error(`Chunk ${index} is not listed in the manifest`);
+        return pending;
+    };
+
+    /**
+     * Send bytes start..end (inclusive) to the worker, one chunk per pull
+     */
+    const serveRange = async (rangePort: MessagePort, start: number, end: number) => {
+        let credits = 0;
+        let cancelled = false;
+        let waiter: (() => void) | null = null;
+        const wake = () => {
+            const resolve = waiter;
+            waiter = null;
+            resolve?.();
+        };
+        rangePort.onmessage = ({ data }) => {
+            if (data?.type === 'pull') credits++;
+            if (data?.type === 'cancel') cancelled = true;
+            wake();
+        };
+        activeRanges.set(rangePort, wake);
+
+        try {
+            const firstChunk = Math.floor(start / manifest.chunk_size);
+            const lastChunk = Math.min(Math.floor(end / manifest.chunk_size), lastIndex);
+            for (let index = firstChunk; index <= lastChunk; index++) {
+                const data = await loadChunk(index, lastChunk);
+                while (credits === 0 && !cancelled && !closed) {
+                    await new Promise<void>(resolve => { waiter = resolve; });
+                }
+                if (cancelled || closed) return;
+                credits--;
+
+                const chunkStart = index * manifest.chunk_size;
+                const piece = data.slice(Math.max(start - chunkStart, 0), Math.min(end - chunkStart + 1, data.length));
+                rangePort.postMessage({ type: 'chunk', chunk: piece }, [piece.buffer]);
+            }
+            rangePort.postMessage({ type: 'end' });
+        } catch (err) {
+            console.warn('[mediaStream] Range request failed:', err);
+            if (!closed) {
+                rangePort.postMessage({ type: 'error', message: err instanceof Error ? err.message : 'Stream failed' });
+            }
+        } finally {
+            activeRanges.delete(rangePort);
+            rangePort.close();
+        }
+    };
+
+    const registered = new Promise<void>((resolve) => {
+        port.onmessage = ({ data, ports }) => {
+            if (data?.type === 'registered') resolve();
+            if (data?.type === 'range' && ports[0] && !closed) {
+                void serveRange(ports[0], data.start, data.end);
+            }
+        };
+    });
+    worker.postMessage({ type: 'register-stream', id, mimeType, size: manifest.file_size }, [channel.port2]);
+    await registered;
+    const keepalive = window.setInterval(() => worker.postMessage({ type: 'keepalive' }), SW_KEEPALIVE_INTERVAL);
+
+    return {
+        url: `${STREAM_PATH_PREFIX}${id}`,
+        close: () => {
+            if (closed) return;
+            closed = true;
+            window.clearInterval(keepalive);
+            worker.postMessage({ type: 'unregister-stream', id });
+            for (const [rangePort, wake] of activeRanges) {
+                rangePort.postMessage({ type: 'error', message: 'Stream closed' });
+                wake();
+            }
+            activeRanges.clear();
+            port.close();
+            decoded.clear();
+            pool.close(relays);
+        },
+    };
+}
@@ -0,0 +1,266 @@
+/**
+ * File type registry
+ * One table maps extensions to MIME types and to the previewer that handles them;
+ * fileUtils, FileDetail and the preview components all read from here.
+ */
+
+import { getFileExtension } from './fileSearch';
+
+/**
+ * Which previewer renders a file (see PREVIEW_VIEWERS in FilePreview.tsx)
+ */
+export type PreviewKind =
+    | 'image'
+    | 'video'
+    | 'audio'
+    | 'pdf'
+    | 'markdown'
+    | 'code'
+    | 'text'
+    | 'csv'
+    | 'tsv'
+    | 'zip'
+    | 'tar'
+    | 'hex';
+
+interface FileType {
+    mime: string;
+    preview: PreviewKind;
+    /** highlight.js language for code previews */
+    language?: string;
+}
+
+const FILE_TYPES: Record<string, FileType> = {
+    jpg: { mime: 'image/jpeg', preview: 'image' },
+    jpeg: { mime: 'image/jpeg', preview: 'image' },
+    png: { mime: 'image/png', preview: 'image' },
+    gif: { mime: 'image/gif', preview: 'image' },
+    webp: { mime: 'image/webp', preview: 'image' },
+    avif: { mime: 'image/avif', preview: 'image' },
+    svg: { mime: 'image/svg+xml', preview: 'image' },
+    mp4: { mime: 'video/mp4', preview: 'video' },
+    m4v: { mime: 'video/mp4', preview: 'video' },
+    webm: { mime: 'video/webm', preview: 'video' },
+    mov: { mime: 'video/quicktime', preview: 'video' },
+    mp3: { mime: 'audio/mpeg', preview: 'audio' },
+    aac: { mime: 'audio/aac', preview: 'audio' },
+    m4a: { mime: 'audio/mp4', preview: 'audio' },
+    wav: { mime: 'audio/wav', preview: 'audio' },
+    ogg: { mime: 'audio/ogg', preview: 'audio' },
+    oga: { mime: 'audio/ogg', preview: 'audio' },
+    opus: { mime: 'audio/ogg', preview: 'audio' },
+    flac: { mime: 'audio/flac', preview: 'audio' },
+    pdf: { mime: 'application/pdf', preview: 'pdf' },
+    txt: { mime: 'text/plain', preview: 'text' },
+    log: { mime: 'text/plain', preview: 'text' },
+    md: { mime: 'text/markdown', preview: 'markdown' },
+    markdown: { mime: 'text/markdown', preview: 'markdown' },
+    csv: { mime: 'text/csv', preview: 'csv' },
+    tsv: { mime: 'text/tab-separated-values', preview: 'tsv' },
+    json: { mime: 'application/json', preview: 'code', language: 'json' },
+    js: { mime: 'text/javascript', preview: 'code', language: 'javascript' },
+    mjs: { mime: 'text/javascript', preview: 'code', language: 'javascript' },
+    jsx: { mime: 'text/javascript', preview: 'code', language: 'javascript' },
+    ts: { mime: 'text/typescript', preview: 'code', language: 'typescript' },
+    tsx: { mime: 'text/typescript', preview: 'code', language: 'typescript' },
+    css: { mime: 'text/css', preview: 'code', language: 'css' },
+    // Shown as source: rendering uploaded HTML would run it with the app's origin
+    html: { mime: 'text/html', preview: 'code', language: 'xml' },
+    htm: { mime: 'text/html', preview: 'code', language: 'xml' },
+    xml: { mime: 'application/xml', preview: 'code', language: 'xml' },
+    yaml: { mime: 'application/yaml', preview: 'code', language: 'yaml' },
+    yml: { mime: 'application/yaml', preview: 'code', language: 'yaml' },
+    toml: { mime: 'application/toml', preview: 'code', language: 'ini' },
+    ini: { mime: 'text/plain', preview: 'code', language: 'ini' },
+    py: { mime: 'text/x-python', preview: 'code', language: 'python' },
+    rs: { mime: 'text/x-rust', preview: 'code', language: 'rust' },
+    go: { mime: 'text/x-go', preview: 'code', language: 'go' },
+    java: { mime: 'text/x-java', preview: 'code', language: 'java' },
+    kt: { mime: 'text/x-kotlin', preview: 'code', language: 'kotlin' },
+    swift: { mime: 'text/x-swift', preview: 'code', language: 'swift' },
+    c: { mime: 'text/x-c', preview: 'code', language: 'c' },
+    h: { mime: 'text/x-c', preview: 'code', language: 'c' },
+    cpp: { mime: 'text/x-c++', preview: 'code', language: 'cpp' },
+    hpp: { mime: 'text/x-c++', preview: 'code', language: 'cpp' },
+    cs: { mime: 'text/x-csharp', preview: 'code', language: 'csharp' },
+    rb: { mime: 'text/x-ruby', preview: 'code', language: 'ruby' },
+    php: { mime: 'text/x-php', preview: 'code', language: 'php' },
+    sh: { mime: 'application/x-sh', preview: 'code', language: 'bash' },
+    sql: { mime: 'application/sql', preview: 'code', language: 'sql' },
+    zip: { mime: 'application/zip', preview: 'zip' },
+    tar: { mime: 'application/x-tar', preview: 'tar' },
+    tgz: { mime: 'application/gzip', preview: 'tar' },
+};
+
+// Used when a manifest carries a MIME type but the name has no known extension
+const PREVIEW_BY_MIME: Record<string, PreviewKind> = {
+    'application/pdf': 'pdf',
+    'text/markdown': 'markdown',
+    'text/csv': 'csv',
+    'text/tab-separated-values': 'tsv',
+    'application/json': 'code',
+    'application/xml': 'code',
+    'text/html': 'code',
+    'application/zip': 'zip',
+    'application/x-zip-compressed': 'zip',
+    'application/x-tar': 'tar',
+};
+
+/**
+ * Look up a file's type by extension; `.tar.gz` counts as a tar archive
+ */
+function lookupFileType(fileName: string): FileType | null {
+    if (fileName.toLowerCase().endsWith('.tar.gz')) return FILE_TYPES.tgz;
+    return FILE_TYPES[getFileExtension(fileName)] ?? null;
+}
+
+/**
+ * Guess a MIME type from a file name
+ */
+export function getMimeTypeFromName(fileName: string): string | null {
+    return lookupFileType(fileName)?.mime ?? null;
+}
+
+/**
+ * Pick the previewer for a file; anything unrecognized gets a hex dump
+ */
+export function getPreviewKind(mimeType: string, fileName: string): PreviewKind {
+    const byName = lookupFileType(fileName);
+    if (byName) return byName.preview;
+
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('video/')) return 'video';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (PREVIEW_BY_MIME[mimeType]) return PREVIEW_BY_MIME[mimeType];
+    if (mimeType.includes('javascript')) return 'code';
+    if (mimeType.startsWith('text/')) return 'text';
+    return 'hex';
+}
+
+/**
+ * highlight.js language for a code file, if known
+ */
+export function getCodeLanguage(fileName: string): string | undefined {
+    return lookupFileType(fileName)?.language;
+}
+
+/**
+ * Media kinds are rendered from a URL (and may stream); the rest need the file's bytes
+ */
+export function isMediaPreview(kind: PreviewKind): boolean {
+    return kind === 'image' || kind === 'video' || kind === 'audio' || kind === 'pdf';
+}
+
+const TEXT_SNIFF_BYTES = 1024;
+
+// ZIP-based formats whose content sniffs as plain ZIP
+const ZIP_CONTAINERS = new Set([
+    'application/zip',
+    'application/x-zip-compressed',
+    'application/java-archive',
+    'application/epub+zip',
+    'application/vnd.android.package-archive',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+]);
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+    if (bytes.length < offset + signature.length) return false;
+    return signature.every((byte, i) => bytes[offset + i] === byte);
+}
+
+function ascii(text: string): number[] {
+    return Array.from(text, char => char.charCodeAt(0));
+}
+
+function looksLikeText(bytes: Uint8Array): boolean {
+    const sample = bytes.subarray(0, TEXT_SNIFF_BYTES);
+    if (sample.length === 0) return false;
+    for (const byte of sample) {
+        // Control characters other than tab, newlines, form feed and escape mean binary
+        if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c && byte !== 0x1b) {
+            return false;
+        }
+    }
+    try {
+        // stream: a multi-byte character cut off at the end of the sample is not an error
+        new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Detect a file type from its first bytes (e.g. the first decoded chunk)
+ * Covers PNG, JPEG, GIF, WebP, PDF, MP4, WebM, Ogg, ZIP, gzip and UTF-8 text.
+ */
+export function sniffMimeType(bytes: Uint8Array): string | null {
+    if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+    if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+    if (startsWith(bytes, ascii('GIF87a')) || startsWith(bytes, ascii('GIF89a'))) return 'image/gif';
+    if (startsWith(bytes, ascii('RIFF')) && startsWith(bytes, ascii('WEBP'), 8)) return 'image/webp';
+    if (startsWith(bytes, ascii('%PDF-'))) return 'application/pdf';
+    if (startsWith(bytes, ascii('ftyp'), 4)) {
+        const brand = String.fromCharCode(...bytes.subarray(8, 12));
+        if (brand === 'M4A ' || brand === 'M4B ') return 'audio/mp4';
+        if (brand === 'qt  ') return 'video/quicktime';
+        return 'video/mp4';
+    }
+    if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+        // EBML: WebM declares its doctype near the start, anything else is Matroska
+        const header = String.fromCharCode(...bytes.subarray(0, 64));
+        return header.includes('webm') ? 'video/webm' : 'video/x-matroska';
+    }
+    if (startsWith(bytes, ascii('OggS'))) return 'audio/ogg';
+    if (startsWith(bytes, [0x50, 0x4b, 0x03, 0x04]) || startsWith(bytes, [0x50, 0x4b, 0x05, 0x06])) {
+        return 'application/zip';
+    }
+    if (startsWith(bytes, [0x1f, 0x8b])) return 'application/gzip';
+    if (looksLikeText(bytes)) return 'text/plain';
+    return null;
+}
+
+function isTextual(mimeType: string): boolean {
+    return mimeType.startsWith('text/')
+        || mimeType === 'image/svg+xml'
+        || /[/+](json|xml|yaml|toml|sql|javascript|x-sh)$/.test(mimeType);
+}
+
+/**
+ * Check whether sniffed content is consistent with a declared type
+ * Sniffing only sees containers, so e.g. a .docx (ZIP) or .json (text) still agrees.
+ */
+export function isSniffCompatible(declared: string, sniffed: string): boolean {
+    if (declared === sniffed) return true;
+    switch (sniffed) {
+        case 'text/plain':
+            return isTextual(declared);
+        case 'application/zip':
+            return ZIP_CONTAINERS.has(declared);
+        case 'application/gzip':
+            return declared === 'application/x-gzip' || declared === 'application/x-tar';
+        case 'video/mp4':
+        case 'audio/mp4':
+        case 'video/quicktime':
+            return ['video/mp4', 'audio/mp4', 'audio/aac', 'video/quicktime', 'video/x-m4v'].includes(declared);
+        case 'video/webm':
+        case 'video/x-matroska':
+            return ['video/webm', 'audio/webm', 'video/x-matroska'].includes(declared);
+        case 'audio/ogg':
+            return ['audio/ogg', 'video/ogg', 'application/ogg', 'audio/opus'].includes(declared);
+        default:
+            return false;
+    }
+}
+
+/**
+ * Pick the type to use for a file: the declared one unless the content says otherwise
+ */
+export function resolveMimeType(declared: string | null | undefined, sniffed: string | null): string {
+    if (sniffed && (!declared || !isSniffCompatible(declared, sniffed))) return sniffed;
+    return declared || 'application/octet-stream';
+}
@@ -0,0 +1,89 @@
+/**
+ * NIP-07 browser extension signers (Alby, nos2x, ...)
+ * Decrypts chunks through window.nostr.nip44 and signs uploads through window.nostr.signEvent,
+ * so the private key never reaches the app
+ */
+
+import type { WindowNostr } from 'nostr-tools/nip07';
+import { verifyEvent } from 'nostr-tools/pure';
+import { createSignerDecryptJob, type DecryptJob } from './decryptPool';
+import type { EventSigner } from './upload';
+
+declare global {
+    interface Window {
+        nostr?: WindowNostr;
+    }
+}
+
+const DETECT_TIMEOUT = 1500;
+const DETECT_INTERVAL = 100;
+
+/**
+ * The injected signer, if it supports NIP-44
+ */
+function getNip44Extension(): WindowNostr | null {
+    const nostr = typeof window !== 'undefined' ? window.nostr : undefined;
+    return nostr?.nip44 ? nostr : null;
+}
+
+/**
+ * Wait briefly for an extension to inject window.nostr
+ * Extensions inject their script after page load, so a single check on startup can miss them.
+ */
+export async function detectNip07Extension(timeout: number = DETECT_TIMEOUT): Promise<boolean> {
+    const deadline = Date.now() + timeout;
+    while (!getNip44Extension()) {
+        if (Date.now() >= deadline) return false;
+        await new Promise(resolve => setTimeout(resolve, DETECT_INTERVAL));
+    }
+    return true;
+}
+
+/**
+ * Start a decrypt job that asks the extension to decrypt each chunk
+ * Requests go one at a time so the extension shows at most one prompt.
+ *
+ * @throws Error if no NIP-44 capable extension is present or it holds a different key
+ */
+export async function createExtensionDecryptJob(pubkey: string): Promise<DecryptJob> {
+    const extension = getNip44Extension();
+    if (!extension?.nip44) {
+        throw new Error('No NIP-07 extension with NIP-44 support found');
+    }
+    const nip44 = extension.nip44;
+
+    // Files are self-encrypted, so only the owner's key can decrypt them
+    const extensionPubkey = await extension.getPublicKey();
+    if (extensionPubkey.toLowerCase() !== pubkey.toLowerCase()) {
+        throw new Error('The extension is signed in with a different key than the file owner');
+    }
+
+    return createSignerDecryptJob((content) => nip44.decrypt(pubkey, content));
+}
+
+/**
+ * Upload signer backed by the extension
+ * It cannot encrypt chunks: extensions take NIP-44 plaintext as text, which would
+ * corrupt binary chunk data.
+ *
+ * @throws Error if no extension is present
+ */
+export async function createExtensionSigner(): Promise<EventSigner> {
+    const extension = typeof window !== 'undefined' ? window.nostr : undefined;
+    if (!extension) {
+        throw new Error('No NIP-07 extension found');
+    }
+    const pubkey = await extension.getPublicKey();
+
+    return {
+        pubkey,
+        signEvent: async (template) => {
+            const event = await extension.signEvent(template);
+            if (event.pubkey !== pubkey || !verifyEvent(event)) {
+                throw new Error('The extension returned an invalid signature');
+            }
+            return event;
+        },
+        close: () => undefined,
+    };
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { SimplePool } from 'nostr-tools/pool';
+import { finalizeEvent, generateSecretKey, getPublicKey, type Event } from 'nostr-tools/pure';
+import { fetchAuthorRelayList } from './nostr';
+import { EVENT_KINDS } from './types';
+
+function relayListEvent(secretKey: Uint8Array, createdAt: number, relays: string[]): Event {
+    return finalizeEvent({
+        kind: EVENT_KINDS.RELAY_LIST,
+        created_at: createdAt,
+        tags: relays.map(url => ['r', url]),
+        content: '',
+    }, secretKey);
+}
+
+/**
+ * Copy of an event signed by someone else, relabelled as pubkey's
+ * Goes through JSON like a relay message, so the copy has no cached verification result.
+ */
+function forgeAs(event: Event, pubkey: string): Event {
+    return { ...JSON.parse(JSON.stringify(event)), pubkey };
+}
+
+/** Pool whose queries answer with a fixed set of events, as if relays returned them unfiltered */
+function poolReturning(events: Event[]): SimplePool {
+    return {
+        querySync: async () => events,
+        seenOn: new Map(),
+    } as unknown as SimplePool;
+}
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('fetchAuthorRelayList', () => {
+    it('ignores newer relay lists that are forged or by another author', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        vi.spyOn(console, 'log').mockImplementation(() => undefined);
+        const authorKey = generateSecretKey();
+        const pubkey = getPublicKey(authorKey);
+
+        const genuine = relayListEvent(authorKey, 1000, ['wss://genuine.relay']);
+        const forged = forgeAs(relayListEvent(generateSecretKey(), 2000, ['wss://forged.relay']), pubkey);
+        const otherAuthor = relayListEvent(generateSecretKey(), 3000, ['wss://other.relay']);
+
+        const list = await fetchAuthorRelayList(poolReturning([forged, genuine, otherAuthor]), ['wss://mock.relay'], pubkey);
+        expect(list).toEqual({ read: ['wss://genuine.relay/'], write: ['wss://genuine.relay/'] });
+    });
+
+    it('returns null when no authentic relay list is found', async () => {
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const pubkey = getPublicKey(generateSecretKey());
+        const forged = forgeAs(relayListEvent(generateSecretKey(), 2000, ['wss://forged.relay']), pubkey);
+
+        expect(await fetchAuthorRelayList(poolReturning([forged]), ['wss://mock.relay'], pubkey)).toBeNull();
+    });
+});
@@ -3,8 +3,17 @@
  */
 
 import { SimplePool } from 'nostr-tools/pool';
-import type { Filter } from 'nostr-tools';
-import { EVENT_KINDS, D_TAGS, type FileIndex, type Manifest, type ChunkInfo } from './types';
+import type { SubCloser } from 'nostr-tools/abstract-pool';
+import type { AbstractRelay } from 'nostr-tools/abstract-relay';
+import type { Event, Filter } from 'nostr-tools';
+import { normalizeURL } from 'nostr-tools/utils';
+import { verifyEvent } from 'nostr-tools/pure';
+import { createChunkStoreWriter, deleteCachedChunks, getCachedChunks, type ChunkStoreWriter } from './chunkStore';
+import { rankRelays, recordChunkOutcome, recordChunkQuery } from './relayStats';
+import { getFetchTimeouts } from './fetchSettings';
+import { EVENT_KINDS, D_TAGS, decodeFileIndex, decodeManifest, type DecodeContext, type FileIndex, type Manifest, type ChunkInfo } from './types';
+import { formatIssues, type SchemaIssue, type SchemaResult } from './schema';
+import { reportMalformedEvent } from './malformedEvents';
 
 /**
  * Default relays for index data
@@ -23,7 +32,46 @@ export const DEFAULT_INDEX_RELAYS = [
  * Create a SimplePool with recommended settings
  */
 export function createPool(): SimplePool {
-    return new SimplePool();
+    const pool = new SimplePool();
+    // Record which relays delivered each event (used for chunk retries and index sources)
+    pool.trackRelays = true;
+    return pool;
+}
+
+/**
+ * Relays (normalized URLs) that delivered a given event
+ * Requires pool.trackRelays, which createPool enables
+ */
+function getSeenOnRelays(pool: SimplePool, eventId: string): string[] {
+    const seen = pool.seenOn.get(eventId);
+    return seen ? Array.from(seen, relay => relay.url) : [];
+}
+
+/**
+ * Check that an event is signed by the expected author
+ * Forged or mis-attributed events are logged with the relays that served them.
+ */
+function isAuthentic(pool: SimplePool, event: Event, pubkey: string): boolean {
+    if (event.pubkey !== pubkey) {
+        console.warn(`[nostr] Dropping event ${event.id} by ${event.pubkey}, expected author ${pubkey}, from:`, getSeenOnRelays(pool, event.id));
+        return false;
+    }
+    if (!verifyEvent(event)) {
+        console.warn(`[nostr] Dropping event ${event.id} with an invalid signature from:`, getSeenOnRelays(pool, event.id));
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Newest of several versions of a replaceable event
+ * Ties on created_at go to the lowest id, as NIP-01 specifies.
+ */
+function pickLatestEvent(events: Event[]): Event {
+    return events.reduce((a, b) => {
+        if (a.created_at !== b.created_at) return a.created_at > b.created_at ? a : b;
+        return a.id < b.id ? a : b;
+    });
 }
 
 /**
@@ -39,6 +87,166 @@ export function getDTagForPage(page: number, totalArchives: number): string {
     return D_TAGS.archiveTag(archiveNumber);
 }
 
+/**
+ * One version of the index event, with the relays that returned it
+ */
+export interface IndexVersion {
+    eventId: string;
+    createdAt: number;
+    relays: string[];
+}
+
+/**
+ * A file index together with the relays it was found on
+ */
+export interface FileIndexResult {
+    index: FileIndex;
+    foundOn: string[];
+    /** Every version the relays returned, newest first; more than one means they disagree */
+    versions: IndexVersion[];
+}
+
+/**
+ * Fetch the newest index event with the given d-tag
+ */
+async function fetchIndexByDTag(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string,
+    dTag: string
+): Promise<FileIndexResult | null> {
+    const filter: Filter = {
+        kinds: [EVENT_KINDS.INDEX],
+        authors: [pubkey],
+        '#d': [dTag],
+        limit: 1,
+    };
+
+    const events = (await pool.querySync(relays, filter)).filter(event => isAuthentic(pool, event, pubkey));
+    if (events.length === 0) return null;
+
+    const event = pickLatestEvent(events);
+    const index = parseIndexEvent(pool, event, dTag);
+
+    const versions = events
+        .map(e => ({ eventId: e.id, createdAt: e.created_at, relays: getSeenOnRelays(pool, e.id) }))
+        .sort((a, b) => (a.eventId === event.id ? -1 : b.eventId === event.id ? 1 : b.createdAt - a.createdAt));
+    if (versions.length > 1) {
+        console.warn(`[fetchIndexByDTag] Relays disagree on ${dTag}:`, versions);
+    }
+
+    const foundOn = new Set(versions.flatMap(version => version.relays));
+    return { index, foundOn: Array.from(foundOn), versions };
+}
+
+/**
+ * Parse and check JSON event content with a versioned decoder
+ * Malformed events are reported (see malformedEvents) before throwing.
+ * @throws Error naming the offending fields
+ */
+function decodeEventContent<T>(
+    pool: SimplePool,
+    event: Event,
+    label: string,
+    decode: (content: unknown, context: DecodeContext) => SchemaResult<T>
+): T {
+    let issues: SchemaIssue[];
+    try {
+        const result = decode(JSON.parse(event.content), { author: event.pubkey });
+        if (result.ok) return result.value;
+        issues = result.issues;
+    } catch {
+        issues = [{ path: '', message: 'content is not valid JSON' }];
+    }
+
+    const dTag = event.tags.find(t => t[0] === 'd')?.[1];
+    reportMalformedEvent({
+        eventId: event.id,
+        kind: event.kind,
+        pubkey: event.pubkey,
+        dTag,
+        relays: getSeenOnRelays(pool, event.id),
+        issues,
+    });
+    throw new Error(`Invalid ${label}${dTag ? ` (${dTag})` : ''}: ${formatIssues(issues)}`);
+}
+
+/**
+ * Parse index event content
+ * @throws Error if the content is malformed or of an unsupported version
+ */
+function parseIndexEvent(pool: SimplePool, event: Event, dTag: string): FileIndex {
+    return decodeEventContent(pool, event, `index ${dTag}`, decodeFileIndex);
+}
+
+const ARCHIVE_BATCH_SIZE = 10;
+
+/**
+ * Load the current index and every archive page
+ * Archives are requested several d-tags at a time; onPage is called as each
+ * batch arrives so callers can show progress. Missing archives are skipped.
+ *
+ * @returns All pages found, current index first then archives newest to oldest
+ */
+export async function fetchAllIndexPages(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string,
+    onProgress?: (loaded: number, total: number, pages: FileIndex[]) => void,
+    abortSignal?: AbortSignal
+): Promise<FileIndex[]> {
+    const current = await fetchIndexByDTag(pool, relays, pubkey, D_TAGS.CURRENT_INDEX);
+    if (!current) return [];
+
+    const pages: FileIndex[] = [current.index];
+    const totalArchives = current.index.total_archives;
+    onProgress?.(1, totalArchives + 1, pages);
+
+    // Newest archive first, matching page order
+    const archiveTags: string[] = [];
+    for (let n = totalArchives; n >= 1; n--) {
+        archiveTags.push(D_TAGS.archiveTag(n));
+    }
+
+    for (let i = 0; i < archiveTags.length; i += ARCHIVE_BATCH_SIZE) {
+        if (abortSignal?.aborted) throw new Error('Aborted');
+
+        const batch = archiveTags.slice(i, i + ARCHIVE_BATCH_SIZE);
+        const events = await pool.querySync(relays, {
+            kinds: [EVENT_KINDS.INDEX],
+            authors: [pubkey],
+            '#d': batch,
+        });
+
+        // Keep the newest event per d-tag
+        const latestByDTag = new Map<string, Event>();
+        for (const event of events) {
+            if (!isAuthentic(pool, event, pubkey)) continue;
+            const dTag = event.tags.find(t => t[0] === 'd')?.[1];
+            if (!dTag) continue;
+            const existing = latestByDTag.get(dTag);
+            latestByDTag.set(dTag, existing ? pickLatestEvent([existing, event]) : event);
+        }
+
+        for (const dTag of batch) {
+            const event = latestByDTag.get(dTag);
+            if (!event) {
+                console.warn(`[fetchAllIndexPages] Archive not found: ${dTag}`);
+                continue;
+            }
+            try {
+                pages.push(parseIndexEvent(pool, event, dTag));
+            } catch (err) {
+                console.warn(`[fetchAllIndexPages] Skipping archive ${dTag}:`, err);
+            }
+        }
+
+        onProgress?.(1 + Math.min(i + ARCHIVE_BATCH_SIZE, archiveTags.length), totalArchives + 1, pages);
+    }
+
+    return pages;
+}
+
 /**
  * Fetch file index for a specific page
  * Page 1 is the current index, subsequent pages are archives
@@ -48,130 +256,350 @@ export async function fetchFileIndex(
     relays: string[],
     pubkey: string,
     page: number = 1
-): Promise<FileIndex | null> {
-    // For page 1, we need to first fetch to get total_archives
-    // For other pages, we need to know total_archives to calculate the correct d-tag
-
+): Promise<FileIndexResult | null> {
     if (page === 1) {
-        // Fetch current index
-        const filter: Filter = {
-            kinds: [EVENT_KINDS.INDEX],
-            authors: [pubkey],
-            '#d': [D_TAGS.CURRENT_INDEX],
-            limit: 1,
-        };
+        return fetchIndexByDTag(pool, relays, pubkey, D_TAGS.CURRENT_INDEX);
+    }
 
-        const events = await pool.querySync(relays, filter);
-        if (events.length === 0) return null;
+    // For archive pages, we need to fetch page 1 first to get total_archives
+    const current = await fetchFileIndex(pool, relays, pubkey, 1);
+    if (!current) return null;
 
-        // Get most recent event
-        const event = events.reduce((a, b) =>
-            a.created_at > b.created_at ? a : b
-        );
+    const dTag = getDTagForPage(page, current.index.total_archives);
+    return fetchIndexByDTag(pool, relays, pubkey, dTag);
+}
+
+/** How long a relay gets to confirm it holds no index */
+const INDEX_PROBE_TIMEOUT = 10_000;
 
-        let index: FileIndex;
+/**
+ * Ask one relay for the author's current index and wait for a real EOSE
+ * The relay's own EOSE timeout is set past ours, so a silent relay can't pass as an answer.
+ * @returns the events it sent, or null if it could not be reached or didn't answer in time
+ */
+async function probeRelayIndex(pool: SimplePool, url: string, filter: Filter, timeout: number): Promise<Event[] | null> {
+    let relay: AbstractRelay;
+    try {
+        relay = await pool.ensureRelay(url, { connectionTimeout: timeout });
+    } catch (err) {
+        console.warn(`[probeRelayIndex] Could not reach ${url}:`, err);
+        return null;
+    }
+
+    return new Promise((resolve) => {
+        const events: Event[] = [];
+        let sub: SubCloser | null = null;
+        let settled = false;
+        const timer = setTimeout(() => finish(null), timeout);
+        const finish = (result: Event[] | null) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            sub?.close();
+            resolve(result);
+        };
         try {
-            index = JSON.parse(event.content) as FileIndex;
-        } catch {
-            console.error('Failed to parse index content');
-            return null;
-        }
-        if (index.version !== 2) {
-            throw new Error(`Unsupported index version ${index.version}. Only version 2 is supported.`);
+            sub = relay.subscribe([filter], {
+                eoseTimeout: timeout * 2,
+                onevent: (event) => events.push(event),
+                oneose: () => finish(events),
+                onclose: (reason) => {
+                    if (!settled) console.warn(`[probeRelayIndex] ${url} closed the query: ${reason}`);
+                    finish(null);
+                },
+            });
+            if (settled) sub.close();
+        } catch (err) {
+            console.warn(`[probeRelayIndex] Query failed on ${url}:`, err);
+            finish(null);
         }
-        return index;
-    } else {
-        // For archive pages, we need to fetch page 1 first to get total_archives
-        const currentIndex = await fetchFileIndex(pool, relays, pubkey, 1);
-        if (!currentIndex) return null;
+    });
+}
+
+/**
+ * Relays that answered a query for the author's current index with EOSE and no index event
+ * Relays that can't be reached, close the query or stay silent are left out, so an empty
+ * result means "unknown", never "no index".
+ */
+export async function findRelaysWithoutIndex(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string,
+    timeout: number = INDEX_PROBE_TIMEOUT
+): Promise<string[]> {
+    const filter: Filter = {
+        kinds: [EVENT_KINDS.INDEX],
+        authors: [pubkey],
+        '#d': [D_TAGS.CURRENT_INDEX],
+        limit: 1,
+    };
+    const answers = await Promise.all(relays.map(url => probeRelayIndex(pool, url, filter, timeout)));
+    return relays.filter((_, i) => {
+        const events = answers[i];
+        return events !== null && !events.some(event => isAuthentic(pool, event, pubkey));
+    });
+}
 
-        const dTag = getDTagForPage(page, currentIndex.total_archives);
+/**
+ * Author's NIP-65 relay list (kind 10002)
+ */
+export interface AuthorRelayList {
+    read: string[];
+    write: string[];
+}
 
-        const filter: Filter = {
-            kinds: [EVENT_KINDS.INDEX],
+const authorRelayListCache = new Map<string, Promise<AuthorRelayList | null>>();
+
+/**
+ * Fetch an author's NIP-65 relay list from the given relays
+ * Results are cached per pubkey for the session.
+ */
+export function fetchAuthorRelayList(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string
+): Promise<AuthorRelayList | null> {
+    const cached = authorRelayListCache.get(pubkey);
+    if (cached) return cached;
+
+    const request = (async () => {
+        const events = await pool.querySync(relays, {
+            kinds: [EVENT_KINDS.RELAY_LIST],
             authors: [pubkey],
-            '#d': [dTag],
             limit: 1,
-        };
+        });
+        const authentic = events.filter(event => isAuthentic(pool, event, pubkey));
+        if (authentic.length === 0) return null;
 
-        const events = await pool.querySync(relays, filter);
-        if (events.length === 0) return null;
+        const event = pickLatestEvent(authentic);
 
-        const event = events.reduce((a, b) =>
-            a.created_at > b.created_at ? a : b
-        );
+        const list: AuthorRelayList = { read: [], write: [] };
+        for (const tag of event.tags) {
+            if (tag[0] !== 'r' || !tag[1]) continue;
+            let url: string;
+            try {
+                url = normalizeURL(tag[1]);
+            } catch {
+                continue;
+            }
+            // No marker means the relay is used for both reading and writing
+            if (tag[2] !== 'write') list.read.push(url);
+            if (tag[2] !== 'read') list.write.push(url);
+        }
+        console.log('[fetchAuthorRelayList] Found relay list:', list);
+        return list;
+    })();
+
+    // Don't cache failures, so a later attempt can retry
+    request.catch(() => authorRelayListCache.delete(pubkey));
+    authorRelayListCache.set(pubkey, request);
+    return request;
+}
+
+/**
+ * Fields of an author's kind 0 metadata that the app shows
+ */
+export interface AuthorProfile {
+    name?: string;
+    displayName?: string;
+    picture?: string;
+    about?: string;
+    nip05?: string;
+}
+
+const authorProfileCache = new Map<string, Promise<AuthorProfile | null>>();
+
+function readProfileField(metadata: Record<string, unknown>, key: string): string | undefined {
+    const value = metadata[key];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
 
-        let index: FileIndex;
+/**
+ * Fetch an author's profile (kind 0 metadata) from the given relays
+ * Results are cached per pubkey for the session.
+ */
+export function fetchAuthorProfile(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string
+): Promise<AuthorProfile | null> {
+    const cached = authorProfileCache.get(pubkey);
+    if (cached) return cached;
+
+    const request = (async () => {
+        const events = await pool.querySync(relays, {
+            kinds: [EVENT_KINDS.METADATA],
+            authors: [pubkey],
+            limit: 1,
+        });
+        const authentic = events.filter(event => isAuthentic(pool, event, pubkey));
+        if (authentic.length === 0) return null;
+
+        const event = pickLatestEvent(authentic);
+
+        let metadata: unknown;
         try {
-            index = JSON.parse(event.content) as FileIndex;
+            metadata = JSON.parse(event.content);
         } catch {
-            console.error('Failed to parse archive content');
+            console.warn('[fetchAuthorProfile] Failed to parse profile content');
             return null;
         }
-        if (index.version !== 2) {
-            throw new Error(`Unsupported index version ${index.version}. Only version 2 is supported.`);
-        }
-        return index;
+        if (!metadata || typeof metadata !== 'object') return null;
+
+        const fields = metadata as Record<string, unknown>;
+        const picture = readProfileField(fields, 'picture');
+        return {
+            name: readProfileField(fields, 'name'),
+            displayName: readProfileField(fields, 'display_name') ?? readProfileField(fields, 'displayName'),
+            // Only load avatars over http(s)
+            picture: picture && /^https?:\/\//i.test(picture) ? picture : undefined,
+            about: readProfileField(fields, 'about'),
+            nip05: readProfileField(fields, 'nip05'),
+        };
+    })();
+
+    // Don't cache failures, so a later attempt can retry
+    request.catch(() => authorProfileCache.delete(pubkey));
+    authorProfileCache.set(pubkey, request);
+    return request;
+}
+
+/**
+ * Relays to search for an author's index and manifests:
+ * the given relays plus the write relays from the author's NIP-65 list
+ */
+export async function getAuthorIndexRelays(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string
+): Promise<string[]> {
+    let relayList: AuthorRelayList | null = null;
+    try {
+        relayList = await fetchAuthorRelayList(pool, relays, pubkey);
+    } catch (err) {
+        console.warn('[getAuthorIndexRelays] Failed to fetch relay list:', err);
+    }
+
+    const merged = new Map<string, string>();
+    for (const url of [...relays, ...(relayList?.write ?? [])]) {
+        const normalized = normalizeURL(url);
+        if (!merged.has(normalized)) merged.set(normalized, url);
     }
+    return Array.from(merged.values());
 }
 
 /**
- * Fetch manifest for a specific file
+ * A manifest together with where it was found
  */
-export async function fetchManifest(
+export interface ManifestLookup {
+    manifest: Manifest;
+    /** d tag of the manifest event, which addresses it in naddr links */
+    identifier: string;
+    /** Relays (normalized URLs) that returned the manifest */
+    seenOn: string[];
+}
+
+/**
+ * Which manifest to look for: by file hash, or by d tag (e.g. from an naddr)
+ */
+export type ManifestTarget = { fileHash: string } | { identifier: string };
+
+function parseManifestEvent(pool: SimplePool, event: Event): Manifest {
+    return decodeEventContent(pool, event, 'manifest', decodeManifest);
+}
+
+/**
+ * Fetch the newest manifest event for a file and note where it came from
+ */
+export async function lookupManifest(
     pool: SimplePool,
     relays: string[],
     pubkey: string,
-    fileHash: string
-): Promise<Manifest | null> {
-    console.log('[fetchManifest] Querying for:', { fileHash, pubkey, relays });
+    target: ManifestTarget
+): Promise<ManifestLookup | null> {
+    console.log('[fetchManifest] Querying for:', { ...target, pubkey, relays });
 
-    const filters: Filter[] = [
-        {
-            kinds: [EVENT_KINDS.MANIFEST],
-            authors: [pubkey],
-            '#x': [fileHash],
-            limit: 1,
-        },
-        {
-            kinds: [EVENT_KINDS.MANIFEST],
-            authors: [pubkey],
-            '#d': [fileHash],
-            limit: 1,
-        },
-    ];
+    const filters: Filter[] = 'fileHash' in target
+        ? [
+            {
+                kinds: [EVENT_KINDS.MANIFEST],
+                authors: [pubkey],
+                '#x': [target.fileHash],
+                limit: 1,
+            },
+            {
+                kinds: [EVENT_KINDS.MANIFEST],
+                authors: [pubkey],
+                '#d': [target.fileHash],
+                limit: 1,
+            },
+        ]
+        : [
+            {
+                kinds: [EVENT_KINDS.MANIFEST],
+                authors: [pubkey],
+                '#d': [target.identifier],
+                limit: 1,
+            },
+        ];
 
     let events: Awaited<ReturnType<typeof pool.querySync>> = [];
     for (const filter of filters) {
         console.log('[fetchManifest] Filter:', filter);
-        events = await pool.querySync(relays, filter);
+        events = (await pool.querySync(relays, filter)).filter(event => isAuthentic(pool, event, pubkey));
         console.log('[fetchManifest] Got events:', events.length);
         if (events.length > 0) break;
     }
 
     if (events.length === 0) return null;
 
-    const event = events.reduce((a, b) =>
-        a.created_at > b.created_at ? a : b
-    );
-
-    let manifest: Manifest;
-    try {
-        manifest = JSON.parse(event.content) as Manifest;
-    } catch {
-        console.error('Failed to parse manifest content');
-        return null;
-    }
-    if (manifest.version !== 2) {
-        throw new Error(`Unsupported manifest version ${manifest.version}. Only version 2 is supported.`);
-    }
+    const event = pickLatestEvent(events);
+    const manifest = parseManifestEvent(pool, event);
     console.log('[fetchManifest] Parsed manifest:', {
         file_name: manifest.file_name,
         total_chunks: manifest.total_chunks,
         relays: manifest.relays,
         encryption: manifest.encryption,
     });
-    return manifest;
+    return {
+        manifest,
+        identifier: event.tags.find(t => t[0] === 'd')?.[1] ?? manifest.file_hash,
+        seenOn: getSeenOnRelays(pool, event.id),
+    };
+}
+
+/**
+ * Fetch manifest for a specific file
+ */
+export async function fetchManifest(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string,
+    fileHash: string
+): Promise<Manifest | null> {
+    const lookup = await lookupManifest(pool, relays, pubkey, { fileHash });
+    return lookup?.manifest ?? null;
+}
+
+/**
+ * Look up a manifest on relay hints first (e.g. from a share link), then on the
+ * given relays plus the author's write relays
+ */
+export async function findManifest(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string,
+    target: ManifestTarget,
+    relayHints: string[] = []
+): Promise<ManifestLookup | null> {
+    if (relayHints.length > 0) {
+        const lookup = await lookupManifest(pool, relayHints, pubkey, target);
+        if (lookup) return lookup;
+        console.log('[findManifest] Not found on relay hints, falling back to index relays');
+    }
+
+    const indexRelays = await getAuthorIndexRelays(pool, relays, pubkey);
+    return lookupManifest(pool, indexRelays, pubkey, target);
 }
 
 /**
@@ -183,14 +611,167 @@ export interface ChunkEvent {
     encryption: string;
 }
 
-type ChunkCacheEntry = {
-    chunksByIndex: Map<number, ChunkEvent>;
-    inFlight?: Promise<void>;
-};
+/**
+ * Decides whether a received chunk is intact
+ * Resolve false to discard the chunk and fetch it again from another relay;
+ * reject to abort the whole fetch (e.g. the chunk cannot be decrypted at all).
+ * May be async, e.g. when decryption runs in a worker; checks run concurrently.
+ */
+export type ChunkVerifier = (chunk: ChunkEvent) => boolean | Promise<boolean>;
+
+/**
+ * Split chunks into those that pass verification and the indices that fail
+ */
+async function partitionVerified(
+    chunks: ChunkEvent[],
+    verifyChunk?: ChunkVerifier
+): Promise<{ valid: ChunkEvent[]; invalid: number[] }> {
+    if (!verifyChunk) return { valid: chunks, invalid: [] };
+    const results = await Promise.all(chunks.map(chunk => verifyChunk(chunk)));
+    return {
+        valid: chunks.filter((_, i) => results[i]),
+        invalid: chunks.filter((_, i) => !results[i]).map(chunk => chunk.index),
+    };
+}
+
+/**
+ * Optional behaviour for fetchChunks
+ */
+export interface FetchChunksOptions {
+    verifyChunk?: ChunkVerifier;
+    /** Stops the fetch and closes its subscriptions; the fetch then rejects with 'Aborted' */
+    abortSignal?: AbortSignal;
+    /** Shown for this file in the persistent cache listing */
+    fileName?: string;
+}
+
+/**
+ * Where a chunk stands in the current fetch
+ * received: accepted; failed-hash: a copy failed verification; missing: no relay returned it
+ */
+export type ChunkStatus = 'pending' | 'received' | 'failed-hash' | 'missing';
+
+/**
+ * One chunk's outcome, with the relays that delivered it (empty when it came from the local cache)
+ * or, for failed-hash, the relays that served the bad copy
+ */
+export interface ChunkStatusUpdate {
+    index: number;
+    status: Exclude<ChunkStatus, 'pending'>;
+    relays: string[];
+}
+
+export type ChunkStatusListener = (update: ChunkStatusUpdate) => void;
+
+const chunkStatusListeners = new Map<string, Set<ChunkStatusListener>>();
 
-const chunkCache = new Map<string, ChunkCacheEntry>();
+/**
+ * Follow chunk outcomes for one file across every fetch (preview, download, streaming)
+ */
+export function subscribeChunkStatus(pubkey: string, fileHash: string, listener: ChunkStatusListener): () => void {
+    const key = `${pubkey}:${fileHash}`;
+    const listeners = chunkStatusListeners.get(key) ?? new Set<ChunkStatusListener>();
+    listeners.add(listener);
+    chunkStatusListeners.set(key, listeners);
+    return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) chunkStatusListeners.delete(key);
+    };
+}
+
+function reportChunkStatus(
+    pubkey: string,
+    fileHash: string,
+    index: number,
+    status: ChunkStatusUpdate['status'],
+    relays: string[] = []
+): void {
+    if (status === 'received') recordChunkOutcome(relays, 'delivered');
+    if (status === 'failed-hash') recordChunkOutcome(relays, 'failed');
+    const listeners = chunkStatusListeners.get(`${pubkey}:${fileHash}`);
+    listeners?.forEach(listener => listener({ index, status, relays }));
+}
+
+/** Whole-file fetches still running, by `<pubkey>:<file hash>`; finished ones live on in the persistent cache only */
+const inFlightFetches = new Map<string, Promise<void>>();
 
 const CHUNK_ID_BATCH_SIZE = 200;
+/**
+ * Like pool.querySync, but closes the subscription as soon as abortSignal fires
+ */
+function queryEvents(
+    pool: SimplePool,
+    relays: string[],
+    filter: Filter,
+    abortSignal?: AbortSignal
+): Promise<Event[]> {
+    if (!abortSignal) return pool.querySync(relays, filter);
+    if (abortSignal.aborted) return Promise.reject(new Error('Aborted'));
+
+    return new Promise((resolve, reject) => {
+        const events: Event[] = [];
+        let sub: SubCloser | null = null;
+        const onAbort = () => {
+            sub?.close();
+            reject(new Error('Aborted'));
+        };
+        abortSignal.addEventListener('abort', onAbort, { once: true });
+        sub = pool.subscribeEose(relays, filter, {
+            onevent: (event) => events.push(event),
+            onclose: () => {
+                abortSignal.removeEventListener('abort', onAbort);
+                resolve(events);
+            },
+        });
+    });
+}
+
+/** Relays asked first for chunks by id; the rest only see what these lacked */
+const CHUNK_ID_FIRST_WAVE = 2;
+
+/**
+ * Request chunk events by id, best-ranked relays first
+ * Each relay is queried on its own so its answer time and misses can be recorded;
+ * the remaining relays are only asked for the ids the first wave did not return.
+ */
+async function queryChunkIds(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string,
+    ids: string[],
+    abortSignal?: AbortSignal
+): Promise<Event[]> {
+    const ranked = rankRelays(relays);
+    const eventsById = new Map<string, Event>();
+
+    const queryWave = async (wave: string[]) => {
+        const wanted = ids.filter(id => !eventsById.has(id));
+        if (wanted.length === 0) return;
+        await Promise.all(wave.map(async (url) => {
+            for (let i = 0; i < wanted.length; i += CHUNK_ID_BATCH_SIZE) {
+                const batch = wanted.slice(i, i + CHUNK_ID_BATCH_SIZE);
+                const startedAt = Date.now();
+                try {
+                    const events = await queryEvents(pool, [url], {
+                        kinds: [EVENT_KINDS.CHUNK],
+                        authors: [pubkey],
+                        ids: batch,
+                    }, abortSignal);
+                    recordChunkQuery(url, batch.length, events.length, Date.now() - startedAt);
+                    events.forEach(event => eventsById.set(event.id, event));
+                } catch (err) {
+                    if (abortSignal?.aborted) throw err;
+                    console.warn(`[queryChunkIds] Query failed on ${url}:`, err);
+                    recordChunkQuery(url, batch.length, 0, null);
+                }
+            }
+        }));
+    };
+
+    await queryWave(ranked.slice(0, CHUNK_ID_FIRST_WAVE));
+    await queryWave(ranked.slice(CHUNK_ID_FIRST_WAVE));
+    return Array.from(eventsById.values());
+}
 
 function parseChunkIndexFromTags(tags: string[][]): number | null {
     const chunkTag = tags.find(t => t[0] === 'chunk');
@@ -211,6 +792,10 @@ function parseChunkIndexFromTags(tags: string[][]): number | null {
 /**
  * Fetch all chunks for a file
  * Returns chunks in order by index
+ *
+ * When options.verifyChunk is given, every chunk (including cached ones) is
+ * checked before it is accepted. Rejected chunks are re-requested from relays
+ * other than the ones that served the bad copy.
  */
 export async function fetchChunks(
     pool: SimplePool,
@@ -219,25 +804,35 @@ export async function fetchChunks(
     fileHash: string,
     totalChunks: number,
     onProgress?: (fetched: number, total: number) => void,
-    chunkInfos?: ChunkInfo[]
+    chunkInfos?: ChunkInfo[],
+    options: FetchChunksOptions = {}
 ): Promise<ChunkEvent[]> {
+    const { verifyChunk, fileName, abortSignal } = options;
+    if (abortSignal?.aborted) throw new Error('Aborted');
     const cacheKey = `${pubkey}:${fileHash}`;
-    const cached = chunkCache.get(cacheKey);
 
-    if (cached?.chunksByIndex && cached.chunksByIndex.size === totalChunks) {
-        return Array.from(cached.chunksByIndex.values()).sort((a, b) => a.index - b.index);
+    // Another caller's fetch may have been cancelled; we carry on with what it stored
+    await inFlightFetches.get(cacheKey)?.catch(() => undefined);
+
+    // Resume from persisted chunks, re-checked so callers always see verified data
+    const chunksByIndex = new Map<number, ChunkEvent>();
+    const storedChecked = await partitionVerified(await getCachedChunks(pubkey, fileHash), verifyChunk);
+    for (const chunk of storedChecked.valid) {
+        chunksByIndex.set(chunk.index, chunk);
+        reportChunkStatus(pubkey, fileHash, chunk.index, 'received');
     }
+    void deleteCachedChunks(pubkey, fileHash, storedChecked.invalid);
 
-    if (cached?.inFlight) {
-        await cached.inFlight;
-        const ready = chunkCache.get(cacheKey);
-        if (ready?.chunksByIndex && ready.chunksByIndex.size === totalChunks) {
-            return Array.from(ready.chunksByIndex.values()).sort((a, b) => a.index - b.index);
-        }
+    if (chunksByIndex.size === totalChunks) {
+        return Array.from(chunksByIndex.values()).sort((a, b) => a.index - b.index);
     }
 
-    const chunksByIndex = new Map<number, ChunkEvent>(cached?.chunksByIndex ?? []);
+    const storeWriter = createChunkStoreWriter(pubkey, fileHash, totalChunks, fileName);
+
     const seenEventIds = new Set<string>();
+    // Relays that served a copy of a chunk that failed verification, by chunk index
+    const rejectedRelaysByIndex = new Map<number, Set<string>>();
+    let verifyError: unknown = null;
 
     console.log('[fetchChunks] Querying for:', { fileHash, pubkey, relays, totalChunks });
 
@@ -245,6 +840,90 @@ export async function fetchChunks(
         onProgress?.(chunksByIndex.size, totalChunks);
     }
 
+    const storeChunk = (chunk: ChunkEvent, eventId: string) => {
+        chunksByIndex.set(chunk.index, chunk);
+        storeWriter.add(chunk);
+        reportChunkStatus(pubkey, fileHash, chunk.index, 'received', getSeenOnRelays(pool, eventId));
+        onProgress?.(chunksByIndex.size, totalChunks);
+    };
+
+    // Chunks under verification, with any other copies of the same index queued behind them
+    const verifyingByIndex = new Map<number, { chunk: ChunkEvent; eventId: string }[]>();
+    const pendingChecks = new Set<Promise<void>>();
+
+    const checkChunk = (chunk: ChunkEvent, eventId: string, verify: ChunkVerifier) => {
+        if (!verifyingByIndex.has(chunk.index)) verifyingByIndex.set(chunk.index, []);
+        const check = (async () => {
+            let valid: boolean;
+            try {
+                valid = await verify(chunk);
+            } catch (err) {
+                verifyError ??= err;
+                return;
+            }
+            if (valid) {
+                verifyingByIndex.delete(chunk.index);
+                if (!chunksByIndex.has(chunk.index)) storeChunk(chunk, eventId);
+                return;
+            }
+
+            const sources = getSeenOnRelays(pool, eventId);
+            console.warn(`[fetchChunks] Chunk ${chunk.index} failed verification (event ${eventId}) from:`, sources);
+            const rejected = rejectedRelaysByIndex.get(chunk.index) ?? new Set<string>();
+            sources.forEach(url => rejected.add(url));
+            rejectedRelaysByIndex.set(chunk.index, rejected);
+            reportChunkStatus(pubkey, fileHash, chunk.index, 'failed-hash', sources);
+
+            const next = verifyingByIndex.get(chunk.index)?.shift();
+            if (next && !verifyError) {
+                checkChunk(next.chunk, next.eventId, verify);
+            } else {
+                verifyingByIndex.delete(chunk.index);
+            }
+        })();
+        pendingChecks.add(check);
+        check.finally(() => pendingChecks.delete(check));
+    };
+
+    const settleChecks = async () => {
+        while (pendingChecks.size > 0) {
+            await Promise.all(pendingChecks);
+        }
+    };
+
+    const acceptChunkEvent = (event: Event, fallbackIndex?: number) => {
+        if (verifyError) return;
+        if (seenEventIds.has(event.id)) return;
+        seenEventIds.add(event.id);
+        if (!isAuthentic(pool, event, pubkey)) return;
+
+        const index = parseChunkIndexFromTags(event.tags) ?? fallbackIndex;
+        if (index == null) return;
+        if (chunksByIndex.has(index)) return;
+
+        // Get encryption type from tags
+        const encryptionTag = event.tags.find(t => t[0] === 'encryption');
+        const encryption = encryptionTag?.[1] || 'none';
+
+        const chunk = {
+            index,
+            content: event.content,
+            encryption,
+        };
+
+        if (!verifyChunk) {
+            storeChunk(chunk, event.id);
+            return;
+        }
+
+        const queued = verifyingByIndex.get(index);
+        if (queued) {
+            queued.push({ chunk, eventId: event.id });
+        } else {
+            checkChunk(chunk, event.id, verifyChunk);
+        }
+    };
+
     const fetchPromise = (async () => {
         const sub = pool.subscribe(
             relays,
@@ -254,40 +933,19 @@ export async function fetchChunks(
                 '#x': [fileHash],
             },
             {
-                onevent: (event) => {
-                    if (seenEventIds.has(event.id)) return;
-                    seenEventIds.add(event.id);
-
-                    const index = parseChunkIndexFromTags(event.tags);
-                    if (index == null) return;
-
-                    // Get encryption type from tags
-                    const encryptionTag = event.tags.find(t => t[0] === 'encryption');
-                    const encryption = encryptionTag?.[1] || 'none';
-
-                    if (!chunksByIndex.has(index)) {
-                        const chunk = {
-                            index,
-                            content: event.content,
-                            encryption,
-                        };
-                        chunksByIndex.set(index, chunk);
-                        const entry = chunkCache.get(cacheKey);
-                        if (entry) entry.chunksByIndex.set(index, chunk);
-                        onProgress?.(chunksByIndex.size, totalChunks);
-                    }
-                },
+                onevent: (event) => acceptChunkEvent(event),
                 oneose: () => {
                     // We don't necessarily stop on EOSE if we are still missing chunks,
                     // as some relays might be slower. But if we have all chunks, we stop.
                 }
             }
         );
+        const closeOnAbort = () => sub.close();
+        abortSignal?.addEventListener('abort', closeOnAbort, { once: true });
 
         // Wait until we have all chunks or timeout
         // We use an inactivity timeout to allow slow connections to keep going as long as data is flowing
-        const INACTIVITY_TIMEOUT = 5000; // 5 seconds of silence
-        const MAX_TOTAL_TIMEOUT = 300000; // 5 minutes max total time (safety valve)
+        const { inactivityMs: INACTIVITY_TIMEOUT, maxTotalMs: MAX_TOTAL_TIMEOUT } = getFetchTimeouts();
 
         const startTime = Date.now();
         let lastActivity = Date.now();
@@ -295,13 +953,13 @@ export async function fetchChunks(
 
         const CHECK_INTERVAL = 100;
 
-        while (chunksByIndex.size < totalChunks) {
+        while (chunksByIndex.size < totalChunks && !verifyError && !abortSignal?.aborted) {
             await new Promise(resolve => setTimeout(resolve, CHECK_INTERVAL));
 
             const now = Date.now();
 
-            // Check for activity (new chunks received)
-            if (chunksByIndex.size > lastSize) {
+            // Check for activity (new chunks received, or chunks still being verified)
+            if (chunksByIndex.size > lastSize || pendingChecks.size > 0) {
                 lastActivity = now;
                 lastSize = chunksByIndex.size;
             }
@@ -319,87 +977,86 @@ export async function fetchChunks(
         }
 
         sub.close();
+        abortSignal?.removeEventListener('abort', closeOnAbort);
+        await settleChecks();
+        if (verifyError || abortSignal?.aborted) return;
+
+        // Build map of expected event IDs if available
+        const indexByEventId = new Map<string, number>();
+        const infoByIndex = new Map<number, ChunkInfo>();
+        if (chunkInfos && chunkInfos.length > 0) {
+            for (const info of chunkInfos) {
+                if (!info) continue;
+                if (info.event_id) indexByEventId.set(info.event_id, info.index);
+                infoByIndex.set(info.index, info);
+            }
+        }
 
         // Strategy 2: Fetch missing chunks by ID (fallback)
         if (chunksByIndex.size < totalChunks) {
             console.log(`[fetchChunks] Missing ${totalChunks - chunksByIndex.size} chunks after streaming. Falling back to ID fetch.`);
 
-            // Build map of expected event IDs if available
-            const indexByEventId = new Map<string, number>();
-            if (chunkInfos && chunkInfos.length > 0) {
-                for (const info of chunkInfos) {
-                    if (info?.event_id) indexByEventId.set(info.event_id, info.index);
-                }
-            }
-
-            // Identify missing indices
-            const missingIndices = [];
-            for (let i = 0; i < totalChunks; i++) {
-                if (!chunksByIndex.has(i)) missingIndices.push(i);
-            }
-
             // Find missing event IDs
             const missingIds = [];
-            for (const index of missingIndices) {
-                // Find event ID for this index in chunkInfos
-                const info = chunkInfos?.find(c => c.index === index);
+            for (let i = 0; i < totalChunks; i++) {
+                if (chunksByIndex.has(i)) continue;
+                const info = infoByIndex.get(i);
                 if (info?.event_id) {
                     missingIds.push(info.event_id);
                 }
             }
 
             if (missingIds.length > 0) {
-                for (let i = 0; i < missingIds.length; i += CHUNK_ID_BATCH_SIZE) {
-                    const batch = missingIds.slice(i, i + CHUNK_ID_BATCH_SIZE);
-                    const filter: Filter = {
-                        kinds: [EVENT_KINDS.CHUNK],
-                        authors: [pubkey],
-                        ids: batch,
-                    };
-                    console.log('[fetchChunks] Fallback filter (ids batch):', filter);
-
-                    const events = await pool.querySync(relays, filter);
-                    for (const event of events) {
-                        if (seenEventIds.has(event.id)) continue;
-                        seenEventIds.add(event.id);
-
-                        const parsedIndex = parseChunkIndexFromTags(event.tags);
-                        const index = parsedIndex ?? indexByEventId.get(event.id);
-                        if (index == null) continue;
-
-                        const encryptionTag = event.tags.find(t => t[0] === 'encryption');
-                        const encryption = encryptionTag?.[1] || 'none';
-
-                        if (!chunksByIndex.has(index)) {
-                            const chunk = {
-                                index,
-                                content: event.content,
-                                encryption,
-                            };
-                            chunksByIndex.set(index, chunk);
-                            const entry = chunkCache.get(cacheKey);
-                            if (entry) entry.chunksByIndex.set(index, chunk);
-                            onProgress?.(chunksByIndex.size, totalChunks);
-                        }
-                    }
+                console.log(`[fetchChunks] Requesting ${missingIds.length} chunks by id`);
+                const events = await queryChunkIds(pool, relays, pubkey, missingIds, abortSignal);
+                for (const event of events) {
+                    acceptChunkEvent(event, indexByEventId.get(event.id));
                 }
+                await settleChecks();
+            }
+        }
+
+        // Strategy 3: Re-request chunks that failed verification from the other relays
+        for (const [index, rejectedRelays] of rejectedRelaysByIndex) {
+            if (verifyError) return;
+            if (chunksByIndex.has(index)) continue;
+
+            const otherRelays = relays.filter(url => !rejectedRelays.has(normalizeURL(url)));
+            if (otherRelays.length === 0) continue;
+
+            const eventId = infoByIndex.get(index)?.event_id;
+            console.log(`[fetchChunks] Retrying chunk ${index} on other relays:`, otherRelays);
+
+            const events = eventId
+                ? await queryChunkIds(pool, otherRelays, pubkey, [eventId], abortSignal)
+                : await queryEvents(pool, otherRelays, { kinds: [EVENT_KINDS.CHUNK], authors: [pubkey], '#x': [fileHash] }, abortSignal);
+            for (const event of events) {
+                acceptChunkEvent(event, indexByEventId.get(event.id));
+            }
+            await settleChecks();
+        }
+
+        if (abortSignal?.aborted) return;
+        for (let i = 0; i < totalChunks; i++) {
+            if (!chunksByIndex.has(i) && !rejectedRelaysByIndex.has(i)) {
+                reportChunkStatus(pubkey, fileHash, i, 'missing');
             }
         }
     })();
 
-    const entry = cached ?? { chunksByIndex: new Map<number, ChunkEvent>() };
-    entry.inFlight = fetchPromise;
-    if (!cached) {
-        chunkCache.set(cacheKey, entry);
-    }
+    // Waiting callers read the persistent cache, so the fetch only counts as done once it is flushed
+    const done = fetchPromise.finally(() => storeWriter.flush());
+    inFlightFetches.set(cacheKey, done);
 
     try {
-        await fetchPromise;
+        await done;
     } finally {
-        const current = chunkCache.get(cacheKey);
-        if (current) current.inFlight = undefined;
+        if (inFlightFetches.get(cacheKey) === done) inFlightFetches.delete(cacheKey);
     }
 
+    if (verifyError) throw verifyError;
+    if (abortSignal?.aborted) throw new Error('Aborted');
+
     // Sort by index
     const chunks = Array.from(chunksByIndex.values()).sort((a, b) => a.index - b.index);
 
@@ -408,8 +1065,299 @@ export async function fetchChunks(
 }
 
 /**
- * Close pool and clean up connections
+ * Optional behaviour for streamChunks
+ */
+export interface StreamChunksOptions {
+    verifyChunk?: ChunkVerifier;
+    /** Number of chunks requested per round trip (default STREAM_WINDOW_SIZE) */
+    windowSize?: number;
+    abortSignal?: AbortSignal;
+    /** Shown for this file in the persistent cache listing */
+    fileName?: string;
+}
+
+const STREAM_WINDOW_SIZE = 8;
+
+/**
+ * Fetch a specific set of chunks by event id, or by d tag where the manifest has no id
+ * Chunks that fail verification are retried once on the relays that did not serve them
+ */
+async function fetchChunksFromRelays(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string,
+    fileHash: string,
+    infos: ChunkInfo[],
+    verifyChunk?: ChunkVerifier,
+    abortSignal?: AbortSignal
+): Promise<Map<number, ChunkEvent>> {
+    const chunksByIndex = new Map<number, ChunkEvent>();
+    const indexByEventId = new Map(infos.filter(info => info.event_id).map(info => [info.event_id, info.index]));
+    const indexByDTag = new Map(infos.filter(info => !info.event_id).map(info => [getChunkDTag(fileHash, info.index), info.index]));
+    const rejectedRelaysByIndex = new Map<number, Set<string>>();
+
+    const queryDTags = (urls: string[], dTags: string[]) => queryEvents(pool, urls, {
+        kinds: [EVENT_KINDS.CHUNK],
+        authors: [pubkey],
+        '#d': dTags,
+    }, abortSignal);
+
+    const accept = async (event: Event) => {
+        // The manifest is authoritative for which index an event id holds
+        const dTag = event.tags.find(t => t[0] === 'd')?.[1];
+        const index = indexByEventId.get(event.id) ?? (dTag ? indexByDTag.get(dTag) : undefined);
+        if (index == null || chunksByIndex.has(index)) return;
+        if (!isAuthentic(pool, event, pubkey)) return;
+
+        const encryptionTag = event.tags.find(t => t[0] === 'encryption');
+        const chunk = {
+            index,
+            content: event.content,
+            encryption: encryptionTag?.[1] || 'none',
+        };
+
+        if (verifyChunk && !(await verifyChunk(chunk))) {
+            const sources = getSeenOnRelays(pool, event.id);
+            console.warn(`[streamChunks] Chunk ${index} failed verification (event ${event.id}) from:`, sources);
+            rejectedRelaysByIndex.set(index, new Set(sources));
+            reportChunkStatus(pubkey, fileHash, index, 'failed-hash', sources);
+            return;
+        }
+        if (!chunksByIndex.has(index)) {
+            chunksByIndex.set(index, chunk);
+            reportChunkStatus(pubkey, fileHash, index, 'received', getSeenOnRelays(pool, event.id));
+        }
+    };
+
+    const [byId, byDTag] = await Promise.all([
+        indexByEventId.size > 0 ? queryChunkIds(pool, relays, pubkey, Array.from(indexByEventId.keys()), abortSignal) : [],
+        indexByDTag.size > 0 ? queryDTags(relays, Array.from(indexByDTag.keys())) : [],
+    ]);
+    await Promise.all([...byId, ...byDTag].map(accept));
+
+    for (const [index, rejectedRelays] of rejectedRelaysByIndex) {
+        if (chunksByIndex.has(index)) continue;
+        const otherRelays = relays.filter(url => !rejectedRelays.has(normalizeURL(url)));
+        const info = infos.find(i => i.index === index);
+        if (!info || otherRelays.length === 0) continue;
+
+        const retry = info.event_id
+            ? await queryChunkIds(pool, otherRelays, pubkey, [info.event_id], abortSignal)
+            : await queryDTags(otherRelays, [getChunkDTag(fileHash, index)]);
+        await Promise.all(retry.map(accept));
+    }
+
+    for (const info of infos) {
+        if (!chunksByIndex.has(info.index) && !rejectedRelaysByIndex.has(info.index)) {
+            reportChunkStatus(pubkey, fileHash, info.index, 'missing');
+        }
+    }
+
+    return chunksByIndex;
+}
+
+/**
+ * Check that a manifest lists an event id for every chunk, so chunks can be requested directly
+ */
+export function hasChunkEventIds(totalChunks: number, chunkInfos: ChunkInfo[] | undefined): boolean {
+    const infos = [...(chunkInfos ?? [])].sort((a, b) => a.index - b.index);
+    return infos.length === totalChunks && infos.every((info, i) => info.index === i && !!info.event_id);
+}
+
+/**
+ * Load one window of chunks, using the persistent cache before asking relays
+ * Newly fetched chunks are queued on storeWriter.
+ */
+async function fetchChunkWindow(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string,
+    fileHash: string,
+    infos: ChunkInfo[],
+    storeWriter: ChunkStoreWriter,
+    verifyChunk?: ChunkVerifier,
+    abortSignal?: AbortSignal
+): Promise<Map<number, ChunkEvent>> {
+    const chunksByIndex = new Map<number, ChunkEvent>();
+    const stored = await getCachedChunks(pubkey, fileHash, infos.map(info => info.index));
+    const { valid, invalid } = await partitionVerified(stored, verifyChunk);
+    valid.forEach(chunk => {
+        chunksByIndex.set(chunk.index, chunk);
+        reportChunkStatus(pubkey, fileHash, chunk.index, 'received');
+    });
+    void deleteCachedChunks(pubkey, fileHash, invalid);
+
+    const missing = infos.filter(info => !chunksByIndex.has(info.index));
+    if (missing.length > 0) {
+        const fetched = await fetchChunksFromRelays(pool, relays, pubkey, fileHash, missing, verifyChunk, abortSignal);
+        for (const chunk of fetched.values()) {
+            chunksByIndex.set(chunk.index, chunk);
+            storeWriter.add(chunk);
+        }
+    }
+    return chunksByIndex;
+}
+
+/**
+ * Fetch a few chunks by event id or d tag, using the persistent cache before asking relays
+ * For random access (e.g. a media player seeking); newly fetched chunks are cached too.
+ */
+export async function fetchChunksByInfo(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string,
+    fileHash: string,
+    totalChunks: number,
+    infos: ChunkInfo[],
+    options: FetchChunksOptions = {}
+): Promise<Map<number, ChunkEvent>> {
+    const storeWriter = createChunkStoreWriter(pubkey, fileHash, totalChunks, options.fileName);
+    try {
+        return await fetchChunkWindow(pool, relays, pubkey, fileHash, infos, storeWriter, options.verifyChunk, options.abortSignal);
+    } finally {
+        await storeWriter.flush();
+    }
+}
+
+/**
+ * d tag of a chunk event (`<file hash>:<index>`, as parseChunkIndexFromTags reads it)
  */
-export function closePool(pool: SimplePool): void {
-    pool.close(DEFAULT_INDEX_RELAYS);
+export function getChunkDTag(fileHash: string, index: number): string {
+    return `${fileHash}:${index}`;
+}
+
+/**
+ * Ask the given relays again for specific chunks, by event id and by d tag
+ * For chunks a full fetch could not collect; recovered chunks go to the persistent
+ * cache, so the next download or preview picks them up.
+ * @returns indices that were recovered
+ */
+export async function retryChunks(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string,
+    fileHash: string,
+    totalChunks: number,
+    indices: number[],
+    chunkInfos: ChunkInfo[] | undefined,
+    options: FetchChunksOptions = {}
+): Promise<number[]> {
+    const { verifyChunk, fileName, abortSignal } = options;
+    const wanted = new Set(indices);
+    const infoByIndex = new Map(chunkInfos?.map(info => [info.index, info]));
+    const indexByEventId = new Map(chunkInfos?.filter(info => info.event_id).map(info => [info.event_id, info.index]));
+    const recovered = new Map<number, ChunkEvent>();
+    const rejected = new Set<number>();
+    const storeWriter = createChunkStoreWriter(pubkey, fileHash, totalChunks, fileName);
+
+    const accept = async (event: Event) => {
+        const index = indexByEventId.get(event.id) ?? parseChunkIndexFromTags(event.tags);
+        if (index == null || !wanted.has(index) || recovered.has(index)) return;
+        if (!isAuthentic(pool, event, pubkey)) return;
+
+        const encryptionTag = event.tags.find(t => t[0] === 'encryption');
+        const chunk = {
+            index,
+            content: event.content,
+            encryption: encryptionTag?.[1] || 'none',
+        };
+
+        if (verifyChunk && !(await verifyChunk(chunk))) {
+            rejected.add(index);
+            reportChunkStatus(pubkey, fileHash, index, 'failed-hash', getSeenOnRelays(pool, event.id));
+            return;
+        }
+        if (recovered.has(index)) return;
+        recovered.set(index, chunk);
+        storeWriter.add(chunk);
+        reportChunkStatus(pubkey, fileHash, index, 'received', getSeenOnRelays(pool, event.id));
+    };
+
+    console.log('[retryChunks] Retrying chunks:', { fileHash, indices, relays });
+
+    try {
+        const ids = indices.flatMap(index => infoByIndex.get(index)?.event_id || []);
+        if (ids.length > 0) {
+            const events = await queryChunkIds(pool, relays, pubkey, ids, abortSignal);
+            await Promise.all(events.map(accept));
+        }
+
+        // Copies re-published under a new event id are still found by their d tag
+        const remaining = indices.filter(index => !recovered.has(index));
+        for (let i = 0; i < remaining.length; i += CHUNK_ID_BATCH_SIZE) {
+            const events = await queryEvents(pool, relays, {
+                kinds: [EVENT_KINDS.CHUNK],
+                authors: [pubkey],
+                '#d': remaining.slice(i, i + CHUNK_ID_BATCH_SIZE).map(index => getChunkDTag(fileHash, index)),
+            }, abortSignal);
+            await Promise.all(events.map(accept));
+        }
+    } finally {
+        await storeWriter.flush();
+    }
+
+    for (const index of indices) {
+        if (!recovered.has(index) && !rejected.has(index)) {
+            reportChunkStatus(pubkey, fileHash, index, 'missing');
+        }
+    }
+
+    return Array.from(recovered.keys()).sort((a, b) => a - b);
+}
+
+/**
+ * Deliver all chunks for a file to onChunk in index order
+ *
+ * Unlike fetchChunks, nothing is kept in memory: chunks are read from the
+ * persistent cache or requested a small window at a time (the next window is
+ * fetched while the current one is being consumed), so memory use stays flat
+ * regardless of file size. Chunks the manifest lists no event id for are
+ * requested by their d tag.
+ * @throws Error if a chunk cannot be found on any relay
+ */
+export async function streamChunks(
+    pool: SimplePool,
+    relays: string[],
+    pubkey: string,
+    fileHash: string,
+    totalChunks: number,
+    chunkInfos: ChunkInfo[] | undefined,
+    onChunk: (chunk: ChunkEvent) => Promise<void>,
+    options: StreamChunksOptions = {}
+): Promise<void> {
+    const { verifyChunk, windowSize = STREAM_WINDOW_SIZE, abortSignal, fileName } = options;
+
+    const infoByIndex = new Map(chunkInfos?.map(info => [info.index, info]));
+    const infos = Array.from({ length: totalChunks }, (_, index): ChunkInfo =>
+        infoByIndex.get(index) ?? { index, event_id: '', hash: '' });
+
+    const storeWriter = createChunkStoreWriter(pubkey, fileHash, totalChunks, fileName);
+    const fetchWindow = (start: number) =>
+        fetchChunkWindow(pool, relays, pubkey, fileHash, infos.slice(start, start + windowSize), storeWriter, verifyChunk, abortSignal);
+
+    try {
+        let next = fetchWindow(0);
+        for (let start = 0; start < totalChunks; start += windowSize) {
+            const current = await next;
+            if (abortSignal?.aborted) throw new Error('Aborted');
+
+            if (start + windowSize < totalChunks) {
+                next = fetchWindow(start + windowSize);
+                // Surface prefetch failures when the window is awaited, not as unhandled rejections
+                next.catch(() => undefined);
+            }
+
+            const end = Math.min(start + windowSize, totalChunks);
+            for (let index = start; index < end; index++) {
+                const chunk = current.get(index);
+                if (!chunk) {
+                    throw new Error(`Missing chunk ${index} of ${totalChunks}: not found on any relay`);
+                }
+                await onChunk(chunk);
+                if (abortSignal?.aborted) throw new Error('Aborted');
+            }
+        }
+    } finally {
+        await storeWriter.flush();
+    }
 }
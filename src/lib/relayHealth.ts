@@ -0,0 +1,121 @@
+/**
+ * Relay health checks
+ * Probes relays with a short-lived WebSocket and keeps the latest status per relay
+ */
+
+export type RelayConnectionState = 'checking' | 'connected' | 'error';
+
+export interface RelayStatus {
+    state: RelayConnectionState;
+    /** Round trip for an empty REQ → EOSE, in ms */
+    latency?: number;
+    lastError?: string;
+    checkedAt?: number;
+}
+
+const PROBE_TIMEOUT = 8000;
+
+const statuses = new Map<string, RelayStatus>();
+let snapshot: ReadonlyMap<string, RelayStatus> = new Map();
+const listeners = new Set<() => void>();
+
+function setStatus(url: string, status: RelayStatus): void {
+    statuses.set(url, status);
+    snapshot = new Map(statuses);
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Latest known status of every probed relay (useSyncExternalStore compatible)
+ */
+export function getRelayStatuses(): ReadonlyMap<string, RelayStatus> {
+    return snapshot;
+}
+
+/**
+ * Subscribe to status changes
+ */
+export function subscribeRelayStatuses(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+/**
+ * Connect to a relay, send an empty REQ and time the EOSE
+ * Keeps the last error message around even after a later successful probe.
+ */
+export function probeRelay(url: string): Promise<RelayStatus> {
+    const previous = statuses.get(url);
+    setStatus(url, { ...previous, state: 'checking' });
+
+    return new Promise((resolve) => {
+        let settled = false;
+        let socket: WebSocket | null = null;
+        const subId = `probe-${Math.random().toString(36).slice(2, 10)}`;
+        let sentAt = 0;
+
+        const finish = (status: RelayStatus) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            try {
+                socket?.close();
+            } catch {
+                // Already closed
+            }
+            setStatus(url, status);
+            resolve(status);
+        };
+
+        const fail = (message: string) => {
+            finish({ state: 'error', lastError: message, checkedAt: Date.now() });
+        };
+
+        const timer = setTimeout(() => fail('Timed out'), PROBE_TIMEOUT);
+
+        let ws: WebSocket;
+        try {
+            ws = new WebSocket(url);
+        } catch (err) {
+            fail(err instanceof Error ? err.message : 'Invalid relay URL');
+            return;
+        }
+        socket = ws;
+
+        ws.onopen = () => {
+            sentAt = performance.now();
+            ws.send(JSON.stringify(['REQ', subId, { limit: 0 }]));
+        };
+
+        ws.onmessage = (event) => {
+            let message: unknown;
+            try {
+                message = JSON.parse(String(event.data));
+            } catch {
+                return;
+            }
+            if (!Array.isArray(message)) return;
+
+            if (message[0] === 'EOSE' && message[1] === subId) {
+                ws.send(JSON.stringify(['CLOSE', subId]));
+                finish({
+                    state: 'connected',
+                    latency: Math.round(performance.now() - sentAt),
+                    lastError: previous?.lastError,
+                    checkedAt: Date.now(),
+                });
+            } else if (message[0] === 'CLOSED' && message[1] === subId) {
+                fail(`Closed: ${message[2] ?? 'no reason given'}`);
+            } else if (message[0] === 'NOTICE') {
+                setStatus(url, { ...statuses.get(url), state: 'checking', lastError: `Notice: ${message[1]}` });
+            }
+        };
+
+        ws.onerror = () => fail('Connection failed');
+        ws.onclose = (event) => {
+            if (!settled) fail(`Connection closed (code ${event.code})`);
+        };
+    });
+}
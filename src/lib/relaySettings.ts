@@ -0,0 +1,177 @@
+/**
+ * User-configurable relay list
+ * Stored in localStorage; falls back to DEFAULT_INDEX_RELAYS when nothing is configured
+ */
+
+import { normalizeURL } from 'nostr-tools/utils';
+import { DEFAULT_INDEX_RELAYS } from './nostr';
+
+/**
+ * What a relay is queried for
+ * index: file indexes and manifests; data: file chunks
+ */
+export type RelayUsage = 'index' | 'data' | 'both';
+
+export interface RelayConfig {
+    url: string;
+    enabled: boolean;
+    usage: RelayUsage;
+}
+
+const STORAGE_KEY = 'nostrfetch:relays';
+
+/**
+ * Relays offered by default but switched off
+ */
+const DISABLED_DEFAULT_RELAYS = [
+    'wss://relay.damus.io',
+    'wss://relay.nostr.band',
+];
+
+const listeners = new Set<() => void>();
+let cachedConfigs: RelayConfig[] | null = null;
+
+function defaultRelayConfigs(): RelayConfig[] {
+    return [
+        ...DEFAULT_INDEX_RELAYS.map(url => ({ url, enabled: true, usage: 'both' as const })),
+        ...DISABLED_DEFAULT_RELAYS.map(url => ({ url, enabled: false, usage: 'both' as const })),
+    ];
+}
+
+function isRelayConfig(value: unknown): value is RelayConfig {
+    if (!value || typeof value !== 'object') return false;
+    const config = value as Record<string, unknown>;
+    return typeof config.url === 'string'
+        && typeof config.enabled === 'boolean'
+        && (config.usage === 'index' || config.usage === 'data' || config.usage === 'both');
+}
+
+/**
+ * Validate and normalize a relay URL entered by the user
+ * @throws Error if the URL is not a ws:// or wss:// URL
+ */
+export function normalizeRelayUrl(input: string): string {
+    const trimmed = input.trim();
+    if (!/^wss?:\/\//i.test(trimmed)) {
+        throw new Error('Relay URL must start with wss:// or ws://');
+    }
+    try {
+        return normalizeURL(trimmed);
+    } catch {
+        throw new Error('Invalid relay URL');
+    }
+}
+
+/** Relay hints kept from links and identifiers; more only makes URLs longer */
+const MAX_RELAY_HINTS = 5;
+
+/**
+ * Normalize relay hints (from an naddr, nprofile, NIP-05 or URL), dropping invalid
+ * and duplicate URLs and keeping the first few
+ */
+export function normalizeRelayHints(relays: string[]): string[] {
+    const unique = new Set<string>();
+    for (const url of relays) {
+        try {
+            unique.add(normalizeRelayUrl(url));
+        } catch {
+            // Skip anything that isn't a websocket relay
+        }
+    }
+    return Array.from(unique).slice(0, MAX_RELAY_HINTS);
+}
+
+/** Query parameter that carries relay hints between pages */
+export const RELAY_HINT_PARAM = 'relay';
+
+/**
+ * Add relay hints to a query string, keeping the ones already in it
+ */
+export function addRelayHints(search: string, relays: string[]): string {
+    const params = new URLSearchParams(search);
+    const existing = params.getAll(RELAY_HINT_PARAM);
+    for (const url of normalizeRelayHints(relays)) {
+        if (!existing.includes(url)) params.append(RELAY_HINT_PARAM, url);
+    }
+    const query = params.toString();
+    return query ? `?${query}` : '';
+}
+
+/**
+ * Load the relay list (defaults when nothing has been saved)
+ */
+export function loadRelayConfigs(): RelayConfig[] {
+    if (cachedConfigs) return cachedConfigs;
+
+    let configs = defaultRelayConfigs();
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const parsed: unknown = JSON.parse(stored);
+            if (Array.isArray(parsed)) configs = parsed.filter(isRelayConfig);
+        }
+    } catch {
+        console.error('Failed to parse saved relay list');
+    }
+
+    cachedConfigs = configs;
+    return configs;
+}
+
+/**
+ * Save the relay list and notify subscribers
+ */
+export function saveRelayConfigs(configs: RelayConfig[]): void {
+    cachedConfigs = configs;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(configs));
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Restore the built-in relay list
+ */
+export function resetRelayConfigs(): void {
+    localStorage.removeItem(STORAGE_KEY);
+    cachedConfigs = null;
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Subscribe to relay list changes (useSyncExternalStore compatible)
+ */
+export function subscribeRelayConfigs(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
+
+function enabledRelays(usage: 'index' | 'data'): string[] {
+    return loadRelayConfigs()
+        .filter(config => config.enabled && (config.usage === usage || config.usage === 'both'))
+        .map(config => config.url);
+}
+
+/**
+ * Relays to query for file indexes and manifests
+ */
+export function getIndexRelays(): string[] {
+    const relays = enabledRelays('index');
+    return relays.length > 0 ? relays : DEFAULT_INDEX_RELAYS;
+}
+
+/**
+ * Relays to query for chunks: the manifest's relays plus the user's data relays
+ */
+export function getDataRelays(manifestRelays?: string[]): string[] {
+    const merged = new Map<string, string>();
+    for (const url of [...(manifestRelays ?? []), ...enabledRelays('data')]) {
+        try {
+            const normalized = normalizeURL(url);
+            if (!merged.has(normalized)) merged.set(normalized, url);
+        } catch {
+            // Skip malformed relay URLs from manifests
+        }
+    }
+    return merged.size > 0 ? Array.from(merged.values()) : DEFAULT_INDEX_RELAYS;
+}
@@ -0,0 +1,177 @@
+/**
+ * Per-relay chunk statistics
+ * Records which relays deliver chunks, which ones lack them or serve bad copies,
+ * and how fast they answer by-id requests. Saved in localStorage and used to ask
+ * the most promising relays first.
+ */
+
+import { normalizeURL } from 'nostr-tools/utils';
+
+export interface RelayChunkStats {
+    /** Chunks accepted from this relay */
+    delivered: number;
+    /** Copies that failed verification */
+    failed: number;
+    /** Chunks asked for by event id */
+    requested: number;
+    /** Of those, how many the relay did not return */
+    missed: number;
+    /** Smoothed time to answer a by-id request, in ms */
+    latencyMs?: number;
+    lastUsedAt: number;
+}
+
+const STORAGE_KEY = 'nostrfetch:relay-stats';
+const SAVE_DELAY = 2000;
+/** Weight of the newest sample in the smoothed latency */
+const LATENCY_SMOOTHING = 0.3;
+/** Assumed response time for relays that haven't been timed yet */
+const DEFAULT_LATENCY_MS = 1000;
+
+const listeners = new Set<() => void>();
+let stats: Map<string, RelayChunkStats> | null = null;
+let snapshot: ReadonlyMap<string, RelayChunkStats> = new Map();
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function isRelayChunkStats(value: unknown): value is RelayChunkStats {
+    if (!value || typeof value !== 'object') return false;
+    const entry = value as Record<string, unknown>;
+    return typeof entry.delivered === 'number'
+        && typeof entry.failed === 'number'
+        && typeof entry.requested === 'number'
+        && typeof entry.missed === 'number'
+        && (entry.latencyMs === undefined || typeof entry.latencyMs === 'number')
+        && typeof entry.lastUsedAt === 'number';
+}
+
+function loadStats(): Map<string, RelayChunkStats> {
+    if (stats) return stats;
+    stats = new Map();
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (stored) {
+            const parsed: unknown = JSON.parse(stored);
+            if (parsed && typeof parsed === 'object') {
+                for (const [url, entry] of Object.entries(parsed)) {
+                    if (isRelayChunkStats(entry)) stats.set(url, entry);
+                }
+            }
+        }
+    } catch {
+        console.error('Failed to parse saved relay stats');
+    }
+    snapshot = new Map(stats);
+    return stats;
+}
+
+function scheduleSave(): void {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+        saveTimer = null;
+        try {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(loadStats())));
+        } catch {
+            console.error('Failed to save relay stats');
+        }
+    }, SAVE_DELAY);
+}
+
+function toStatsKey(url: string): string {
+    try {
+        return normalizeURL(url);
+    } catch {
+        return url;
+    }
+}
+
+function updateStats(url: string, update: (entry: RelayChunkStats) => RelayChunkStats): void {
+    const all = loadStats();
+    const key = toStatsKey(url);
+    const entry = all.get(key) ?? { delivered: 0, failed: 0, requested: 0, missed: 0, lastUsedAt: 0 };
+    all.set(key, { ...update(entry), lastUsedAt: Date.now() });
+    snapshot = new Map(all);
+    scheduleSave();
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Count chunks accepted from (or rejected from) the relays that served them
+ */
+export function recordChunkOutcome(relays: string[], outcome: 'delivered' | 'failed'): void {
+    for (const url of relays) {
+        updateStats(url, entry => ({ ...entry, [outcome]: entry[outcome] + 1 }));
+    }
+}
+
+/**
+ * Record one relay's answer to a by-id request
+ * @param latencyMs Time until the relay finished answering; null when it failed
+ */
+export function recordChunkQuery(url: string, requested: number, returned: number, latencyMs: number | null): void {
+    updateStats(url, entry => ({
+        ...entry,
+        requested: entry.requested + requested,
+        missed: entry.missed + Math.max(0, requested - returned),
+        latencyMs: latencyMs == null
+            ? entry.latencyMs
+            : Math.round(entry.latencyMs == null
+                ? latencyMs
+                : entry.latencyMs + LATENCY_SMOOTHING * (latencyMs - entry.latencyMs)),
+    }));
+}
+
+/**
+ * How promising a relay is for chunk requests (higher is better)
+ * Combines how often it had the chunks asked for, how often its copies were
+ * bad, and how fast it answers; relays without history score in the middle.
+ */
+export function scoreRelay(entry: RelayChunkStats | undefined): number {
+    if (!entry) return 0.5 * (DEFAULT_LATENCY_MS / (DEFAULT_LATENCY_MS + DEFAULT_LATENCY_MS));
+    const availability = (entry.requested - entry.missed + 1) / (entry.requested + 2);
+    const integrity = 1 - entry.failed / (entry.delivered + entry.failed + 1);
+    const speed = DEFAULT_LATENCY_MS / (DEFAULT_LATENCY_MS + (entry.latencyMs ?? DEFAULT_LATENCY_MS));
+    return availability * integrity * speed;
+}
+
+/**
+ * Order relays best first by their recorded stats; ties keep the given order
+ */
+export function rankRelays(relays: string[]): string[] {
+    const all = loadStats();
+    return relays
+        .map((url, order) => ({ url, order, score: scoreRelay(all.get(toStatsKey(url))) }))
+        .sort((a, b) => b.score - a.score || a.order - b.order)
+        .map(({ url }) => url);
+}
+
+/**
+ * Current stats for every relay seen so far (useSyncExternalStore compatible)
+ */
+export function getRelayStats(): ReadonlyMap<string, RelayChunkStats> {
+    loadStats();
+    return snapshot;
+}
+
+/**
+ * Forget all recorded stats
+ */
+export function resetRelayStats(): void {
+    stats = new Map();
+    snapshot = new Map();
+    if (saveTimer) {
+        clearTimeout(saveTimer);
+        saveTimer = null;
+    }
+    localStorage.removeItem(STORAGE_KEY);
+    listeners.forEach(listener => listener());
+}
+
+/**
+ * Subscribe to stats changes
+ */
+export function subscribeRelayStats(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+        listeners.delete(listener);
+    };
+}
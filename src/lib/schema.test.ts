@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { arrayOf, formatIssues, integer, objectOf, oneOf, optional, refine, string, validate, withDefault } from './schema';
+
+interface Item {
+    name: string;
+    count: number;
+    kind: 'a' | 'b';
+    note?: string;
+    tags: string[];
+}
+
+const item = objectOf<Item>({
+    name: string({ nonEmpty: true }),
+    count: integer({ min: 0 }),
+    kind: oneOf(['a', 'b'] as const),
+    note: optional(string()),
+    tags: withDefault(arrayOf(string()), []),
+});
+
+describe('validate', () => {
+    it('returns the value with defaults filled in and absent optional fields left out', () => {
+        expect(validate(item, { name: 'x', count: 1, kind: 'a', extra: true })).toEqual({
+            ok: true,
+            value: { name: 'x', count: 1, kind: 'a', tags: [] },
+        });
+    });
+
+    it('treats null like a missing field for optional and defaulted fields', () => {
+        const result = validate(item, { name: 'x', count: 1, kind: 'b', note: null, tags: null });
+        expect(result).toEqual({ ok: true, value: { name: 'x', count: 1, kind: 'b', tags: [] } });
+    });
+
+    it('collects every issue with its path', () => {
+        const result = validate(arrayOf(item), [
+            { name: 'ok', count: 0, kind: 'a' },
+            { name: '', count: -1, kind: 'c', tags: ['t', 5] },
+        ]);
+        expect(result).toEqual({
+            ok: false,
+            issues: [
+                { path: '[1].name', message: 'must not be empty' },
+                { path: '[1].count', message: 'must be at least 0, got -1' },
+                { path: '[1].kind', message: 'expected one of "a", "b", got "c"' },
+                { path: '[1].tags[1]', message: 'expected a string, got number' },
+            ],
+        });
+    });
+
+    it('reports missing required fields and wrong container types', () => {
+        expect(validate(item, {})).toMatchObject({
+            ok: false,
+            issues: [
+                { path: 'name', message: 'expected a string, got undefined' },
+                { path: 'count', message: 'expected an integer, got undefined' },
+                { path: 'kind', message: 'expected one of "a", "b", got undefined' },
+            ],
+        });
+        expect(validate(item, [])).toEqual({ ok: false, issues: [{ path: '', message: 'expected an object, got array' }] });
+        expect(validate(integer(), 1.5)).toEqual({ ok: false, issues: [{ path: '', message: 'expected an integer, got 1.5' }] });
+    });
+
+    it('checks string patterns', () => {
+        const hex = string({ pattern: /^[0-9a-f]+$/, patternMessage: 'expected hex' });
+        expect(validate(hex, 'beef').ok).toBe(true);
+        expect(validate(hex, 'xyz')).toEqual({ ok: false, issues: [{ path: '', message: 'expected hex' }] });
+    });
+});
+
+describe('refine', () => {
+    const range = refine(
+        objectOf<{ min: number; max: number }>({ min: integer(), max: integer() }),
+        ({ min, max }) => (min > max ? [{ path: 'max', message: `must be at least min (${min})` }] : [])
+    );
+
+    it('adds cross-field issues under the value path', () => {
+        expect(validate(objectOf({ range }), { range: { min: 5, max: 1 } })).toEqual({
+            ok: false,
+            issues: [{ path: 'range.max', message: 'must be at least min (5)' }],
+        });
+        expect(validate(range, { min: 1, max: 5 }).ok).toBe(true);
+    });
+
+    it('skips the checks when the value already failed its schema', () => {
+        expect(validate(range, { min: 5, max: 'one' })).toEqual({
+            ok: false,
+            issues: [{ path: 'max', message: 'expected an integer, got string' }],
+        });
+    });
+});
+
+describe('formatIssues', () => {
+    it('lists issues up to the limit and summarizes the rest', () => {
+        const issues = [
+            { path: 'a', message: 'bad' },
+            { path: '', message: 'whole value' },
+            { path: 'c', message: 'worse' },
+        ];
+        expect(formatIssues(issues, 2)).toBe('a: bad; whole value; ...and 1 more');
+    });
+});
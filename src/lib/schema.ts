@@ -0,0 +1,156 @@
+/**
+ * Minimal runtime schema checks for JSON event content
+ * Schemas collect every problem with a field path (e.g. `chunks[3].index`) instead of
+ * stopping at the first one. Unknown fields are ignored so newer writers stay readable.
+ */
+
+export interface SchemaIssue {
+    /** Where the problem is, e.g. `entries[2].file_size`; empty for the whole value */
+    path: string;
+    message: string;
+}
+
+/**
+ * Checks a value, pushing any problems onto issues
+ * The returned value is only meaningful when no issues were added.
+ */
+export type Schema<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T;
+
+export type SchemaResult<T> =
+    | { ok: true; value: T }
+    | { ok: false; issues: SchemaIssue[] };
+
+/**
+ * Run a schema against a value
+ */
+export function validate<T>(schema: Schema<T>, value: unknown): SchemaResult<T> {
+    const issues: SchemaIssue[] = [];
+    const result = schema(value, '', issues);
+    return issues.length === 0 ? { ok: true, value: result } : { ok: false, issues };
+}
+
+/**
+ * One line per issue, e.g. "file_size: expected an integer, got string"
+ * @param limit Issues listed before the rest are summarized
+ */
+export function formatIssues(issues: SchemaIssue[], limit = 5): string {
+    const lines = issues.slice(0, limit).map(issue => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+    if (issues.length > limit) lines.push(`...and ${issues.length - limit} more`);
+    return lines.join('; ');
+}
+
+function describe(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
+
+function childPath(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    return path ? `${path}.${key}` : key;
+}
+
+/**
+ * String, optionally non-empty or matching a pattern
+ */
+export function string(options: { nonEmpty?: boolean; pattern?: RegExp; patternMessage?: string } = {}): Schema<string> {
+    return (value, path, issues) => {
+        if (typeof value !== 'string') {
+            issues.push({ path, message: `expected a string, got ${describe(value)}` });
+        } else if (options.nonEmpty && value.length === 0) {
+            issues.push({ path, message: 'must not be empty' });
+        } else if (options.pattern && !options.pattern.test(value)) {
+            issues.push({ path, message: options.patternMessage ?? `does not match ${options.pattern}` });
+        }
+        return value as string;
+    };
+}
+
+/**
+ * Whole number, optionally with a lower bound
+ */
+export function integer(options: { min?: number } = {}): Schema<number> {
+    return (value, path, issues) => {
+        if (typeof value !== 'number' || !Number.isInteger(value)) {
+            issues.push({ path, message: `expected an integer, got ${typeof value === 'number' ? value : describe(value)}` });
+        } else if (options.min !== undefined && value < options.min) {
+            issues.push({ path, message: `must be at least ${options.min}, got ${value}` });
+        }
+        return value as number;
+    };
+}
+
+/**
+ * One of a fixed set of values
+ */
+export function oneOf<T extends string | number>(values: readonly T[]): Schema<T> {
+    return (value, path, issues) => {
+        if (!values.includes(value as T)) {
+            issues.push({ path, message: `expected one of ${values.map(v => JSON.stringify(v)).join(', ')}, got ${JSON.stringify(value) ?? describe(value)}` });
+        }
+        return value as T;
+    };
+}
+
+/**
+ * Allows the field to be missing (null is treated as missing)
+ */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+    return (value, path, issues) => (value === undefined || value === null ? undefined : schema(value, path, issues));
+}
+
+/**
+ * Uses fallback when the field is missing (or null)
+ */
+export function withDefault<T>(schema: Schema<T>, fallback: T): Schema<T> {
+    return (value, path, issues) => (value === undefined || value === null ? fallback : schema(value, path, issues));
+}
+
+/**
+ * Array whose every item matches the item schema
+ */
+export function arrayOf<T>(item: Schema<T>): Schema<T[]> {
+    return (value, path, issues) => {
+        if (!Array.isArray(value)) {
+            issues.push({ path, message: `expected an array, got ${describe(value)}` });
+            return [];
+        }
+        return value.map((entry, i) => item(entry, childPath(path, i), issues));
+    };
+}
+
+/**
+ * Object with the given fields; optional fields that are absent are left out of the result
+ */
+export function objectOf<T extends object>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+    return (value, path, issues) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            issues.push({ path, message: `expected an object, got ${describe(value)}` });
+            return {} as T;
+        }
+        const source = value as Record<string, unknown>;
+        const result: Record<string, unknown> = {};
+        for (const key of Object.keys(shape) as (keyof T & string)[]) {
+            const field = shape[key](source[key], childPath(path, key), issues);
+            if (field !== undefined) result[key] = field;
+        }
+        return result as T;
+    };
+}
+
+/**
+ * Adds checks across fields, run only once the value passed its own schema
+ * Paths of the issues check returns are relative to the value.
+ */
+export function refine<T>(schema: Schema<T>, check: (value: T) => SchemaIssue[]): Schema<T> {
+    return (value, path, issues) => {
+        const before = issues.length;
+        const result = schema(value, path, issues);
+        if (issues.length === before) {
+            for (const issue of check(result)) {
+                issues.push({ path: issue.path ? childPath(path, issue.path) : path, message: issue.message });
+            }
+        }
+        return result;
+    };
+}
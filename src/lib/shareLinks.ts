@@ -0,0 +1,64 @@
+/**
+ * Share links for files
+ * A link carries the manifest's NIP-19 naddr (author, d tag and relay hints), so it
+ * resolves even when the file lives on relays the recipient has never configured.
+ */
+
+import * as nip19 from 'nostr-tools/nip19';
+import { EVENT_KINDS } from './types';
+import { normalizeRelayHints } from './relaySettings';
+
+/**
+ * A decoded manifest address
+ */
+export interface ManifestAddress {
+    pubkey: string;
+    /** d tag of the manifest event */
+    identifier: string;
+    /** Relays to query first */
+    relays: string[];
+}
+
+/**
+ * Encode a manifest as an naddr
+ * @param relays Relay hints in order of preference; invalid and duplicate URLs are dropped
+ */
+export function encodeManifestAddress(pubkey: string, identifier: string, relays: string[]): string {
+    return nip19.naddrEncode({
+        kind: EVENT_KINDS.MANIFEST,
+        pubkey,
+        identifier,
+        relays: normalizeRelayHints(relays),
+    });
+}
+
+/**
+ * Decode an naddr that points at a manifest
+ * @throws Error if the input is not an naddr or addresses another kind of event
+ */
+export function decodeManifestAddress(naddr: string): ManifestAddress {
+    let decoded: ReturnType<typeof nip19.decode>;
+    try {
+        decoded = nip19.decode(naddr);
+    } catch {
+        throw new Error('Invalid share link');
+    }
+    if (decoded.type !== 'naddr') {
+        throw new Error('Invalid share link');
+    }
+    if (decoded.data.kind !== EVENT_KINDS.MANIFEST) {
+        throw new Error('This link does not point to a shared file');
+    }
+    return {
+        pubkey: decoded.data.pubkey,
+        identifier: decoded.data.identifier,
+        relays: normalizeRelayHints(decoded.data.relays ?? []),
+    };
+}
+
+/**
+ * Absolute URL that opens a manifest address in this app
+ */
+export function getShareUrl(naddr: string): string {
+    return new URL(`${import.meta.env.BASE_URL}a/${naddr}`, window.location.origin).toString();
+}
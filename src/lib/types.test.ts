@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import { decodeFileIndex, decodeManifest } from './types';
+
+const AUTHOR = 'a'.repeat(64);
+const FILE_HASH = 'f'.repeat(64);
+
+function manifestContent(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+        version: 2,
+        file_name: 'notes.txt',
+        file_hash: FILE_HASH,
+        file_size: 70000,
+        chunk_size: 32768,
+        total_chunks: 3,
+        created_at: 1700000000,
+        pubkey: AUTHOR,
+        encryption: 'none',
+        chunks: [0, 1, 2].map(index => ({ index, event_id: `${index}`.repeat(64), hash: 'c'.repeat(64) })),
+        relays: ['wss://relay.example'],
+        ...overrides,
+    };
+}
+
+function indexContent(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+    return {
+        version: 2,
+        entries: [{ file_hash: FILE_HASH, file_name: 'notes.txt', file_size: 70000, uploaded_at: 1700000000, encryption: 'none' }],
+        archive_number: 0,
+        total_archives: 0,
+        ...overrides,
+    };
+}
+
+function issuesOf(result: ReturnType<typeof decodeManifest> | ReturnType<typeof decodeFileIndex>) {
+    return result.ok ? [] : result.issues;
+}
+
+describe('decodeManifest', () => {
+    it('accepts a version 2 manifest from its author', () => {
+        const result = decodeManifest(manifestContent(), { author: AUTHOR });
+        expect(result.ok).toBe(true);
+        expect(result.ok && result.value.file_hash).toBe(FILE_HASH);
+    });
+
+    it('reads version 3 with the v2 layout and ignores fields it adds', () => {
+        const result = decodeManifest(manifestContent({ version: 3, compression: 'zstd' }), { author: AUTHOR });
+        expect(result.ok).toBe(true);
+        expect(result.ok && result.value).not.toHaveProperty('compression');
+        expect(result.ok && result.value.version).toBe(3);
+    });
+
+    it('reports newer and unknown versions', () => {
+        expect(issuesOf(decodeManifest(manifestContent({ version: 4 })))).toEqual([
+            { path: 'version', message: 'version 4 is newer than this app supports (supported: 2, 3)' },
+        ]);
+        expect(issuesOf(decodeManifest(manifestContent({ version: '2' })))).toEqual([
+            { path: 'version', message: 'unsupported version "2" (supported: 2, 3)' },
+        ]);
+        expect(issuesOf(decodeManifest(manifestContent({ version: undefined })))).toEqual([
+            { path: 'version', message: 'unsupported version undefined (supported: 2, 3)' },
+        ]);
+        expect(issuesOf(decodeManifest('manifest'))).toEqual([{ path: '', message: 'expected a JSON object' }]);
+    });
+
+    it('names missing and malformed fields', () => {
+        const content = manifestContent({ file_hash: 'abc', chunk_size: 0 });
+        delete content.file_name;
+        expect(issuesOf(decodeManifest(content))).toEqual([
+            { path: 'file_name', message: 'expected a string, got undefined' },
+            { path: 'file_hash', message: 'expected 64 hex characters' },
+            { path: 'chunk_size', message: 'must be at least 1, got 0' },
+        ]);
+    });
+
+    it('fills in defaults for optional chunk and relay data', () => {
+        const result = decodeManifest(manifestContent({ chunks: [{ index: 0 }, { index: 1 }, { index: 2 }], relays: undefined }));
+        expect(result.ok && result.value.chunks[0]).toEqual({ index: 0, event_id: '', hash: '' });
+        expect(result.ok && result.value.relays).toEqual([]);
+
+        const withoutChunks = decodeManifest(manifestContent({ chunks: null }));
+        expect(withoutChunks.ok && withoutChunks.value.chunks).toEqual([]);
+    });
+
+    it('checks total_chunks against the file size and the chunk list', () => {
+        expect(issuesOf(decodeManifest(manifestContent({ total_chunks: 2, chunks: [] })))).toEqual([
+            { path: 'total_chunks', message: 'expected 3 for file_size 70000 and chunk_size 32768, got 2' },
+        ]);
+        expect(issuesOf(decodeManifest(manifestContent({ chunks: [{ index: 0 }] })))).toEqual([
+            { path: 'chunks', message: 'lists 1 chunks, but total_chunks is 3' },
+        ]);
+    });
+
+    it('rejects a manifest whose pubkey is not the event author', () => {
+        const other = 'b'.repeat(64);
+        expect(issuesOf(decodeManifest(manifestContent(), { author: other }))).toEqual([
+            { path: 'pubkey', message: `does not match the event author ${other}` },
+        ]);
+        expect(decodeManifest(manifestContent({ pubkey: AUTHOR.toUpperCase() }), { author: AUTHOR }).ok).toBe(true);
+    });
+});
+
+describe('decodeFileIndex', () => {
+    it('accepts versions 2 and 3', () => {
+        expect(decodeFileIndex(indexContent()).ok).toBe(true);
+        expect(decodeFileIndex(indexContent({ version: 3, next_page: 'x' })).ok).toBe(true);
+    });
+
+    it('reports newer versions', () => {
+        expect(issuesOf(decodeFileIndex(indexContent({ version: 7 })))).toEqual([
+            { path: 'version', message: 'version 7 is newer than this app supports (supported: 2, 3)' },
+        ]);
+    });
+
+    it('names malformed entries by position', () => {
+        const entries = [
+            { file_hash: 'not-a-hash', file_name: 'a', file_size: 1, uploaded_at: 1, encryption: 'none' },
+            { file_hash: FILE_HASH, file_name: 'b', file_size: -1, uploaded_at: 1, encryption: 'aes' },
+        ];
+        expect(issuesOf(decodeFileIndex(indexContent({ entries, total_archives: undefined })))).toEqual([
+            { path: 'entries[0].file_hash', message: 'expected 64 hex characters' },
+            { path: 'entries[1].file_size', message: 'must be at least 0, got -1' },
+            { path: 'entries[1].encryption', message: 'expected one of "nip44", "none", got "aes"' },
+            { path: 'total_archives', message: 'expected an integer, got undefined' },
+        ]);
+    });
+});
@@ -1,5 +1,7 @@
 // TypeScript interfaces for nostrsave data structures
 
+import { arrayOf, integer, objectOf, oneOf, optional, refine, string, validate, withDefault, type Schema, type SchemaIssue, type SchemaResult } from './schema';
+
 /**
  * Single file entry in the index
  */
@@ -15,7 +17,8 @@ export interface FileEntry {
  * File index event content (Kind 30080)
  */
 export interface FileIndex {
-  version: 2;
+  /** Format version the index was published with */
+  version: number;
   entries: FileEntry[];
   archive_number: number;
   total_archives: number;
@@ -34,7 +37,8 @@ export interface ChunkInfo {
  * Manifest event content (Kind 30079)
  */
 export interface Manifest {
-  version: 2;
+  /** Format version the manifest was published with */
+  version: number;
   file_name: string;
   file_hash: string;
   file_size: number;
@@ -49,9 +53,11 @@ export interface Manifest {
 }
 
 /**
- * Nostr event kinds used by nostrsave
+ * Nostr event kinds used by nostrsave (plus profile metadata and the NIP-65 relay list)
  */
 export const EVENT_KINDS = {
+  METADATA: 0,
+  RELAY_LIST: 10002,
   CHUNK: 30078,
   MANIFEST: 30079,
   INDEX: 30080,
@@ -64,3 +70,150 @@ export const D_TAGS = {
   CURRENT_INDEX: 'nostrsave-index',
   archiveTag: (n: number) => `nostrsave-index-archive-${n}`,
 } as const;
+
+const hex64 = string({ pattern: /^[0-9a-f]{64}$/i, patternMessage: 'expected 64 hex characters' });
+const encryptionSchema = oneOf(['nip44', 'none'] as const);
+
+const fileEntryV2: Schema<FileEntry> = objectOf<FileEntry>({
+  file_hash: hex64,
+  file_name: string(),
+  file_size: integer({ min: 0 }),
+  uploaded_at: integer({ min: 0 }),
+  encryption: encryptionSchema,
+});
+
+/**
+ * Index layout introduced in version 2, for content tagged with the given version
+ */
+function fileIndexSchema(version: number): Schema<FileIndex> {
+  return objectOf<FileIndex>({
+    version: oneOf([version]),
+    entries: arrayOf(fileEntryV2),
+    archive_number: integer({ min: 0 }),
+    total_archives: integer({ min: 0 }),
+  });
+}
+
+const chunkInfoV2: Schema<ChunkInfo> = objectOf<ChunkInfo>({
+  index: integer({ min: 0 }),
+  // Older manifests may leave these out; chunks are then fetched by tag and accepted unchecked
+  event_id: withDefault(string(), ''),
+  hash: withDefault(string(), ''),
+});
+
+/**
+ * Manifest layout introduced in version 2, for content tagged with the given version
+ */
+function manifestSchema(version: number): Schema<Manifest> {
+  return objectOf<Manifest>({
+    version: oneOf([version]),
+    file_name: string(),
+    file_hash: hex64,
+    file_size: integer({ min: 0 }),
+    chunk_size: integer({ min: 1 }),
+    total_chunks: integer({ min: 0 }),
+    created_at: integer({ min: 0 }),
+    pubkey: hex64,
+    encryption: encryptionSchema,
+    chunks: withDefault(arrayOf(chunkInfoV2), []),
+    relays: withDefault(arrayOf(string()), []),
+    mime_type: optional(string()),
+  });
+}
+
+/**
+ * What a decoder knows about the event the content came from
+ */
+export interface DecodeContext {
+  /** Pubkey that signed the event */
+  author?: string;
+}
+
+/**
+ * Turns parsed event content of one format version into the app's model
+ */
+export type ContentDecoder<T> = (content: unknown, context: DecodeContext) => SchemaResult<T>;
+
+/**
+ * Checks between manifest fields, and against the event that carried it
+ */
+function manifestChecks({ author }: DecodeContext): (manifest: Manifest) => SchemaIssue[] {
+  return (manifest) => {
+    const issues: SchemaIssue[] = [];
+    const { total_chunks, file_size, chunk_size, chunks } = manifest;
+    const expectedChunks = Math.ceil(file_size / chunk_size);
+    if (total_chunks !== expectedChunks) {
+      issues.push({ path: 'total_chunks', message: `expected ${expectedChunks} for file_size ${file_size} and chunk_size ${chunk_size}, got ${total_chunks}` });
+    }
+    if (chunks.length > 0 && chunks.length !== total_chunks) {
+      issues.push({ path: 'chunks', message: `lists ${chunks.length} chunks, but total_chunks is ${total_chunks}` });
+    }
+    if (author && manifest.pubkey.toLowerCase() !== author.toLowerCase()) {
+      issues.push({ path: 'pubkey', message: `does not match the event author ${author}` });
+    }
+    return issues;
+  };
+}
+
+// Version 3 is read as a superset of version 2: the v2 fields are required as before and
+// anything v3 adds is ignored. Replace its schemas once the v3 layout is written down.
+const fileIndexV2 = fileIndexSchema(2);
+const fileIndexV3 = fileIndexSchema(3);
+const manifestV2 = manifestSchema(2);
+const manifestV3 = manifestSchema(3);
+
+const indexDecoders = new Map<number, ContentDecoder<FileIndex>>([
+  [2, content => validate(fileIndexV2, content)],
+  [3, content => validate(fileIndexV3, content)],
+]);
+
+const manifestDecoders = new Map<number, ContentDecoder<Manifest>>([
+  [2, (content, context) => validate(refine(manifestV2, manifestChecks(context)), content)],
+  [3, (content, context) => validate(refine(manifestV3, manifestChecks(context)), content)],
+]);
+
+/**
+ * Add support for another index format version
+ */
+export function registerIndexDecoder(version: number, decoder: ContentDecoder<FileIndex>): void {
+  indexDecoders.set(version, decoder);
+}
+
+/**
+ * Add support for another manifest format version
+ */
+export function registerManifestDecoder(version: number, decoder: ContentDecoder<Manifest>): void {
+  manifestDecoders.set(version, decoder);
+}
+
+function decodeVersioned<T>(decoders: Map<number, ContentDecoder<T>>, content: unknown, context: DecodeContext): SchemaResult<T> {
+  if (!content || typeof content !== 'object' || Array.isArray(content)) {
+    return { ok: false, issues: [{ path: '', message: 'expected a JSON object' }] };
+  }
+  const version = (content as { version?: unknown }).version;
+  const decoder = typeof version === 'number' ? decoders.get(version) : undefined;
+  if (!decoder) {
+    const versions = Array.from(decoders.keys());
+    const supported = versions.join(', ');
+    const message = typeof version === 'number' && version > Math.max(...versions)
+      ? `version ${version} is newer than this app supports (supported: ${supported})`
+      : `unsupported version ${JSON.stringify(version) ?? 'undefined'} (supported: ${supported})`;
+    return { ok: false, issues: [{ path: 'version', message }] };
+  }
+  return decoder(content, context);
+}
+
+/**
+ * Check and convert parsed index content (kind 30080) using the decoder for its version
+ */
+export function decodeFileIndex(content: unknown, context: DecodeContext = {}): SchemaResult<FileIndex> {
+  return decodeVersioned(indexDecoders, content, context);
+}
+
+/**
+ * Check and convert parsed manifest content (kind 30079) using the decoder for its version
+ * With context.author, the manifest's pubkey must match the event's author.
+ */
+export function decodeManifest(content: unknown, context: DecodeContext = {}): SchemaResult<Manifest> {
+  return decodeVersioned(manifestDecoders, content, context);
+}
@@ -0,0 +1,341 @@
+/**
+ * Publishing files from the browser in nostrsave's format
+ * Chunks (kind 30078) go out first, then the manifest (kind 30079), then the author's
+ * index (kind 30080), so no published event points at one that isn't on relays yet.
+ */
+
+import type { EventTemplate, VerifiedEvent } from 'nostr-tools';
+import type { SimplePool } from 'nostr-tools/pool';
+import { finalizeEvent } from 'nostr-tools/pure';
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import { normalizeURL } from 'nostr-tools/utils';
+import {
+    createPool,
+    fetchFileIndex,
+    findRelaysWithoutIndex,
+    getAuthorIndexRelays,
+    getChunkDTag,
+    type FileIndexResult
+} from './nostr';
+import { getDataRelays, getIndexRelays } from './relaySettings';
+import { encryptChunkWithConversationKey, getConversationKey, uint8ArrayToBase64 } from './crypto';
+import { clearSecretKey, getPublicKeyFromSecret } from './keys';
+import { sha256Hex } from './integrity';
+import { getMimeTypeFromName } from './mimeTypes';
+import { EVENT_KINDS, D_TAGS, type ChunkInfo, type FileEntry, type FileIndex, type Manifest } from './types';
+
+/**
+ * Signs upload events as the file's author
+ */
+export interface EventSigner {
+    pubkey: string;
+    signEvent: (template: EventTemplate) => Promise<VerifiedEvent>;
+    /** NIP-44 self-encryption of raw chunk bytes; missing when the signer can't do it losslessly */
+    encryptChunk?: (data: Uint8Array) => Promise<string>;
+    /** Erase any key material held by the signer */
+    close: () => void;
+}
+
+/**
+ * Bytes per chunk; NIP-44 payloads are limited to 65535 bytes, and relays often cap events near 64 KiB
+ */
+export const UPLOAD_CHUNK_SIZE = 32 * 1024;
+
+/** Entries in the current index before it is moved to an archive */
+const MAX_INDEX_ENTRIES = 100;
+/** Chunk events being published at once */
+const PUBLISH_CONCURRENCY = 4;
+
+export type UploadStage = 'hashing' | 'chunks' | 'manifest' | 'index';
+
+export interface UploadProgress {
+    stage: UploadStage;
+    done: number;
+    total: number;
+}
+
+export interface UploadOptions {
+    encrypt: boolean;
+    onProgress?: (progress: UploadProgress) => void;
+    abortSignal?: AbortSignal;
+}
+
+export interface UploadResult {
+    manifest: Manifest;
+    /** True when the previous index was moved to a new archive to make room */
+    archived: boolean;
+}
+
+/**
+ * Signer holding a secret key in memory
+ * Takes its own copy of the key, so the caller can erase theirs right away.
+ */
+export function createSecretKeySigner(secretKey: Uint8Array): EventSigner {
+    const key = secretKey.slice();
+    const pubkey = getPublicKeyFromSecret(key);
+    let conversationKey: Uint8Array | null = null;
+
+    return {
+        pubkey,
+        signEvent: async (template) => finalizeEvent(template, key),
+        encryptChunk: async (data) => {
+            conversationKey ??= getConversationKey(key, pubkey);
+            return encryptChunkWithConversationKey(data, conversationKey);
+        },
+        close: () => {
+            clearSecretKey(key);
+            conversationKey?.fill(0);
+            conversationKey = null;
+        },
+    };
+}
+
+function throwIfAborted(abortSignal?: AbortSignal): void {
+    if (abortSignal?.aborted) throw new Error('Aborted');
+}
+
+async function readSlice(file: Blob, start: number, end: number): Promise<Uint8Array> {
+    return new Uint8Array(await file.slice(start, end).arrayBuffer());
+}
+
+/**
+ * Publish an event and wait for the relays' answers
+ * @returns relays that accepted it
+ * @throws Error listing each relay's reason if none did
+ */
+async function publishEvent(pool: SimplePool, relays: string[], event: VerifiedEvent, label: string): Promise<string[]> {
+    const results = await Promise.allSettled(pool.publish(relays, event));
+    const accepted = relays.filter((_, i) => results[i].status === 'fulfilled');
+    if (accepted.length === 0) {
+        const reasons = results.map((result, i) => {
+            const reason = result.status === 'rejected' ? result.reason : 'no answer';
+            return `${relays[i]}: ${reason instanceof Error ? reason.message : String(reason)}`;
+        });
+        throw new Error(`No relay accepted the ${label} (${reasons.join('; ')})`);
+    }
+    return accepted;
+}
+
+async function hashFile(file: Blob, onProgress: (done: number) => void, abortSignal?: AbortSignal): Promise<string> {
+    const hasher = sha256.create();
+    for (let offset = 0; offset < file.size; offset += UPLOAD_CHUNK_SIZE) {
+        throwIfAborted(abortSignal);
+        hasher.update(await readSlice(file, offset, offset + UPLOAD_CHUNK_SIZE));
+        onProgress(Math.min(offset + UPLOAD_CHUNK_SIZE, file.size));
+    }
+    return bytesToHex(hasher.digest());
+}
+
+/**
+ * Sign and publish every chunk of a file, a few at a time
+ * Signing stays sequential so an extension shows one prompt at a time.
+ */
+async function publishChunks(
+    pool: SimplePool,
+    relays: string[],
+    file: Blob,
+    fileHash: string,
+    signer: EventSigner,
+    encryptChunk: EventSigner['encryptChunk'],
+    onProgress: (done: number) => void,
+    abortSignal?: AbortSignal
+): Promise<ChunkInfo[]> {
+    const totalChunks = Math.ceil(file.size / UPLOAD_CHUNK_SIZE);
+    const chunks: ChunkInfo[] = [];
+    const inFlight = new Set<Promise<void>>();
+    let published = 0;
+    let publishError: unknown = null;
+
+    for (let index = 0; index < totalChunks && !publishError; index++) {
+        throwIfAborted(abortSignal);
+        const data = await readSlice(file, index * UPLOAD_CHUNK_SIZE, (index + 1) * UPLOAD_CHUNK_SIZE);
+        const content = encryptChunk ? await encryptChunk(data) : uint8ArrayToBase64(data);
+        const event = await signer.signEvent({
+            kind: EVENT_KINDS.CHUNK,
+            created_at: Math.floor(Date.now() / 1000),
+            tags: [
+                ['d', getChunkDTag(fileHash, index)],
+                ['x', fileHash],
+                ['chunk', String(index)],
+                ['encryption', encryptChunk ? 'nip44' : 'none'],
+            ],
+            content,
+        });
+        chunks.push({ index, event_id: event.id, hash: sha256Hex(data) });
+
+        const publish = publishEvent(pool, relays, event, `chunk ${index}`)
+            .then(() => onProgress(++published))
+            .catch((err) => {
+                publishError ??= err;
+            });
+        inFlight.add(publish);
+        publish.finally(() => inFlight.delete(publish));
+        if (inFlight.size >= PUBLISH_CONCURRENCY) await Promise.race(inFlight);
+    }
+
+    await Promise.all(inFlight);
+    if (publishError) throw publishError;
+    return chunks;
+}
+
+/**
+ * Add an entry to the author's current index, moving a full index to a new archive first
+ * The current index is read back from relays right before, so entries published from
+ * elsewhere are kept. A fresh index is only started when a relay confirmed (with EOSE)
+ * that there is none, and updates also go to every relay that served the old one.
+ * @throws Error if the current index can't be read, its absence can't be confirmed
+ * (it is never overwritten blind) or it is in a format version other than 2
+ */
+async function publishIndexEntry(
+    pool: SimplePool,
+    relays: string[],
+    signer: EventSigner,
+    entry: FileEntry
+): Promise<boolean> {
+    let current: FileIndexResult | null;
+    try {
+        current = await fetchFileIndex(pool, relays, signer.pubkey, 1);
+    } catch (err) {
+        throw new Error(`Could not read your current index, so it was left unchanged: ${err instanceof Error ? err.message : String(err)}`);
+    }
+
+    // No index can also mean no relay answered; only start one when a relay said so
+    let targetRelays = relays;
+    if (current) {
+        targetRelays = Array.from(new Set([...relays.map(url => normalizeURL(url)), ...current.foundOn]));
+    } else if ((await findRelaysWithoutIndex(pool, relays, signer.pubkey)).length === 0) {
+        throw new Error('None of your index relays confirmed whether you already have an index, so it was left unchanged. Check the relays and try again.');
+    }
+
+    // Rewriting another version as v2 would drop whatever fields that version adds
+    if (current && current.index.version !== 2) {
+        throw new Error(`Your index uses format version ${current.index.version}, which this app can read but not write, so it was left unchanged.`);
+    }
+
+    // A replaceable event only wins with a newer created_at
+    const previousCreatedAt = current?.versions[0]?.createdAt ?? 0;
+    const createdAt = Math.max(Math.floor(Date.now() / 1000), previousCreatedAt + 1);
+    const entries = current?.index.entries ?? [];
+    const totalArchives = current?.index.total_archives ?? 0;
+    const existing = entries.findIndex(other => other.file_hash === entry.file_hash);
+
+    let next: FileIndex;
+    let archived = false;
+    if (current && existing >= 0) {
+        // Re-uploading a file replaces its entry in place
+        next = { ...current.index, entries: entries.map((other, i) => (i === existing ? entry : other)) };
+    } else if (entries.length >= MAX_INDEX_ENTRIES) {
+        const archiveNumber = totalArchives + 1;
+        const archive: FileIndex = {
+            version: 2,
+            entries,
+            archive_number: archiveNumber,
+            total_archives: archiveNumber,
+        };
+        const archiveEvent = await signer.signEvent({
+            kind: EVENT_KINDS.INDEX,
+            created_at: createdAt,
+            tags: [['d', D_TAGS.archiveTag(archiveNumber)]],
+            content: JSON.stringify(archive),
+        });
+        await publishEvent(pool, targetRelays, archiveEvent, `index archive ${archiveNumber}`);
+        next = { version: 2, entries: [entry], archive_number: 0, total_archives: archiveNumber };
+        archived = true;
+    } else {
+        next = {
+            version: 2,
+            entries: [...entries, entry],
+            archive_number: current?.index.archive_number ?? 0,
+            total_archives: totalArchives,
+        };
+    }
+
+    const indexEvent = await signer.signEvent({
+        kind: EVENT_KINDS.INDEX,
+        created_at: createdAt,
+        tags: [['d', D_TAGS.CURRENT_INDEX]],
+        content: JSON.stringify(next),
+    });
+    await publishEvent(pool, targetRelays, indexEvent, 'index');
+    return archived;
+}
+
+/**
+ * Publish a file: chunks to the data relays, manifest and index to the index relays
+ * (plus the author's NIP-65 write relays)
+ *
+ * @throws Error if encryption is asked for but the signer can't encrypt, or any step fails
+ */
+export async function uploadFile(file: File, signer: EventSigner, options: UploadOptions): Promise<UploadResult> {
+    const { encrypt, onProgress, abortSignal } = options;
+    if (encrypt && !signer.encryptChunk) {
+        throw new Error('This signer cannot encrypt file chunks. Use your nsec to upload encrypted files.');
+    }
+    throwIfAborted(abortSignal);
+
+    const pool = createPool();
+    const dataRelays = getDataRelays();
+    let indexRelays = getIndexRelays();
+    const totalChunks = Math.ceil(file.size / UPLOAD_CHUNK_SIZE);
+
+    try {
+        indexRelays = await getAuthorIndexRelays(pool, indexRelays, signer.pubkey);
+
+        onProgress?.({ stage: 'hashing', done: 0, total: file.size });
+        const fileHash = await hashFile(file, done => onProgress?.({ stage: 'hashing', done, total: file.size }), abortSignal);
+
+        onProgress?.({ stage: 'chunks', done: 0, total: totalChunks });
+        const chunks = await publishChunks(
+            pool,
+            dataRelays,
+            file,
+            fileHash,
+            signer,
+            encrypt ? signer.encryptChunk : undefined,
+            done => onProgress?.({ stage: 'chunks', done, total: totalChunks }),
+            abortSignal
+        );
+        throwIfAborted(abortSignal);
+
+        onProgress?.({ stage: 'manifest', done: 0, total: 1 });
+        const createdAt = Math.floor(Date.now() / 1000);
+        const mimeType = file.type || getMimeTypeFromName(file.name);
+        const manifest: Manifest = {
+            version: 2,
+            file_name: file.name,
+            file_hash: fileHash,
+            file_size: file.size,
+            chunk_size: UPLOAD_CHUNK_SIZE,
+            total_chunks: totalChunks,
+            created_at: createdAt,
+            pubkey: signer.pubkey,
+            encryption: encrypt ? 'nip44' : 'none',
+            chunks,
+            relays: dataRelays,
+            ...(mimeType ? { mime_type: mimeType } : {}),
+        };
+        const manifestEvent = await signer.signEvent({
+            kind: EVENT_KINDS.MANIFEST,
+            created_at: createdAt,
+            tags: [['d', fileHash], ['x', fileHash]],
+            content: JSON.stringify(manifest),
+        });
+        await publishEvent(pool, indexRelays, manifestEvent, 'manifest');
+        throwIfAborted(abortSignal);
+
+        onProgress?.({ stage: 'index', done: 0, total: 1 });
+        const archived = await publishIndexEntry(pool, indexRelays, signer, {
+            file_hash: fileHash,
+            file_name: file.name,
+            file_size: file.size,
+            uploaded_at: createdAt,
+            encryption: manifest.encryption,
+        });
+        onProgress?.({ stage: 'index', done: 1, total: 1 });
+
+        return { manifest, archived };
+    } finally {
+        pool.close([...dataRelays, ...indexRelays]);
+    }
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest';
+import type { FileSink } from './fileSink';
+import { createZipWriter, uniqueZipName, updateCrc32 } from './zipWriter';
+
+interface MemorySink extends FileSink {
+    bytes(): Uint8Array;
+    closed: boolean;
+    aborted: boolean;
+}
+
+function createMemorySink(): MemorySink {
+    const parts: Uint8Array[] = [];
+    const sink: MemorySink = {
+        closed: false,
+        aborted: false,
+        write: async (data) => {
+            parts.push(data.slice());
+        },
+        close: async () => {
+            sink.closed = true;
+        },
+        abort: async () => {
+            sink.aborted = true;
+        },
+        bytes: () => {
+            const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+            let offset = 0;
+            for (const part of parts) {
+                out.set(part, offset);
+                offset += part.length;
+            }
+            return out;
+        },
+    };
+    return sink;
+}
+
+const encode = (text: string) => new TextEncoder().encode(text);
+const decode = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+async function writeEntry(zip: ReturnType<typeof createZipWriter>, name: string, text: string) {
+    const data = encode(text);
+    const entry = zip.addEntry(name, data.length, Date.UTC(2024, 0, 2, 3, 4, 6) / 1000);
+    await entry.write(data);
+    await entry.close();
+}
+
+describe('updateCrc32', () => {
+    it('matches the standard CRC-32, also when fed in pieces', () => {
+        expect(updateCrc32(0, encode('123456789'))).toBe(0xcbf43926);
+        expect(updateCrc32(updateCrc32(0, encode('1234')), encode('56789'))).toBe(0xcbf43926);
+    });
+});
+
+describe('createZipWriter', () => {
+    it('writes local headers, data descriptors and a central directory', async () => {
+        const sink = createMemorySink();
+        const zip = createZipWriter(sink);
+        await writeEntry(zip, 'a.txt', 'hello');
+        await writeEntry(zip, 'ü.txt', 'world!');
+        await zip.close();
+        expect(sink.closed).toBe(true);
+
+        const bytes = sink.bytes();
+        const view = new DataView(bytes.buffer);
+
+        // Local header of the first entry: stored, sizes deferred to the descriptor
+        expect(view.getUint32(0, true)).toBe(0x04034b50);
+        expect(view.getUint16(4, true)).toBe(20);
+        expect(view.getUint16(6, true)).toBe(0x0808);
+        expect(view.getUint16(8, true)).toBe(0);
+        expect(view.getUint32(14, true)).toBe(0);
+        expect(view.getUint32(18, true)).toBe(0);
+        expect(view.getUint32(22, true)).toBe(0);
+        expect(view.getUint16(26, true)).toBe(5);
+        expect(view.getUint16(28, true)).toBe(0);
+        expect(decode(bytes.subarray(30, 35))).toBe('a.txt');
+        expect(decode(bytes.subarray(35, 40))).toBe('hello');
+
+        // Data descriptor right after the data
+        expect(view.getUint32(40, true)).toBe(0x08074b50);
+        expect(view.getUint32(44, true)).toBe(updateCrc32(0, encode('hello')));
+        expect(view.getUint32(48, true)).toBe(5);
+        expect(view.getUint32(52, true)).toBe(5);
+
+        // End of central directory
+        const end = bytes.length - 22;
+        expect(view.getUint32(end, true)).toBe(0x06054b50);
+        expect(view.getUint16(end + 8, true)).toBe(2);
+        expect(view.getUint16(end + 10, true)).toBe(2);
+        const directorySize = view.getUint32(end + 12, true);
+        const directoryOffset = view.getUint32(end + 16, true);
+        expect(directoryOffset + directorySize).toBe(end);
+
+        // Central records point back at each local header
+        const secondName = encode('ü.txt');
+        const secondOffset = 56;
+        expect(view.getUint32(secondOffset, true)).toBe(0x04034b50);
+
+        let record = directoryOffset;
+        const expected = [
+            { name: encode('a.txt'), text: 'hello', offset: 0 },
+            { name: secondName, text: 'world!', offset: secondOffset },
+        ];
+        for (const { name, text, offset } of expected) {
+            expect(view.getUint32(record, true)).toBe(0x02014b50);
+            expect(view.getUint16(record + 8, true)).toBe(0x0808);
+            expect(view.getUint32(record + 16, true)).toBe(updateCrc32(0, encode(text)));
+            expect(view.getUint32(record + 20, true)).toBe(encode(text).length);
+            expect(view.getUint32(record + 24, true)).toBe(encode(text).length);
+            expect(view.getUint16(record + 28, true)).toBe(name.length);
+            expect(view.getUint32(record + 42, true)).toBe(offset);
+            expect(bytes.subarray(record + 46, record + 46 + name.length)).toEqual(name);
+            record += 46 + name.length;
+        }
+        expect(record).toBe(end);
+    });
+
+    it('drops an entry aborted before its first byte', async () => {
+        const sink = createMemorySink();
+        const zip = createZipWriter(sink);
+        await zip.addEntry('skipped.txt', 10, 0).abort();
+        await writeEntry(zip, 'kept.txt', 'data');
+        await zip.close();
+
+        const bytes = sink.bytes();
+        const view = new DataView(bytes.buffer);
+        expect(decode(bytes.subarray(30, 38))).toBe('kept.txt');
+        expect(view.getUint16(bytes.length - 22 + 10, true)).toBe(1);
+        expect(sink.aborted).toBe(false);
+    });
+
+    it('aborts the archive when an entry fails after writing data', async () => {
+        const sink = createMemorySink();
+        const zip = createZipWriter(sink);
+        const entry = zip.addEntry('partial.txt', 10, 0);
+        await entry.write(encode('part'));
+        await entry.abort();
+
+        expect(sink.aborted).toBe(true);
+        expect(zip.aborted).toBe(true);
+        expect(() => zip.addEntry('next.txt', 1, 0)).toThrow('ZIP archive was aborted');
+    });
+
+    it('allows only one open entry at a time', () => {
+        const zip = createZipWriter(createMemorySink());
+        zip.addEntry('a.txt', 1, 0);
+        expect(() => zip.addEntry('b.txt', 1, 0)).toThrow('Previous ZIP entry is still open');
+    });
+});
+
+describe('uniqueZipName', () => {
+    it('numbers repeated names before the extension, ignoring case', () => {
+        const used = new Set<string>();
+        expect(uniqueZipName('photo.jpg', used)).toBe('photo.jpg');
+        expect(uniqueZipName('Photo.JPG', used)).toBe('Photo (2).JPG');
+        expect(uniqueZipName('photo.jpg', used)).toBe('photo (3).jpg');
+        expect(uniqueZipName('README', used)).toBe('README');
+        expect(uniqueZipName('README', used)).toBe('README (2)');
+    });
+
+    it('keeps every entry at the top level and never empty', () => {
+        const used = new Set<string>();
+        expect(uniqueZipName('../etc/passwd', used)).toBe('.._etc_passwd');
+        expect(uniqueZipName('dir\\file.txt', used)).toBe('dir_file.txt');
+        expect(uniqueZipName('..', used)).toBe('_');
+        expect(uniqueZipName('   ', used)).toBe('file');
+        expect(uniqueZipName('.hidden', used)).toBe('.hidden');
+        expect(uniqueZipName('.hidden', used)).toBe('.hidden (2)');
+    });
+});
@@ -0,0 +1,327 @@
+/**
+ * Streaming ZIP writer
+ * Entries are stored uncompressed and written straight through to a FileSink,
+ * with CRC-32 and sizes in trailing data descriptors so nothing is buffered.
+ * ZIP64 records are added when sizes, offsets or the entry count need them.
+ */
+
+import type { FileSink } from './fileSink';
+
+export interface ZipWriter {
+    /**
+     * Start an entry and return a sink for its bytes
+     * Only one entry may be open at a time. Aborting an entry before any bytes
+     * are written drops it; aborting after that aborts the whole archive.
+     */
+    addEntry(name: string, size: number, modifiedAt: number): FileSink;
+    /** Write the central directory and close the underlying sink */
+    close(): Promise<void>;
+    abort(): Promise<void>;
+    /** True once the archive has been aborted and can take no more entries */
+    readonly aborted: boolean;
+}
+
+interface CentralRecord {
+    name: Uint8Array;
+    crc: number;
+    size: number;
+    offset: number;
+    dosTime: number;
+    dosDate: number;
+    zip64: boolean;
+}
+
+const UINT16_MAX = 0xffff;
+const UINT32_MAX = 0xffffffff;
+
+// Bit 3: sizes and CRC follow in a data descriptor; bit 11: UTF-8 names
+const GENERAL_FLAGS = 0x0808;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Continue a CRC-32 over more data (start with 0)
+ */
+export function updateCrc32(crc: number, data: Uint8Array): number {
+    let c = crc ^ UINT32_MAX;
+    for (let i = 0; i < data.length; i++) {
+        c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+    }
+    return (c ^ UINT32_MAX) >>> 0;
+}
+
+function toDosDateTime(unixSeconds: number): { dosTime: number; dosDate: number } {
+    const date = new Date(unixSeconds * 1000);
+    // DOS dates start at 1980
+    const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+    return {
+        dosTime: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+        dosDate: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+    };
+}
+
+interface RecordBuilder {
+    u16(value: number): RecordBuilder;
+    u32(value: number): RecordBuilder;
+    u64(value: number): RecordBuilder;
+    raw(data: Uint8Array): RecordBuilder;
+    done(): Uint8Array;
+}
+
+/**
+ * Little-endian record builder
+ */
+function createRecord(length: number): RecordBuilder {
+    const bytes = new Uint8Array(length);
+    const view = new DataView(bytes.buffer);
+    let offset = 0;
+
+    const builder: RecordBuilder = {
+        u16: (value) => {
+            view.setUint16(offset, value, true);
+            offset += 2;
+            return builder;
+        },
+        u32: (value) => {
+            view.setUint32(offset, value >>> 0, true);
+            offset += 4;
+            return builder;
+        },
+        u64: (value) => {
+            view.setBigUint64(offset, BigInt(value), true);
+            offset += 8;
+            return builder;
+        },
+        raw: (data) => {
+            bytes.set(data, offset);
+            offset += data.length;
+            return builder;
+        },
+        done: () => bytes,
+    };
+    return builder;
+}
+
+/**
+ * Make a file name safe and unique within an archive
+ * Path separators are replaced so every entry lands at the top level.
+ */
+export function uniqueZipName(fileName: string, usedNames: Set<string>): string {
+    const safe = fileName.replace(/[/\\]/g, '_').replace(/^\.+$/, '_').trim() || 'file';
+    let candidate = safe;
+    const dot = safe.lastIndexOf('.');
+    const stem = dot > 0 ? safe.slice(0, dot) : safe;
+    const ext = dot > 0 ? safe.slice(dot) : '';
+    for (let n = 2; usedNames.has(candidate.toLowerCase()); n++) {
+        candidate = `${stem} (${n})${ext}`;
+    }
+    usedNames.add(candidate.toLowerCase());
+    return candidate;
+}
+
+/**
+ * Create a ZIP archive on top of a sink
+ */
+export function createZipWriter(sink: FileSink): ZipWriter {
+    const encoder = new TextEncoder();
+    const records: CentralRecord[] = [];
+    let position = 0;
+    let entryOpen = false;
+    let failed = false;
+
+    const emit = async (data: Uint8Array) => {
+        await sink.write(data);
+        position += data.length;
+    };
+
+    const abort = async () => {
+        if (failed) return;
+        failed = true;
+        await sink.abort();
+    };
+
+    const addEntry = (fileName: string, size: number, modifiedAt: number): FileSink => {
+        if (failed) throw new Error('ZIP archive was aborted');
+        if (entryOpen) throw new Error('Previous ZIP entry is still open');
+        entryOpen = true;
+
+        const name = encoder.encode(fileName);
+        const { dosTime, dosDate } = toDosDateTime(modifiedAt);
+        let offset = 0;
+        let zip64 = false;
+        let headerWritten = false;
+        let written = 0;
+        let crc = 0;
+        let finished = false;
+
+        // The header is written lazily so an entry that fails before its first byte can be dropped
+        const writeHeader = async () => {
+            if (headerWritten) return;
+            headerWritten = true;
+            offset = position;
+            zip64 = size >= UINT32_MAX || offset >= UINT32_MAX;
+
+            const extraLength = zip64 ? 20 : 0;
+            const header = createRecord(30 + name.length + extraLength)
+                .u32(0x04034b50)
+                .u16(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT)
+                .u16(GENERAL_FLAGS)
+                .u16(0) // stored
+                .u16(dosTime)
+                .u16(dosDate)
+                .u32(0) // crc, in descriptor
+                .u32(zip64 ? UINT32_MAX : 0)
+                .u32(zip64 ? UINT32_MAX : 0)
+                .u16(name.length)
+                .u16(extraLength)
+                .raw(name);
+            if (zip64) {
+                header.u16(0x0001).u16(16).u64(0).u64(0);
+            }
+            await emit(header.done());
+        };
+
+        const finish = () => {
+            finished = true;
+            entryOpen = false;
+        };
+
+        return {
+            write: async (data: Uint8Array) => {
+                if (finished || failed) throw new Error('ZIP entry is closed');
+                await writeHeader();
+                crc = updateCrc32(crc, data);
+                written += data.length;
+                await emit(data);
+            },
+            close: async () => {
+                if (finished) return;
+                await writeHeader();
+                if (!zip64 && written >= UINT32_MAX) {
+                    finish();
+                    await abort();
+                    throw new Error(`${fileName} is larger than its declared size`);
+                }
+
+                const descriptor = createRecord(zip64 ? 24 : 16)
+                    .u32(0x08074b50)
+                    .u32(crc);
+                if (zip64) {
+                    descriptor.u64(written).u64(written);
+                } else {
+                    descriptor.u32(written).u32(written);
+                }
+                await emit(descriptor.done());
+
+                records.push({ name, crc, size: written, offset, dosTime, dosDate, zip64 });
+                finish();
+            },
+            abort: async () => {
+                if (finished) return;
+                finish();
+                if (headerWritten) await abort();
+            },
+        };
+    };
+
+    const close = async () => {
+        if (failed) throw new Error('ZIP archive was aborted');
+        if (entryOpen) throw new Error('ZIP entry is still open');
+
+        const directoryOffset = position;
+        for (const record of records) {
+            const needsSize = record.size >= UINT32_MAX;
+            const needsOffset = record.offset >= UINT32_MAX;
+            const extraLength = needsSize || needsOffset
+                ? 4 + (needsSize ? 16 : 0) + (needsOffset ? 8 : 0)
+                : 0;
+            const version = record.zip64 || extraLength > 0 ? VERSION_ZIP64 : VERSION_DEFAULT;
+
+            const entry = createRecord(46 + record.name.length + extraLength)
+                .u32(0x02014b50)
+                .u16(version)
+                .u16(version)
+                .u16(GENERAL_FLAGS)
+                .u16(0)
+                .u16(record.dosTime)
+                .u16(record.dosDate)
+                .u32(record.crc)
+                .u32(needsSize ? UINT32_MAX : record.size)
+                .u32(needsSize ? UINT32_MAX : record.size)
+                .u16(record.name.length)
+                .u16(extraLength)
+                .u16(0) // comment length
+                .u16(0) // disk number
+                .u16(0) // internal attributes
+                .u32(0) // external attributes
+                .u32(needsOffset ? UINT32_MAX : record.offset)
+                .raw(record.name);
+            if (extraLength > 0) {
+                entry.u16(0x0001).u16(extraLength - 4);
+                if (needsSize) entry.u64(record.size).u64(record.size);
+                if (needsOffset) entry.u64(record.offset);
+            }
+            await emit(entry.done());
+        }
+        const directorySize = position - directoryOffset;
+
+        const needsZip64 = records.length >= UINT16_MAX
+            || directorySize >= UINT32_MAX
+            || directoryOffset >= UINT32_MAX;
+        if (needsZip64) {
+            const zip64EndOffset = position;
+            await emit(createRecord(56)
+                .u32(0x06064b50)
+                .u64(44)
+                .u16(VERSION_ZIP64)
+                .u16(VERSION_ZIP64)
+                .u32(0)
+                .u32(0)
+                .u64(records.length)
+                .u64(records.length)
+                .u64(directorySize)
+                .u64(directoryOffset)
+                .done());
+            await emit(createRecord(20)
+                .u32(0x07064b50)
+                .u32(0)
+                .u64(zip64EndOffset)
+                .u32(1)
+                .done());
+        }
+
+        await emit(createRecord(22)
+            .u32(0x06054b50)
+            .u16(0)
+            .u16(0)
+            .u16(Math.min(records.length, UINT16_MAX))
+            .u16(Math.min(records.length, UINT16_MAX))
+            .u32(Math.min(directorySize, UINT32_MAX))
+            .u32(Math.min(directoryOffset, UINT32_MAX))
+            .u16(0)
+            .done());
+
+        await sink.close();
+    };
+
+    return {
+        addEntry,
+        close,
+        abort,
+        get aborted() {
+            return failed;
+        },
+    };
+}
@@ -0,0 +1,145 @@
+/**
+ * In-memory relay pool and NIP-46 bunker for exercising the remote signer helpers in keys.ts
+ * Events published to the pool are delivered straight to matching subscriptions; no sockets are opened.
+ */
+
+import type { AbstractSimplePool, SubCloser, SubscribeManyParams } from 'nostr-tools/abstract-pool';
+import type { Event, Filter } from 'nostr-tools';
+import { matchFilter } from 'nostr-tools/filter';
+import { NostrConnect } from 'nostr-tools/kinds';
+import * as nip44 from 'nostr-tools/nip44';
+import { parseNostrConnectURI } from 'nostr-tools/nip46';
+import { finalizeEvent, generateSecretKey, getPublicKey } from 'nostr-tools/pure';
+
+export const MOCK_RELAY = 'wss://mock.relay';
+
+export interface MockPool {
+    /** Pass as RemoteSignerOptions.pool */
+    pool: AbstractSimplePool;
+    /** Subscriptions still open */
+    openSubscriptions(): number;
+}
+
+interface MockSubscription {
+    filter: Filter;
+    params: SubscribeManyParams;
+}
+
+/**
+ * Pool that keeps every subscription in memory
+ */
+export function createMockPool(): MockPool {
+    const subscriptions = new Set<MockSubscription>();
+
+    const closeAll = (reason: string) => {
+        for (const sub of Array.from(subscriptions)) {
+            subscriptions.delete(sub);
+            sub.params.onclose?.([reason]);
+        }
+    };
+
+    const pool = {
+        subscribe: (_relays: string[], filter: Filter, params: SubscribeManyParams): SubCloser => {
+            const sub = { filter, params };
+            subscriptions.add(sub);
+            return {
+                close: (reason = 'closed by caller') => {
+                    if (!subscriptions.delete(sub)) return;
+                    // Like the real pool, onclose fires after close() returns
+                    queueMicrotask(() => params.onclose?.([reason]));
+                },
+            };
+        },
+        publish: (relays: string[], event: Event): Promise<string>[] => {
+            // Deliver after the publisher has registered its listeners, like a real relay round trip
+            setTimeout(() => {
+                for (const sub of Array.from(subscriptions)) {
+                    if (matchFilter(sub.filter, event)) sub.params.onevent?.(event);
+                }
+            }, 0);
+            return relays.map(() => Promise.resolve(''));
+        },
+        close: () => closeAll('relay connection closed'),
+        destroy: () => closeAll('pool destroyed'),
+    };
+
+    return {
+        pool: pool as unknown as AbstractSimplePool,
+        openSubscriptions: () => subscriptions.size,
+    };
+}
+
+export interface MockBunker {
+    /** The user's public key the bunker signs for */
+    userPubkey: string;
+    /** bunker:// URI to connect with */
+    bunkerUri: string;
+    /** Answer a nostrconnect:// URI as if it had been scanned */
+    pair(uri: string): void;
+    /** Methods requested so far, in order */
+    requests: string[];
+    stop(): void;
+}
+
+/**
+ * Remote signer holding userSecretKey, listening on the mock pool
+ * Supports connect, get_public_key, ping and nip44_decrypt.
+ */
+export function startMockBunker(mock: MockPool, userSecretKey: Uint8Array = generateSecretKey()): MockBunker {
+    const bunkerSecretKey = generateSecretKey();
+    const bunkerPubkey = getPublicKey(bunkerSecretKey);
+    const userPubkey = getPublicKey(userSecretKey);
+    const secret = 'mock-secret';
+    const requests: string[] = [];
+
+    const reply = (clientPubkey: string, message: Record<string, string>) => {
+        const conversationKey = nip44.v2.utils.getConversationKey(bunkerSecretKey, clientPubkey);
+        const event = finalizeEvent({
+            kind: NostrConnect,
+            created_at: Math.floor(Date.now() / 1000),
+            tags: [['p', clientPubkey]],
+            content: nip44.v2.encrypt(JSON.stringify(message), conversationKey),
+        }, bunkerSecretKey);
+        mock.pool.publish([MOCK_RELAY], event);
+    };
+
+    const handle = (method: string, params: string[]): string => {
+        switch (method) {
+            case 'connect':
+                if (params[1] && params[1] !== secret) throw new Error('invalid secret');
+                return 'ack';
+            case 'get_public_key':
+                return userPubkey;
+            case 'ping':
+                return 'pong';
+            case 'nip44_decrypt':
+                return nip44.v2.decrypt(params[1], nip44.v2.utils.getConversationKey(userSecretKey, params[0]));
+            default:
+                throw new Error(`unsupported method ${method}`);
+        }
+    };
+
+    const sub = mock.pool.subscribe([MOCK_RELAY], { kinds: [NostrConnect], '#p': [bunkerPubkey] }, {
+        onevent: (event) => {
+            const conversationKey = nip44.v2.utils.getConversationKey(bunkerSecretKey, event.pubkey);
+            const { id, method, params } = JSON.parse(nip44.v2.decrypt(event.content, conversationKey));
+            requests.push(method);
+            try {
+                reply(event.pubkey, { id, result: handle(method, params) });
+            } catch (err) {
+                reply(event.pubkey, { id, result: '', error: err instanceof Error ? err.message : String(err) });
+            }
+        },
+    });
+
+    return {
+        userPubkey,
+        bunkerUri: `bunker://${bunkerPubkey}?relay=${encodeURIComponent(MOCK_RELAY)}&secret=${secret}`,
+        pair: (uri) => {
+            const { clientPubkey, params } = parseNostrConnectURI(uri);
+            reply(clientPubkey, { id: 'pair', result: params.secret });
+        },
+        requests,
+        stop: () => sub.close(),
+    };
+}